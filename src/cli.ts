@@ -0,0 +1,630 @@
+#!/usr/bin/env node
+/**
+ * SummitX Swap CLI
+ *
+ * Quote and execute swaps on Base Camp testnet from the command line.
+ *
+ * Usage:
+ *   summitx tokens
+ *   summitx quote <tokenIn> <tokenOut> <amount> [--exact-output] [--slippage 0.5]
+ *   summitx swap <tokenIn> <tokenOut> <amount> [--exact-output] [--dry-run] [--yes]
+ *   summitx balances [--address 0x...]
+ *   summitx allowance [token] [--owner 0x...] [--spender 0x...]
+ *   summitx revoke [token] [--spender 0x...] [--yes]
+ *
+ * Tokens may be given by symbol (e.g. USDC, CAMP) or address; addresses that
+ * are not in the built-in tokens or a loaded token list are looked up
+ * on-chain. Every command accepts --chain <id> to pick a chain from the chain
+ * registry, --token-list to add tokens and --json for machine-readable output.
+ *
+ * Environment:
+ *   PRIVATE_KEY - wallet used by `swap`, and the default address elsewhere
+ *   RPC_URL     - optional custom RPC URL, tried before the built-in endpoints
+ *   TOKEN_LISTS - optional comma-separated token list URLs or files
+ *   V2_SUBGRAPH_URL, V3_SUBGRAPH_URL - optional subgraphs to use instead of the chain's
+ *   SUBGRAPH_API_KEY - optional bearer token sent to the subgraphs
+ *   LOG_LEVEL   - default for --log-level
+ *   LOG_FORMAT  - default for --log-format
+ */
+
+import { parseArgs } from "node:util"
+import { config } from "dotenv"
+import readlineSync from "readline-sync"
+import {
+  createPublicClient,
+  createWalletClient,
+  formatUnits,
+  isAddress,
+  maxUint256,
+  type Address,
+  type PublicClient,
+} from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+import { TradeType, type Currency, type Token } from "@summitx/swap-sdk-core"
+
+import { TokenQuoter, type PoolDiscoveryMode, type QuoteResult } from "./quoter/token-quoter"
+import { BASECAMP_TESTNET } from "./config/base-testnet"
+import { getChainConfig, type ChainConfig } from "./config/chains"
+import { TokenRegistry } from "./config/token-registry"
+import { SwapExecutor } from "./swap/swap-executor"
+import { listAllowances, revokeApprovals, type ApprovalStrategy } from "./swap/approvals"
+import { ERC20_ABI } from "./swap/erc20-abi"
+import type { SwapSimulationResult } from "./swap/simulation"
+import { RpcEndpointPool, createFailoverTransport } from "./utils/failover-transport"
+import { bigintReplacer, serializeCurrency, serializeQuoteResult } from "./utils/serialize"
+import { ConsoleTransport, logger, type LogFormat, type MinLogLevel } from "./utils/logger"
+import { SummitXError } from "./utils/errors"
+
+// Load environment variables
+config()
+
+const USAGE = `Usage: summitx <command> [options]
+
+Commands:
+  tokens                                  List known tokens
+  quote <tokenIn> <tokenOut> <amount>     Quote a swap
+  swap <tokenIn> <tokenOut> <amount>      Quote and execute a swap (needs PRIVATE_KEY)
+  balances                                Show token balances
+  allowance [token]                       Show router allowances (all tokens by default)
+  revoke [token]                          Revoke router allowances (all tokens by default)
+
+Options:
+  --exact-output        <amount> is the output to receive instead of the input to spend
+  --slippage <percent>  Slippage tolerance (default 0.5)
+  --max-hops <n>        Maximum hops per route (default 3)
+  --max-splits <n>      Maximum route splits (default 3)
+  --pool-discovery <m>  subgraph or onchain, from the factory contracts only (default subgraph)
+  --dry-run             Build the swap transaction without sending it
+  --approval <strategy> exact, infinite or amount-with-buffer (default exact)
+  --max-quote-age <s>   Re-quote before sending when the quote is older (default 30)
+  --max-deviation <pct> Ask before sending when the re-quote is this much worse (default 0.5)
+  --yes, -y             Send transactions without asking for confirmation
+  --address <address>   Account for balances (default: PRIVATE_KEY account)
+  --owner <address>     Owner for allowance (default: PRIVATE_KEY account)
+  --spender <address>   Spender for allowance and revoke (default: SmartRouter)
+  --chain <id>          Chain id from the chain registry (default: Base Camp testnet)
+  --token-list <source> Token list URL or file to add tokens from (repeatable)
+  --json                Print machine-readable JSON (logs go to stderr)
+  --log-level <level>   debug, info, warn, error or silent (default: LOG_LEVEL or info)
+  --log-format <format> pretty or json lines (default: LOG_FORMAT or pretty)
+  --help, -h            Show this help`
+
+type CliOptions = ReturnType<typeof parseCliArgs>["values"]
+
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      "exact-output": { type: "boolean", default: false },
+      slippage: { type: "string", default: "0.5" },
+      "max-hops": { type: "string", default: "3" },
+      "max-splits": { type: "string", default: "3" },
+      "pool-discovery": { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      approval: { type: "string", default: "exact" },
+      "max-quote-age": { type: "string", default: "30" },
+      "max-deviation": { type: "string", default: "0.5" },
+      yes: { type: "boolean", short: "y", default: false },
+      address: { type: "string" },
+      owner: { type: "string" },
+      spender: { type: "string" },
+      chain: { type: "string", default: String(BASECAMP_TESTNET) },
+      "token-list": { type: "string", multiple: true, default: [] },
+      json: { type: "boolean", default: false },
+      "log-level": { type: "string" },
+      "log-format": { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  })
+}
+
+// Chain, RPC endpoints and tokens shared by the commands of one invocation
+interface CliContext {
+  chain: ChainConfig
+  pool: RpcEndpointPool
+  tokens: TokenRegistry
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function resolveCurrency(tokens: TokenRegistry, value: string | undefined, name: string): Promise<Currency> {
+  if (!value) {
+    throw new Error(`Missing <${name}>\n\n${USAGE}`)
+  }
+  const currency = await tokens.resolve(value)
+  if (!currency) {
+    throw new Error(`Unknown token for <${name}>: ${value} (run \`summitx tokens\` to list known tokens)`)
+  }
+  return currency
+}
+
+function parseNumberOption(value: string, name: string): number {
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative number, got ${value}`)
+  }
+  return parsed
+}
+
+function parsePositiveIntegerOption(value: string, name: string): number {
+  const parsed = Number(value)
+  if (!Number.isSafeInteger(parsed) || parsed < 1) {
+    throw new Error(`--${name} must be a positive integer, got ${value}`)
+  }
+  return parsed
+}
+
+function parseAddressOption(value: string, name: string): Address {
+  if (!isAddress(value)) {
+    throw new Error(`--${name} must be an address, got ${value}`)
+  }
+  return value
+}
+
+function parsePoolDiscovery(value: string | undefined): PoolDiscoveryMode | undefined {
+  if (value === undefined || value === "subgraph" || value === "onchain") {
+    return value
+  }
+  throw new Error(`--pool-discovery must be subgraph or onchain, got ${value}`)
+}
+
+function parseApprovalStrategy(value: string): ApprovalStrategy {
+  if (value === "exact" || value === "infinite" || value === "amount-with-buffer") {
+    return value
+  }
+  throw new Error(`--approval must be exact, infinite or amount-with-buffer, got ${value}`)
+}
+
+function parseLogLevel(value: string): MinLogLevel {
+  if (value === "debug" || value === "info" || value === "warn" || value === "error" || value === "silent") {
+    return value
+  }
+  throw new Error(`--log-level must be debug, info, warn, error or silent, got ${value}`)
+}
+
+function parseLogFormat(value: string): LogFormat {
+  if (value === "pretty" || value === "json") {
+    return value
+  }
+  throw new Error(`--log-format must be pretty or json, got ${value}`)
+}
+
+function getAccount() {
+  const privateKey = process.env.PRIVATE_KEY
+  if (!privateKey) {
+    throw new Error("Set PRIVATE_KEY in your .env file (or pass --address / --owner)")
+  }
+  return privateKeyToAccount(privateKey as `0x${string}`)
+}
+
+function createRpcPool(chain: ChainConfig): RpcEndpointPool {
+  return new RpcEndpointPool([
+    ...(process.env.RPC_URL ? [process.env.RPC_URL] : []),
+    ...chain.rpcUrls,
+  ])
+}
+
+function createWalletRpcClient(chain: ChainConfig, pool: RpcEndpointPool) {
+  return createWalletClient({
+    account: getAccount(),
+    chain: chain.chain,
+    transport: createFailoverTransport(pool),
+  })
+}
+
+function createPublicRpcClient(chain: ChainConfig, pool: RpcEndpointPool): PublicClient {
+  return createPublicClient({
+    chain: chain.chain,
+    transport: createFailoverTransport(pool),
+    batch: {
+      multicall: true, // balances of every token in a list
+    },
+  }) as PublicClient
+}
+
+async function createTokenRegistry(chain: ChainConfig, pool: RpcEndpointPool, options: CliOptions): Promise<TokenRegistry> {
+  const tokens = new TokenRegistry(chain, createPublicRpcClient(chain, pool))
+  const sources = [
+    ...(process.env.TOKEN_LISTS ?? "").split(",").map(source => source.trim()).filter(Boolean),
+    ...options["token-list"],
+  ]
+  for (const source of sources) {
+    await tokens.loadTokenList(source)
+  }
+  return tokens
+}
+
+async function getCurrencyBalance(client: PublicClient, currency: Currency, owner: Address): Promise<bigint> {
+  if (currency.isNative) {
+    return client.getBalance({ address: owner })
+  }
+  return client.readContract({
+    address: currency.address as Address,
+    abi: ERC20_ABI,
+    functionName: "balanceOf",
+    args: [owner],
+  })
+}
+
+// Command output goes to stdout, logs go through the logger
+function print(line: string): void {
+  process.stdout.write(line + "\n")
+}
+
+function printJson(value: unknown): void {
+  print(JSON.stringify(value, bigintReplacer, 2))
+}
+
+function printQuote(quote: QuoteResult): void {
+  logger.success("Quote:", {
+    input: `${quote.inputAmount} ${quote.inputToken.symbol}`,
+    expectedOutput: `${quote.outputAmount} ${quote.outputToken.symbol}`,
+    minimumOutput: `${quote.minimumReceived} ${quote.outputToken.symbol}`,
+    maximumInput: `${quote.maximumAmountIn} ${quote.inputToken.symbol}`,
+    priceImpact: quote.priceImpact,
+    gasCost: `${quote.gasCostNative} CAMP`,
+    route: quote.route,
+  })
+}
+
+function createQuoter({ chain, pool }: CliContext, options: CliOptions): TokenQuoter {
+  return new TokenQuoter({
+    chainConfig: chain,
+    rpcEndpointPool: pool,
+    slippageTolerance: parseNumberOption(options.slippage, "slippage"),
+    maxHops: parsePositiveIntegerOption(options["max-hops"], "max-hops"),
+    maxSplits: parsePositiveIntegerOption(options["max-splits"], "max-splits"),
+    poolDiscovery: parsePoolDiscovery(options["pool-discovery"]),
+    subgraphs: {
+      ...(process.env.V2_SUBGRAPH_URL && { v2: process.env.V2_SUBGRAPH_URL }),
+      ...(process.env.V3_SUBGRAPH_URL && { v3: process.env.V3_SUBGRAPH_URL }),
+    },
+    subgraphOptions: { apiKey: process.env.SUBGRAPH_API_KEY },
+  })
+}
+
+async function getQuote(
+  { tokens }: CliContext,
+  quoter: TokenQuoter,
+  positionals: string[],
+  options: CliOptions
+): Promise<QuoteResult> {
+  const [, tokenIn, tokenOut, amount] = positionals
+  const inputToken = await resolveCurrency(tokens, tokenIn, "tokenIn")
+  const outputToken = await resolveCurrency(tokens, tokenOut, "tokenOut")
+  if (!amount || !/^\d+(\.\d+)?$/.test(amount) || Number(amount) === 0) {
+    throw new Error(`<amount> must be a positive decimal, got ${amount ?? "nothing"}`)
+  }
+
+  const tradeType = options["exact-output"] ? TradeType.EXACT_OUTPUT : TradeType.EXACT_INPUT
+  return quoter.getQuote(inputToken, outputToken, amount, tradeType, true)
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+async function tokensCommand({ tokens }: CliContext, options: CliOptions): Promise<void> {
+  const currencies = tokens.getCurrencies()
+  if (options.json) {
+    printJson({ tokens: currencies.map(serializeCurrency) })
+    return
+  }
+
+  for (const currency of currencies) {
+    const address = currency.isNative ? "native" : currency.address
+    print(`${(currency.symbol ?? "").padEnd(8)} ${address}  (${currency.decimals} decimals)`)
+  }
+}
+
+async function quoteCommand(context: CliContext, positionals: string[], options: CliOptions): Promise<void> {
+  const quote = await getQuote(context, createQuoter(context, options), positionals, options)
+
+  if (options.json) {
+    printJson({ quote: serializeQuoteResult(quote) })
+  } else {
+    printQuote(quote)
+  }
+}
+
+async function swapCommand(context: CliContext, positionals: string[], options: CliOptions): Promise<void> {
+  const { chain, pool } = context
+  const publicClient = createPublicRpcClient(chain, pool)
+  const walletClient = createWalletRpcClient(chain, pool)
+  const approvalStrategy = parseApprovalStrategy(options.approval)
+
+  const quoter = createQuoter(context, options)
+  const quote = await getQuote(context, quoter, positionals, options)
+  const executor = new SwapExecutor(walletClient, publicClient, {
+    chainConfig: chain,
+    slippageTolerance: parseNumberOption(options.slippage, "slippage"),
+    approvalStrategy,
+    quoter,
+    maxQuoteAgeSeconds: parseNumberOption(options["max-quote-age"], "max-quote-age"),
+    maxRequoteDeviationPercent: parseNumberOption(options["max-deviation"], "max-deviation"),
+    // With --yes nobody is asked, so a re-quote beyond the deviation aborts the swap
+    confirmRequote: options.yes
+      ? undefined
+      : ({ quote: current, deviationPercent }) => readlineSync.keyInYN(
+          `Price moved: the swap now gives ${current.outputAmount} ${current.outputToken.symbol} ` +
+            `for ${current.inputAmount} ${current.inputToken.symbol} (${deviationPercent}% worse). Continue?`
+        ) === true,
+  })
+
+  if (options["dry-run"]) {
+    const balance = await executor.checkBalance(quote)
+    const transaction = executor.buildTransaction(quote)
+
+    // Without an allowance for the router the simulation reverts, so report it instead of failing
+    let simulation: SwapSimulationResult | undefined
+    let simulationError: string | undefined
+    try {
+      simulation = await executor.simulate(quote, transaction)
+    } catch (error) {
+      simulationError = error instanceof Error ? error.message : String(error)
+    }
+
+    if (options.json) {
+      printJson({ quote: serializeQuoteResult(quote), balance, transaction, simulation, simulationError })
+      return
+    }
+    printQuote(quote)
+    logger.info("Dry run - transaction not sent:", transaction)
+    if (!balance.sufficient) {
+      logger.warn(`Insufficient ${quote.inputToken.symbol} balance for this swap`)
+    }
+    if (simulation) {
+      logger.success(`Simulation passed: ${simulation.formatted} ${simulation.amountOut !== undefined ? quote.outputToken.symbol : quote.inputToken.symbol}, gas ${simulation.gasEstimate}`)
+    } else {
+      logger.warn(`Simulation failed (an approval may still be needed): ${simulationError}`)
+    }
+    return
+  }
+
+  if (!options.json) {
+    printQuote(quote)
+  }
+
+  // The executor re-quotes stale quotes before sending
+  let sendingQuote = quote
+  executor.on("requoted", ({ quote: current }) => {
+    sendingQuote = current
+  })
+
+  if (!options.yes) {
+    if (options.json) {
+      throw new Error("Pass --yes to send a swap with --json output")
+    }
+    // Asked once everything up to sending is ready, so the answer covers the final quote
+    executor.on("simulated", () => {
+      if (!readlineSync.keyInYN(`Swap ${sendingQuote.inputAmount} ${sendingQuote.inputToken.symbol} for ${sendingQuote.outputAmount} ${sendingQuote.outputToken.symbol}?`)) {
+        throw new Error("Swap cancelled")
+      }
+    })
+  }
+
+  if (!options.json) {
+    executor.on("approving", ({ token, amount, method }) => {
+      const action = method === "permit" ? "Signing permit for" : "Approving"
+      logger.info(`${action} ${formatUnits(amount, token.decimals)} ${token.symbol} for the router...`)
+    })
+    executor.on("requoted", ({ ageSeconds, deviationPercent }) => {
+      const change = deviationPercent > 0 ? `${deviationPercent}% worse` : `${-deviationPercent}% better`
+      logger.info(`Re-quoted a ${Math.round(ageSeconds)}s old quote: ${change}`)
+    })
+    executor.on("sent", ({ hash }) => {
+      logger.info(`Swap transaction sent: ${hash}`)
+    })
+  }
+
+  const result = await executor.execute(quote)
+
+  if (options.json) {
+    printJson({
+      quote: serializeQuoteResult(result.quote),
+      hash: result.hash,
+      blockNumber: result.receipt.blockNumber,
+      gasUsed: result.receipt.gasUsed,
+      approval: result.approval,
+      spent: result.verification.inputSpentFormatted,
+      received: result.verification.outputReceivedFormatted,
+    })
+    return
+  }
+
+  logger.success("Swap confirmed:", {
+    transactionHash: result.hash,
+    blockNumber: result.receipt.blockNumber.toString(),
+    spent: `${result.verification.inputSpentFormatted} ${quote.inputToken.symbol}`,
+    received: `${result.verification.outputReceivedFormatted} ${quote.outputToken.symbol}`,
+  })
+}
+
+async function balancesCommand({ chain, pool, tokens }: CliContext, options: CliOptions): Promise<void> {
+  const owner = options.address ? parseAddressOption(options.address, "address") : getAccount().address
+  const client = createPublicRpcClient(chain, pool)
+
+  const balances = await Promise.all(
+    tokens.getCurrencies().map(async currency => {
+      const raw = await getCurrencyBalance(client, currency, owner)
+      return { currency, raw, formatted: formatUnits(raw, currency.decimals) }
+    })
+  )
+
+  if (options.json) {
+    printJson({
+      address: owner,
+      balances: balances.map(({ currency, raw, formatted }) => ({
+        token: serializeCurrency(currency),
+        raw,
+        formatted,
+      })),
+    })
+    return
+  }
+
+  print(`Balances of ${owner}`)
+  for (const { currency, formatted } of balances) {
+    print(`${(currency.symbol ?? "").padEnd(8)} ${formatted}`)
+  }
+}
+
+// A single token when given, otherwise every known ERC20
+async function resolveApprovalTokens(tokens: TokenRegistry, value: string | undefined): Promise<Token[] | undefined> {
+  if (value === undefined) {
+    return undefined
+  }
+  const currency = await resolveCurrency(tokens, value, "token")
+  if (currency.isNative) {
+    throw new Error("Native CAMP has no allowance; it is sent as the transaction value")
+  }
+  return [currency]
+}
+
+async function allowanceCommand(context: CliContext, positionals: string[], options: CliOptions): Promise<void> {
+  const { chain, pool } = context
+  const tokens = await resolveApprovalTokens(context.tokens, positionals[1])
+  const owner = options.owner ? parseAddressOption(options.owner, "owner") : getAccount().address
+  const spender = options.spender ? parseAddressOption(options.spender, "spender") : chain.contracts.smartRouter
+  const client = createPublicRpcClient(chain, pool)
+
+  const allowances = await listAllowances(client, owner, tokens, spender)
+
+  if (options.json) {
+    printJson({
+      owner,
+      spender,
+      allowances: allowances.map(({ token, allowance }) => ({
+        token: serializeCurrency(token),
+        raw: allowance,
+        formatted: formatUnits(allowance, token.decimals),
+      })),
+    })
+    return
+  }
+
+  print(`Allowances of ${owner} for ${spender}`)
+  for (const { token, allowance } of allowances) {
+    const formatted = allowance === maxUint256 ? "unlimited" : formatUnits(allowance, token.decimals)
+    print(`${(token.symbol ?? "").padEnd(8)} ${formatted}`)
+  }
+}
+
+async function revokeCommand(context: CliContext, positionals: string[], options: CliOptions): Promise<void> {
+  const { chain, pool } = context
+  const tokens = await resolveApprovalTokens(context.tokens, positionals[1])
+  const spender = options.spender ? parseAddressOption(options.spender, "spender") : chain.contracts.smartRouter
+  const publicClient = createPublicRpcClient(chain, pool)
+  const walletClient = createWalletRpcClient(chain, pool)
+
+  const active = (await listAllowances(publicClient, walletClient.account.address, tokens, spender))
+    .filter(({ allowance }) => allowance > 0n)
+
+  if (active.length === 0) {
+    if (options.json) {
+      printJson({ spender, revoked: [] })
+    } else {
+      logger.success(`No allowances to revoke for ${spender}`)
+    }
+    return
+  }
+
+  if (!options.yes) {
+    if (options.json) {
+      throw new Error("Pass --yes to revoke with --json output")
+    }
+    const symbols = active.map(({ token }) => token.symbol).join(", ")
+    if (!readlineSync.keyInYN(`Revoke ${spender} allowances for ${symbols}?`)) {
+      throw new Error("Revoke cancelled")
+    }
+  }
+
+  const revoked = await revokeApprovals(walletClient, publicClient, {
+    tokens: active.map(({ token }) => token),
+    spender,
+  })
+
+  if (options.json) {
+    printJson({
+      spender,
+      revoked: revoked.map(({ token, previousAllowance, hash }) => ({
+        token: serializeCurrency(token),
+        previousAllowance,
+        hash,
+      })),
+    })
+    return
+  }
+
+  for (const { token, hash } of revoked) {
+    logger.success(`Revoked ${token.symbol}: ${hash}`)
+  }
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+async function main(argv: string[]): Promise<void> {
+  const { values: options, positionals } = parseCliArgs(argv)
+  const [command] = positionals
+
+  if (options.help || !command) {
+    print(USAGE)
+    return
+  }
+
+  try {
+    // Logs go to stderr with --json so stdout stays parseable
+    const transport = new ConsoleTransport({
+      format: options["log-format"] ? parseLogFormat(options["log-format"]) : undefined,
+      stderr: options.json,
+    })
+    logger.configure({
+      level: options["log-level"] ? parseLogLevel(options["log-level"]) : undefined,
+      format: transport.format,
+      transports: [transport],
+    })
+
+    const chain = getChainConfig(Number(options.chain))
+    const pool = createRpcPool(chain)
+    const context: CliContext = { chain, pool, tokens: await createTokenRegistry(chain, pool, options) }
+
+    switch (command) {
+      case "tokens":
+        return await tokensCommand(context, options)
+      case "quote":
+        return await quoteCommand(context, positionals, options)
+      case "swap":
+        return await swapCommand(context, positionals, options)
+      case "balances":
+        return await balancesCommand(context, options)
+      case "allowance":
+        return await allowanceCommand(context, positionals, options)
+      case "revoke":
+        return await revokeCommand(context, positionals, options)
+      default:
+        throw new Error(`Unknown command: ${command}\n\n${USAGE}`)
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    if (options.json) {
+      printJson({
+        error: error instanceof SummitXError
+          ? { code: error.code, message, retryable: error.retryable, context: error.context }
+          : { message },
+      })
+    } else {
+      logger.error(message)
+    }
+    process.exitCode = 1
+  }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  logger.error("Unexpected error:", error)
+  process.exit(1)
+})
@@ -1,5 +1,6 @@
 import { ChainId } from "@summitx/chains"
-import { Token } from "@summitx/swap-sdk-core"
+import { Token, type Currency } from "@summitx/swap-sdk-core"
+import { Native } from "@summitx/sdk"
 import type { PublicClient } from "viem"
 import { createPublicClient, http } from "viem"
 
@@ -43,9 +44,14 @@ export const basecampTestnet = {
 
 // RPC endpoints for Base testnet
 export const RPC_ENDPOINTS = [
-  "https://rpc-campnetwork.xyz"
+  "https://rpc-campnetwork.xyz",
+  "https://rpc-campnetwork.xyz/8708df38d9cc4bb39ac813ae005be495",
 ]
 
+// Subgraphs used for candidate pool discovery
+export const V2_SUBGRAPH_URL = "https://api.goldsky.com/api/public/project_cllrma24857iy38x0a3oq836e/subgraphs/summitx-exchange-v2/1.0.0/gn"
+export const V3_SUBGRAPH_URL = "https://api.goldsky.com/api/public/project_cllrma24857iy38x0a3oq836e/subgraphs/summitx-exchange-v3-users/1.0.1/gn"
+
 // Smart router addresses
 export const SMART_ROUTER_ADDRESS = "0x197b7c9fC5c8AeA84Ab2909Bf94f24370539722D"
 export const V2_ROUTER_ADDRESS = "0x03B38A5C3cf55cB3B8D61Dc7eaB7BBC0ec276708"
@@ -111,6 +117,13 @@ export const baseCampTestnetTokens = {
   ),
 }
 
+// Native CAMP. It has no pools of its own, so the router quotes it through
+// its wrapped token (WCAMP) and the swap router wraps/unwraps on execution.
+export const baseCampTestnetNative = Native.onChain(BASECAMP_TESTNET)
+
+// Every currency that can be referred to by symbol or address
+export const baseCampTestnetCurrencies: Currency[] = [baseCampTestnetNative, ...Object.values(baseCampTestnetTokens)]
+
 // Export alias for backward compatibility
 export const baseTestnetTokens = baseCampTestnetTokens
 
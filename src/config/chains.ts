@@ -0,0 +1,135 @@
+import type { ChainId } from "@summitx/chains"
+import { Native } from "@summitx/sdk"
+import type { Currency, Token } from "@summitx/swap-sdk-core"
+import { createPublicClient, type Address, type Chain, type PublicClient } from "viem"
+
+import {
+  BASECAMP_TESTNET,
+  basecampTestnet,
+  baseCampTestnetTokens,
+  BASE_TOKENS,
+  MIXED_ROUTE_QUOTER_ADDRESS,
+  RPC_ENDPOINTS,
+  SMART_ROUTER_ADDRESS,
+  V2_ROUTER_ADDRESS,
+  V2_SUBGRAPH_URL,
+  V3_QUOTER_ADDRESS,
+  V3_SUBGRAPH_URL,
+} from "./base-testnet"
+import { RpcEndpointPool, createFailoverTransport } from "../utils/failover-transport"
+
+export interface ChainContracts {
+  smartRouter: Address
+  v2Router: Address
+  v3Quoter: Address
+  mixedRouteQuoter: Address
+  multicall3: Address
+  v2Factory?: Address // for on-chain pool discovery (default: read from v2Router)
+  v3Factory?: Address // for on-chain pool discovery (default: read from v3Quoter)
+}
+
+// Default subgraph URLs of a chain; TokenQuoterOptions.subgraphs overrides them per quoter
+export interface ChainSubgraphs {
+  v2?: string // omit both to discover pools on-chain only
+  v3?: string
+}
+
+export interface ChainConfig {
+  chainId: ChainId
+  chain: Chain // viem chain definition
+  rpcUrls: string[] // tried in order by the failover transport
+  contracts: ChainContracts
+  subgraphs: ChainSubgraphs
+  tokens: Record<string, Token>
+  baseTokens: Token[] // intermediate tokens for routing
+}
+
+export const baseCampTestnetConfig: ChainConfig = {
+  chainId: BASECAMP_TESTNET,
+  chain: basecampTestnet as Chain,
+  rpcUrls: RPC_ENDPOINTS,
+  contracts: {
+    smartRouter: SMART_ROUTER_ADDRESS,
+    v2Router: V2_ROUTER_ADDRESS,
+    v3Quoter: V3_QUOTER_ADDRESS,
+    mixedRouteQuoter: MIXED_ROUTE_QUOTER_ADDRESS,
+    multicall3: basecampTestnet.contracts.multicall3.address,
+  },
+  subgraphs: {
+    v2: V2_SUBGRAPH_URL,
+    v3: V3_SUBGRAPH_URL,
+  },
+  tokens: baseCampTestnetTokens,
+  baseTokens: BASE_TOKENS,
+}
+
+const chainConfigs = new Map<number, ChainConfig>([[BASECAMP_TESTNET, baseCampTestnetConfig]])
+
+/**
+ * Add or replace the configuration for a chain, e.g. Basecamp mainnet once
+ * its contracts are deployed
+ */
+export function registerChainConfig(config: ChainConfig): void {
+  chainConfigs.set(config.chainId, config)
+}
+
+export function hasChainConfig(chainId: number): boolean {
+  return chainConfigs.has(chainId)
+}
+
+export function getChainConfig(chainId: number): ChainConfig {
+  const config = chainConfigs.get(chainId)
+  if (!config) {
+    throw new Error(
+      `No configuration registered for chain ${chainId} (known: ${[...chainConfigs.keys()].join(", ")})`
+    )
+  }
+  return config
+}
+
+export function getRegisteredChainConfigs(): ChainConfig[] {
+  return [...chainConfigs.values()]
+}
+
+/**
+ * Configuration for a local fork (e.g. `anvil --fork-url ...`) of a
+ * registered chain. Forks keep the chain id, contracts and tokens of the
+ * chain they fork, so only the RPC endpoint changes.
+ */
+export function createForkChainConfig(chainId: number, rpcUrl = "http://127.0.0.1:8545"): ChainConfig {
+  const config = getChainConfig(chainId)
+  return {
+    ...config,
+    chain: {
+      ...config.chain,
+      rpcUrls: {
+        default: { http: [rpcUrl] },
+        public: { http: [rpcUrl] },
+      },
+    },
+    rpcUrls: [rpcUrl],
+  }
+}
+
+/**
+ * Native currency plus every configured token of a chain
+ */
+export function getChainCurrencies(config: ChainConfig): Currency[] {
+  return [Native.onChain(config.chainId), ...Object.values(config.tokens)]
+}
+
+/**
+ * Public client for a chain that fails over between its RPC endpoints
+ */
+export function createChainPublicClient(
+  config: ChainConfig,
+  pool: RpcEndpointPool = new RpcEndpointPool(config.rpcUrls)
+): PublicClient {
+  return createPublicClient({
+    chain: config.chain,
+    transport: createFailoverTransport(pool),
+    batch: {
+      multicall: true,
+    },
+  }) as PublicClient
+}
@@ -0,0 +1,143 @@
+import { readFileSync } from "fs"
+import type { ChainId } from "@summitx/chains"
+import { Token } from "@summitx/swap-sdk-core"
+import { getAddress, isAddress } from "viem"
+
+/**
+ * Uniswap-style token lists (https://tokenlists.org)
+ *
+ * Only the fields needed to build tokens are validated; extensions, tags and
+ * other optional fields are passed through untouched.
+ */
+
+export interface TokenListToken {
+  chainId: number
+  address: string
+  decimals: number
+  symbol: string
+  name: string
+  logoURI?: string
+  tags?: string[]
+}
+
+export interface TokenListVersion {
+  major: number
+  minor: number
+  patch: number
+}
+
+export interface TokenList {
+  name: string
+  timestamp?: string
+  version?: TokenListVersion
+  logoURI?: string
+  keywords?: string[]
+  tokens: TokenListToken[]
+}
+
+/**
+ * A token list is malformed; `issues` lists every problem found
+ */
+export class TokenListValidationError extends Error {
+  constructor(
+    message: string,
+    readonly issues: string[]
+  ) {
+    super(message)
+    this.name = "TokenListValidationError"
+  }
+}
+
+// Reported in the error message; the rest are only in `issues`
+const MAX_REPORTED_ISSUES = 5
+
+/**
+ * Check that `value` is a token list, collecting every problem before
+ * throwing a TokenListValidationError
+ */
+export function validateTokenList(value: unknown, source = "token list"): TokenList {
+  const issues: string[] = []
+  const list = value as Partial<TokenList> | null
+
+  if (typeof list !== "object" || list === null || Array.isArray(list)) {
+    throw new TokenListValidationError(`Invalid ${source}: expected an object`, ["expected an object"])
+  }
+  if (typeof list.name !== "string" || list.name.length === 0) {
+    issues.push(`"name" must be a non-empty string`)
+  }
+  if (!Array.isArray(list.tokens)) {
+    issues.push(`"tokens" must be an array`)
+  } else {
+    const seen = new Set<string>()
+    list.tokens.forEach((token: unknown, i) => {
+      issues.push(...validateTokenListToken(token).map(issue => `tokens[${i}]: ${issue}`))
+
+      const { chainId, address } = (token ?? {}) as Partial<TokenListToken>
+      if (typeof address === "string" && isAddress(address)) {
+        const key = `${chainId}:${address.toLowerCase()}`
+        if (seen.has(key)) {
+          issues.push(`tokens[${i}]: duplicate token ${address} on chain ${chainId}`)
+        }
+        seen.add(key)
+      }
+    })
+  }
+
+  if (issues.length > 0) {
+    const reported = issues.slice(0, MAX_REPORTED_ISSUES).join("; ")
+    const more = issues.length > MAX_REPORTED_ISSUES ? ` (and ${issues.length - MAX_REPORTED_ISSUES} more)` : ""
+    throw new TokenListValidationError(`Invalid ${source}: ${reported}${more}`, issues)
+  }
+  return list as TokenList
+}
+
+function validateTokenListToken(value: unknown): string[] {
+  if (typeof value !== "object" || value === null) {
+    return ["expected an object"]
+  }
+
+  const token = value as Partial<TokenListToken>
+  const issues: string[] = []
+  if (!Number.isInteger(token.chainId) || (token.chainId as number) <= 0) {
+    issues.push(`"chainId" must be a positive integer`)
+  }
+  if (typeof token.address !== "string" || !isAddress(token.address)) {
+    issues.push(`"address" must be an address, got ${String(token.address)}`)
+  }
+  if (!Number.isInteger(token.decimals) || (token.decimals as number) < 0 || (token.decimals as number) > 255) {
+    issues.push(`"decimals" must be an integer between 0 and 255`)
+  }
+  if (typeof token.symbol !== "string" || token.symbol.length === 0) {
+    issues.push(`"symbol" must be a non-empty string`)
+  }
+  if (typeof token.name !== "string") {
+    issues.push(`"name" must be a string`)
+  }
+  return issues
+}
+
+/**
+ * Load and validate a token list from an http(s) URL or a JSON file
+ */
+export async function loadTokenList(source: string): Promise<TokenList> {
+  let json: unknown
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch token list ${source}: HTTP ${response.status}`)
+    }
+    json = await response.json()
+  } else {
+    json = JSON.parse(readFileSync(source, "utf8"))
+  }
+  return validateTokenList(json, `token list ${source}`)
+}
+
+/**
+ * Tokens of a list on one chain
+ */
+export function tokenListToTokens(list: TokenList, chainId: ChainId): Token[] {
+  return list.tokens
+    .filter(token => token.chainId === chainId)
+    .map(token => new Token(chainId, getAddress(token.address), token.decimals, token.symbol, token.name, ""))
+}
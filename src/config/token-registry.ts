@@ -0,0 +1,162 @@
+import { Native } from "@summitx/sdk"
+import { Token, type Currency } from "@summitx/swap-sdk-core"
+import { getAddress, hexToString, isAddress, type Address, type Hex, type PublicClient } from "viem"
+
+import { ERC20_ABI } from "../swap/erc20-abi"
+import type { ChainConfig } from "./chains"
+import { loadTokenList, tokenListToTokens, type TokenList } from "./token-list"
+
+// Pre-ERC20-standard tokens (e.g. MKR) return symbol and name as bytes32
+const ERC20_BYTES32_METADATA_ABI = [
+  {
+    name: "symbol",
+    type: "function",
+    inputs: [],
+    outputs: [{ name: "", type: "bytes32" }],
+    stateMutability: "view",
+  },
+  {
+    name: "name",
+    type: "function",
+    inputs: [],
+    outputs: [{ name: "", type: "bytes32" }],
+    stateMutability: "view",
+  },
+] as const
+
+/**
+ * Tokens of one chain: the chain's built-in tokens, merged with any token
+ * lists added to it, plus unknown addresses looked up on-chain.
+ *
+ * Built-in tokens take precedence. A list token whose address is already
+ * known is skipped, and when several tokens share a symbol the one added
+ * first is returned for it; addresses always resolve exactly.
+ */
+export class TokenRegistry {
+  private tokens: Token[] = []
+  private addresses = new Set<string>()
+
+  constructor(
+    readonly chainConfig: ChainConfig,
+    private readonly publicClient?: PublicClient // enables on-chain lookups in resolve()
+  ) {
+    // Built-in maps may list one address under several symbols (WCAMP and WETH), keep them all
+    for (const token of Object.values(chainConfig.tokens)) {
+      this.tokens.push(token)
+      this.addresses.add(token.address.toLowerCase())
+    }
+  }
+
+  /**
+   * Add tokens of this chain, skipping known addresses. Returns how many were added.
+   */
+  addTokens(tokens: Token[]): number {
+    let added = 0
+    for (const token of tokens) {
+      const key = token.address.toLowerCase()
+      if (token.chainId !== this.chainConfig.chainId || this.addresses.has(key)) continue
+
+      this.tokens.push(token)
+      this.addresses.add(key)
+      added++
+    }
+    return added
+  }
+
+  /**
+   * Merge the tokens a list has on this chain. Returns how many were added.
+   */
+  addTokenList(list: TokenList): number {
+    return this.addTokens(tokenListToTokens(list, this.chainConfig.chainId))
+  }
+
+  /**
+   * Load a token list from a URL or file (see loadTokenList) and merge it
+   */
+  async loadTokenList(source: string): Promise<number> {
+    return this.addTokenList(await loadTokenList(source))
+  }
+
+  getTokens(): Token[] {
+    return [...this.tokens]
+  }
+
+  /**
+   * Native currency plus every known token
+   */
+  getCurrencies(): Currency[] {
+    return [Native.onChain(this.chainConfig.chainId), ...this.tokens]
+  }
+
+  /**
+   * Find a known currency by symbol (case-insensitive) or address
+   */
+  find(symbolOrAddress: string): Currency | undefined {
+    const needle = symbolOrAddress.toLowerCase()
+    return isAddress(symbolOrAddress)
+      ? this.tokens.find(token => token.address.toLowerCase() === needle)
+      : this.getCurrencies().find(currency => currency.symbol?.toLowerCase() === needle)
+  }
+
+  /**
+   * Like find, but an unknown address is looked up on-chain (when the
+   * registry has a public client) and remembered. Symbols are never looked
+   * up on-chain since they are not unique.
+   */
+  async resolve(symbolOrAddress: string): Promise<Currency | undefined> {
+    const known = this.find(symbolOrAddress)
+    if (known || !isAddress(symbolOrAddress) || !this.publicClient) {
+      return known
+    }
+
+    const token = await this.fetchToken(symbolOrAddress)
+    this.addTokens([token])
+    return token
+  }
+
+  /**
+   * Read decimals, symbol and name of an ERC20 in one multicall
+   */
+  async fetchToken(address: Address): Promise<Token> {
+    if (!this.publicClient) {
+      throw new Error("TokenRegistry needs a public client to look up tokens on-chain")
+    }
+
+    const contract = { address, abi: ERC20_ABI } as const
+    const [decimals, symbol, name] = await this.publicClient.multicall({
+      contracts: [
+        { ...contract, functionName: "decimals" },
+        { ...contract, functionName: "symbol" },
+        { ...contract, functionName: "name" },
+      ],
+      multicallAddress: this.chainConfig.contracts.multicall3,
+    })
+
+    if (decimals.status !== "success") {
+      throw new Error(`${address} is not an ERC20 token on chain ${this.chainConfig.chainId} (decimals() failed)`)
+    }
+
+    return new Token(
+      this.chainConfig.chainId,
+      getAddress(address),
+      decimals.result,
+      symbol.status === "success" ? symbol.result : await this.readBytes32(address, "symbol"),
+      name.status === "success" ? name.result : await this.readBytes32(address, "name"),
+      ""
+    )
+  }
+
+  // Falls back to an empty string for tokens without the metadata at all
+  private async readBytes32(address: Address, functionName: "symbol" | "name"): Promise<string> {
+    try {
+      const value: Hex = await this.publicClient!.readContract({
+        address,
+        abi: ERC20_BYTES32_METADATA_ABI,
+        functionName,
+      })
+      return hexToString(value, { size: 32 })
+    } catch {
+      return ""
+    }
+  }
+}
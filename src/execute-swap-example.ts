@@ -3,28 +3,35 @@
  * 
  * This example demonstrates how to:
  * 1. Get optimal swap routes using TokenQuoter
- * 2. Execute swaps on-chain using SwapRouter
+ * 2. Execute swaps on-chain using SwapExecutor
  * 
  * IMPORTANT: Set your private key in .env file before running
  */
 
 import { config } from "dotenv"
+import readlineSync from "readline-sync"
 import { 
   createWalletClient, 
   createPublicClient, 
-  http, 
-  parseUnits, 
   formatUnits, 
-  type Address, 
-  type Hash, 
-  type Hex 
 } from "viem"
 import { privateKeyToAccount } from "viem/accounts"
-import { TradeType, Percent } from "@summitx/swap-sdk-core"
-import { SwapRouter, type MethodParameters } from "@summitx/smart-router/evm"
-import { TokenQuoter } from "./quoter/token-quoter"
-import { baseCampTestnetTokens } from "./config/base-testnet"
+import { TradeType, type Currency } from "@summitx/swap-sdk-core"
+import { TokenQuoter, type QuoteResult } from "./quoter/token-quoter"
+import { SwapExecutor } from "./swap/swap-executor"
+import type { ApprovalStrategy } from "./swap/approvals"
+import { baseCampTestnetTokens, BASECAMP_TESTNET } from "./config/base-testnet"
+import { getChainConfig } from "./config/chains"
 import { logger } from "./utils/logger"
+import {
+  InsufficientBalanceError,
+  InsufficientLiquidityError,
+  NoRouteError,
+  SlippageExceededError,
+  TransactionRevertedError,
+  isRetryableError,
+} from "./utils/errors"
+import { RpcEndpointPool, createFailoverTransport } from "./utils/failover-transport"
 
 // Load environment variables
 config()
@@ -33,64 +40,27 @@ config()
 // CONFIGURATION
 // ============================================================================
 
-// Chain configuration for Base Camp Testnet
-const CHAIN_ID = 123420001114
-const CHAIN_CONFIG = {
-  id: CHAIN_ID,
-  name: 'Base Camp Testnet',
-  network: 'basecamp',
-  nativeCurrency: { name: 'CAMP', symbol: 'CAMP', decimals: 18 },
-  rpcUrls: {
-    default: { http: ['https://rpc-campnetwork.xyz'] },
-    public: { http: ['https://rpc-campnetwork.xyz'] }
-  }
-}
+// Chain to swap on: contracts, RPC endpoints and tokens come from the chain registry.
+// For a local fork use createForkChainConfig(BASECAMP_TESTNET, "http://127.0.0.1:8545")
+const CHAIN = getChainConfig(BASECAMP_TESTNET)
 
-// Smart Router address on Base Camp Testnet
-const SMART_ROUTER_ADDRESS = "0x197b7c9fC5c8AeA84Ab2909Bf94f24370539722D" as Address
+// RPC endpoints, tried in order - requests move to the next one on errors or timeouts
+const RPC_URLS = [
+  ...(process.env.RPC_URL ? [process.env.RPC_URL] : []),
+  ...CHAIN.rpcUrls,
+]
 
 // Swap parameters - Modify these for your swap
+// Use baseCampTestnetNative on either side to swap native CAMP
 const SWAP_CONFIG = {
-  inputToken: baseCampTestnetTokens.usdc,      // Token to swap from
-  outputToken: baseCampTestnetTokens.t12eth,   // Token to swap to
-  inputAmount: "10",                           // Amount to swap (in token units)
+  inputToken: baseCampTestnetTokens.usdc as Currency,      // Token to swap from
+  outputToken: baseCampTestnetTokens.t12eth as Currency,   // Token to swap to
+  amount: "10",                                // Amount (in token units) of the input token, or of the output token for EXACT_OUTPUT
+  tradeType: TradeType.EXACT_INPUT as TradeType, // EXACT_INPUT: spend `amount`, EXACT_OUTPUT: receive exactly `amount`
   slippagePercent: 1.0,                        // Slippage tolerance (1% = 1.0)
+  approvalStrategy: "exact" as ApprovalStrategy, // "exact", "infinite" or "amount-with-buffer"
 }
 
-// ============================================================================
-// ERC20 ABI - Required for token approvals
-// ============================================================================
-
-const ERC20_ABI = [
-  {
-    name: "approve",
-    type: "function",
-    inputs: [
-      { name: "spender", type: "address" },
-      { name: "amount", type: "uint256" },
-    ],
-    outputs: [{ name: "", type: "bool" }],
-    stateMutability: "nonpayable",
-  },
-  {
-    name: "allowance",
-    type: "function",
-    inputs: [
-      { name: "owner", type: "address" },
-      { name: "spender", type: "address" },
-    ],
-    outputs: [{ name: "", type: "uint256" }],
-    stateMutability: "view",
-  },
-  {
-    name: "balanceOf",
-    type: "function",
-    inputs: [{ name: "account", type: "address" }],
-    outputs: [{ name: "", type: "uint256" }],
-    stateMutability: "view",
-  },
-] as const
-
 // ============================================================================
 // MAIN SWAP FUNCTION
 // ============================================================================
@@ -112,232 +82,167 @@ async function executeSwap() {
   // Create wallet from private key
   const account = privateKeyToAccount(privateKey as `0x${string}`)
   
-  // Create clients for interacting with the blockchain
+  // Create clients for interacting with the blockchain. Both clients and the
+  // quoter share one endpoint pool, so an unhealthy RPC is skipped everywhere
+  const rpcPool = new RpcEndpointPool(RPC_URLS)
+
   const walletClient = createWalletClient({
     account,
-    chain: CHAIN_CONFIG as any,
-    transport: http("https://rpc-campnetwork.xyz/8708df38d9cc4bb39ac813ae005be495"),
+    chain: CHAIN.chain,
+    transport: createFailoverTransport(rpcPool),
   })
 
   const publicClient = createPublicClient({
-    chain: CHAIN_CONFIG as any,
-    transport: http("https://rpc-campnetwork.xyz/8708df38d9cc4bb39ac813ae005be495"),
+    chain: CHAIN.chain,
+    transport: createFailoverTransport(rpcPool),
   })
 
   logger.success(`Wallet connected: ${account.address}`)
 
   // ========================================
-  // STEP 2: Check Token Balances
+  // STEP 2: Get Swap Quote
   // ========================================
   
-  logger.header("Step 2: Checking Token Balances")
-  
-  const inputTokenBalance = await publicClient.readContract({
-    address: SWAP_CONFIG.inputToken.address as Address,
-    abi: ERC20_ABI,
-    functionName: "balanceOf",
-    args: [account.address],
-  })
+  logger.header("Step 2: Getting Swap Quote")
 
-  const inputBalanceFormatted = formatUnits(inputTokenBalance, SWAP_CONFIG.inputToken.decimals)
-  logger.info(`${SWAP_CONFIG.inputToken.symbol} Balance: ${inputBalanceFormatted}`)
-
-  // Check if user has enough tokens
-  const requiredAmount = parseUnits(SWAP_CONFIG.inputAmount, SWAP_CONFIG.inputToken.decimals)
-  if (inputTokenBalance < requiredAmount) {
-    logger.error(`Insufficient ${SWAP_CONFIG.inputToken.symbol} balance`)
-    logger.info(`Required: ${SWAP_CONFIG.inputAmount} ${SWAP_CONFIG.inputToken.symbol}`)
-    logger.info(`Available: ${inputBalanceFormatted} ${SWAP_CONFIG.inputToken.symbol}`)
-    return
+  if (SWAP_CONFIG.inputToken.isNative) {
+    logger.warn("Swapping native CAMP - keep some CAMP aside for gas fees")
   }
 
-  // ========================================
-  // STEP 3: Get Swap Quote
-  // ========================================
-  
-  logger.header("Step 3: Getting Swap Quote")
-
   // Initialize the token quoter
   const quoter = new TokenQuoter({
-    rpcUrl: "https://rpc-campnetwork.xyz/8708df38d9cc4bb39ac813ae005be495",
+    chainConfig: CHAIN,
+    rpcEndpointPool: rpcPool,
     slippageTolerance: SWAP_CONFIG.slippagePercent,
     maxHops: 3,        // Maximum number of hops in a route
     maxSplits: 3,      // Maximum number of split routes
   })
 
+  // Get the optimal swap route
+  let quote: QuoteResult
   try {
-    // Get the optimal swap route
-    const quote = await quoter.getQuote(
+    quote = await quoter.getQuote(
       SWAP_CONFIG.inputToken,
       SWAP_CONFIG.outputToken,
-      SWAP_CONFIG.inputAmount,
-      TradeType.EXACT_INPUT,
+      SWAP_CONFIG.amount,
+      SWAP_CONFIG.tradeType,
       false // Don't adjust for gas
     )
-
-    if (!quote) {
-      logger.error("No swap route found")
+  } catch (error) {
+    if (error instanceof NoRouteError || error instanceof InsufficientLiquidityError) {
+      logger.error(error.message)
       logger.info("This might happen if there's no liquidity in the pools")
       return
     }
+    throw error
+  }
 
-    // Display quote details
-    logger.success("Quote received:", {
-      input: `${quote.inputAmount} ${quote.inputToken.symbol}`,
-      expectedOutput: `${quote.outputAmount} ${quote.outputToken.symbol}`,
-      minimumOutput: `${quote.minimumReceived} ${quote.outputToken.symbol}`,
-      priceImpact: quote.priceImpact,
-      route: Array.isArray(quote.route) ? quote.route : [quote.route],
-    })
-
-    // ========================================
-    // STEP 4: Prepare Swap Transaction
-    // ========================================
-    
-    logger.header("Step 4: Preparing Swap Transaction")
+  // Display quote details
+  logger.success("Quote received:", {
+    input: `${quote.inputAmount} ${quote.inputToken.symbol}`,
+    expectedOutput: `${quote.outputAmount} ${quote.outputToken.symbol}`,
+    minimumOutput: `${quote.minimumReceived} ${quote.outputToken.symbol}`,
+    maximumInput: `${quote.maximumAmountIn} ${quote.inputToken.symbol}`,
+    priceImpact: quote.priceImpact,
+    gasCost: `${quote.gasCostNative} CAMP`,
+    route: Array.isArray(quote.route) ? quote.route : [quote.route],
+  })
 
-    // Check if we have the raw trade data
-    if (!quote.rawTrade) {
-      logger.error("Raw trade data not available")
-      return
-    }
+  // ========================================
+  // STEP 3: Execute the Swap
+  // ========================================
 
-    // Prepare swap options
-    const slippageTolerancePercent = new Percent(
-      Math.floor(SWAP_CONFIG.slippagePercent * 100), 
-      10000
-    )
-    
-    const swapOptions = {
-      slippageTolerance: slippageTolerancePercent,
-      recipient: account.address,
-      deadlineOrPreviousBlockhash: Math.floor(Date.now() / 1000) + 300, // 5 minutes
-    }
+  logger.header("Step 3: Executing Swap")
 
-    // Build swap transaction using SwapRouter
-    const methodParameters: MethodParameters = SwapRouter.swapCallParameters(
-      quote.rawTrade,
-      swapOptions
-    )
+  // The executor checks the balance, approves the router if needed, re-quotes
+  // a stale quote, sends the swap and verifies the balance changes. Its
+  // events drive the logging here
+  const executor = new SwapExecutor(walletClient, publicClient, {
+    chainConfig: CHAIN,
+    slippageTolerance: SWAP_CONFIG.slippagePercent,
+    deadlineSeconds: 300, // 5 minutes
+    approvalStrategy: SWAP_CONFIG.approvalStrategy,
+    quoter,
+    maxQuoteAgeSeconds: 30, // re-quote before sending if the quote is older
+    maxRequoteDeviationPercent: 0.5, // ask before sending a re-quote that is worse than this
+    confirmRequote: ({ quote: current, deviationPercent }) => readlineSync.keyInYN(
+      `The re-quote gives ${current.outputAmount} ${current.outputToken.symbol} (${deviationPercent}% worse). Continue?`
+    ) === true,
+  })
 
-    logger.info("Swap transaction prepared")
-    logger.info(`Router address: ${SMART_ROUTER_ADDRESS}`)
-    logger.info(`Transaction value: ${methodParameters.value} wei`)
+  // Tokens with an EIP-2612 permit are approved by signature inside the swap
+  // call; others need a separate approve transaction first
+  executor.on("approving", ({ token, amount, method }) => {
+    const action = method === "permit" ? "Signing permit for" : "Approving"
+    logger.info(`${action} ${formatUnits(amount, token.decimals)} ${token.symbol} for the router...`)
+  })
 
-    // ========================================
-    // STEP 5: Handle Token Approval
-    // ========================================
-    
-    logger.header("Step 5: Checking Token Approval")
+  executor.on("approved", async (approval) => {
+    if (approval.method === "permit") {
+      logger.success("Permit signed - it will be submitted with the swap")
+    } else if (approval.hash) {
+      if (approval.resetHash) {
+        logger.info(`Allowance reset to zero first (required by this token): ${approval.resetHash}`)
+      }
+      logger.success(`Approval confirmed in block ${approval.blockNumber}`)
+    } else {
+      logger.success(SWAP_CONFIG.inputToken.isNative ? "Native CAMP input - no approval needed" : "Token already approved")
+    }
+  })
 
-    const inputTokenAddress = SWAP_CONFIG.inputToken.address as Address
+  executor.on("requoted", ({ ageSeconds, quote: current }) => {
+    logger.info(`Quote was ${Math.round(ageSeconds)}s old - re-quoted: ${current.outputAmount} ${current.outputToken.symbol}`)
+  })
 
-    // Check current allowance
-    const currentAllowance = await publicClient.readContract({
-      address: inputTokenAddress,
-      abi: ERC20_ABI,
-      functionName: "allowance",
-      args: [account.address, SMART_ROUTER_ADDRESS],
-    })
+  // The swap is dry-run with eth_call first, so reverts are caught before paying gas
+  executor.on("simulated", (simulation) => {
+    const token = simulation.amountOut !== undefined ? quote.outputToken : quote.inputToken
+    logger.success(`Simulation passed: ${simulation.amountOut !== undefined ? "output" : "input"} ${simulation.formatted} ${token.symbol}, gas ${simulation.gasEstimate}`)
 
-    logger.info(`Current allowance: ${formatUnits(currentAllowance, SWAP_CONFIG.inputToken.decimals)} ${SWAP_CONFIG.inputToken.symbol}`)
-
-    // Approve if needed
-    if (currentAllowance < requiredAmount) {
-      logger.info("Approval needed. Sending approval transaction...")
-      
-      const approvalTx = await walletClient.writeContract({
-        address: inputTokenAddress,
-        abi: ERC20_ABI,
-        functionName: "approve",
-        args: [SMART_ROUTER_ADDRESS, requiredAmount],
-      })
-
-      logger.info(`Approval transaction sent: ${approvalTx}`)
-      logger.info("Waiting for confirmation...")
-      
-      const approvalReceipt = await publicClient.waitForTransactionReceipt({
-        hash: approvalTx,
-      })
-      
-      logger.success(`Approval confirmed in block ${approvalReceipt.blockNumber}`)
-    } else {
-      logger.success("Token already approved")
+    // Safety check - ask before sending
+    if (!readlineSync.keyInYN("Send the swap transaction?")) {
+      throw new Error("Swap cancelled")
     }
+  })
 
-    // ========================================
-    // STEP 6: Execute the Swap
-    // ========================================
-    
-    logger.header("Step 6: Executing Swap")
-    
-    // Safety check - give user time to cancel
-    logger.warn("Sending swap transaction in 3 seconds... (Press Ctrl+C to cancel)")
-    await new Promise(resolve => setTimeout(resolve, 3000))
-
-    // Send the swap transaction
-    const swapTx = await walletClient.sendTransaction({
-      to: SMART_ROUTER_ADDRESS,
-      data: methodParameters.calldata as Hex,
-      value: BigInt(methodParameters.value),
-    })
-
-    logger.info(`Swap transaction sent: ${swapTx}`)
+  executor.on("sent", ({ hash }) => {
+    logger.info(`Swap transaction sent: ${hash}`)
     logger.info("Waiting for confirmation...")
+  })
 
-    // Wait for transaction confirmation
-    const swapReceipt = await publicClient.waitForTransactionReceipt({
-      hash: swapTx,
-    })
+  try {
+    const { receipt, verification } = await executor.execute(quote)
 
     // ========================================
-    // STEP 7: Verify Results
+    // STEP 4: Verify Results
     // ========================================
-    
-    logger.header("Step 7: Swap Results")
-
-    if (swapReceipt.status === 'success') {
-      logger.success("Swap completed successfully! 🎉")
-      
-      // Check final balances
-      const [finalInputBalance, finalOutputBalance] = await Promise.all([
-        publicClient.readContract({
-          address: SWAP_CONFIG.inputToken.address as Address,
-          abi: ERC20_ABI,
-          functionName: "balanceOf",
-          args: [account.address],
-        }),
-        publicClient.readContract({
-          address: SWAP_CONFIG.outputToken.address as Address,
-          abi: ERC20_ABI,
-          functionName: "balanceOf",
-          args: [account.address],
-        }),
-      ])
-
-      const inputSpent = formatUnits(
-        inputTokenBalance - finalInputBalance, 
-        SWAP_CONFIG.inputToken.decimals
-      )
-      const outputReceived = formatUnits(
-        finalOutputBalance, 
-        SWAP_CONFIG.outputToken.decimals
-      )
-
-      logger.success("Transaction details:", {
-        transactionHash: swapReceipt.transactionHash,
-        blockNumber: swapReceipt.blockNumber.toString(),
-        gasUsed: swapReceipt.gasUsed.toString(),
-        spent: `${inputSpent} ${SWAP_CONFIG.inputToken.symbol}`,
-        received: `${outputReceived} ${SWAP_CONFIG.outputToken.symbol}`,
-      })
-    } else {
+
+    logger.header("Step 4: Swap Results")
+    logger.success("Swap completed successfully! 🎉")
+    logger.success("Transaction details:", {
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber.toString(),
+      gasUsed: receipt.gasUsed.toString(),
+      spent: `${verification.inputSpentFormatted} ${quote.inputToken.symbol}`,
+      received: `${verification.outputReceivedFormatted} ${quote.outputToken.symbol}`,
+    })
+  } catch (error) {
+    if (error instanceof TransactionRevertedError && error.step === "confirm") {
       logger.error("Swap transaction failed")
       logger.info("Check the transaction on the block explorer for more details")
+    } else if (error instanceof TransactionRevertedError || error instanceof SlippageExceededError) {
+      logger.error(`Swap not sent: ${error.message}`)
+      if (error.retryable) {
+        logger.info("The price moved - run the example again to swap at the new price")
+      }
+    } else if (error instanceof InsufficientBalanceError) {
+      logger.error(error.message)
+    } else {
+      logger.error("Swap failed:", error)
+      if (isRetryableError(error)) {
+        logger.info("This looks temporary (RPC or subgraph outage) - try again in a moment")
+      }
     }
-
-  } catch (error) {
-    logger.error("Swap failed:", error)
   }
 }
 
@@ -361,18 +266,28 @@ To customize this example for your needs:
 1. Change tokens:
    - Modify SWAP_CONFIG.inputToken and SWAP_CONFIG.outputToken
    - Available tokens: baseCampTestnetTokens.usdc, .t12eth, .wcamp, .summit, .usdt
+   - Use baseCampTestnetNative for native CAMP (input or output)
 
 2. Change swap amount:
-   - Modify SWAP_CONFIG.inputAmount
+   - Modify SWAP_CONFIG.amount
+   - Set SWAP_CONFIG.tradeType to TradeType.EXACT_OUTPUT to receive exactly
+     `amount` of the output token (spending at most quote.maximumAmountIn)
 
 3. Adjust slippage tolerance:
    - Modify SWAP_CONFIG.slippagePercent (1.0 = 1%, 0.5 = 0.5%)
+   - Set SWAP_CONFIG.approvalStrategy to "infinite" to approve the router once
+     (revoke later with `npm run cli -- revoke`)
 
 4. Use different network:
-   - Update CHAIN_CONFIG and SMART_ROUTER_ADDRESS
-   - Update RPC URLs in client configuration
+   - Point CHAIN at another registered chain (see registerChainConfig), or at
+     createForkChainConfig(...) for a local fork
+   - Set RPC_URL in .env to try your own endpoint first
 
 5. Advanced options:
    - Modify quoter maxHops and maxSplits for route discovery
-   - Adjust deadline in swapOptions (default: 5 minutes)
+   - Adjust deadlineSeconds in the SwapExecutor options (default: 5 minutes)
+   - Adjust maxQuoteAgeSeconds and maxRequoteDeviationPercent, or set
+     requote: "always" to re-quote every swap right before sending
+   - Use SwapExecutor directly in your own code: new SwapExecutor(walletClient,
+     publicClient).execute(quote), with executor.on(...) for progress events
 */
\ No newline at end of file
@@ -1,7 +1,199 @@
 // Export main functionality
-export { TokenQuoter, type QuoteResult, type TokenQuoterOptions } from "./quoter/token-quoter"
-export { baseCampTestnetTokens, BASECAMP_TESTNET, createBaseTestnetClient } from "./config/base-testnet"
-export { logger } from "./utils/logger"
+export {
+  TokenQuoter,
+  type QuoteResult,
+  type MultipleQuoteResult,
+  type TokenQuoterOptions,
+  type PoolDiscoveryMode,
+} from "./quoter/token-quoter"
+export {
+  InMemoryPoolCache,
+  FilePoolCache,
+  poolCacheKey,
+  type PoolCache,
+  type PoolCacheEntry,
+  type PoolCacheOptions,
+  type FilePoolCacheOptions,
+  type PoolCacheStats,
+} from "./quoter/pool-cache"
+export { createMockPools } from "./quoter/mock-pools"
+export { OnChainPoolDiscovery, getTokenPairs, type PoolFactories } from "./quoter/onchain-pools"
+export {
+  SubgraphClient,
+  type SubgraphName,
+  type SubgraphEndpoint,
+  type SubgraphEndpointConfig,
+  type SubgraphClientOptions,
+  type SubgraphHealth,
+} from "./quoter/subgraph-client"
+export { getQuoteAgeSeconds, isQuoteStale, getQuoteDeviationPercent } from "./quoter/quote-freshness"
+export {
+  buildQuoteRoutes,
+  formatQuoteRoute,
+  type QuoteRoute,
+  type QuoteRouteHop,
+  type QuoteRouteToken,
+  type QuoteRoutePoolType,
+  type QuoteRouteType,
+} from "./quoter/quote-route"
+export {
+  createPoolSnapshot,
+  decodePoolSnapshot,
+  readPoolSnapshot,
+  writePoolSnapshot,
+  encodePool,
+  decodePool,
+  POOL_SNAPSHOT_VERSION,
+  type PoolSnapshot,
+  type DecodedPoolSnapshot,
+  type EncodedPool,
+} from "./quoter/pool-snapshot"
+export {
+  baseCampTestnetTokens,
+  baseCampTestnetNative,
+  baseCampTestnetCurrencies,
+  BASECAMP_TESTNET,
+  createBaseTestnetClient,
+} from "./config/base-testnet"
+export {
+  baseCampTestnetConfig,
+  registerChainConfig,
+  hasChainConfig,
+  getChainConfig,
+  getRegisteredChainConfigs,
+  createForkChainConfig,
+  getChainCurrencies,
+  createChainPublicClient,
+  type ChainConfig,
+  type ChainContracts,
+  type ChainSubgraphs,
+} from "./config/chains"
+export {
+  loadTokenList,
+  validateTokenList,
+  tokenListToTokens,
+  TokenListValidationError,
+  type TokenList,
+  type TokenListToken,
+  type TokenListVersion,
+} from "./config/token-list"
+export { TokenRegistry } from "./config/token-registry"
+export {
+  RpcEndpointPool,
+  createFailoverTransport,
+  isTransientRpcError,
+  type RpcEndpointConfig,
+  type RpcEndpointHealth,
+  type RpcEndpointStrategy,
+  type FailoverTransportOptions,
+} from "./utils/failover-transport"
+export {
+  SwapExecutor,
+  getRealizedSlippagePercent,
+  type SwapExecutorOptions,
+  type SwapExecutorEvents,
+  type SwapExecutorEventHandler,
+  type SwapExecutionResult,
+  type SwapStep,
+  type BalanceCheckResult,
+  type SwapAmountBounds,
+  type ApprovalResult,
+  type ApprovalMethod,
+  type SwapTransactionRequest,
+  type SwapVerificationResult,
+  type RequotePolicy,
+  type RequoteResult,
+} from "./swap/swap-executor"
+export {
+  simulateSwap,
+  decodeRevertReason,
+  SwapSimulationError,
+  type SwapSimulationResult,
+} from "./swap/simulation"
+export {
+  getPermitDomain,
+  signPermit,
+  ERC20_PERMIT_ABI,
+  type PermitSignature,
+  type PermitDomain,
+} from "./swap/permit"
+export {
+  getApprovalAmount,
+  approveToken,
+  listAllowances,
+  revokeApprovals,
+  type ApprovalStrategy,
+  type TokenApproval,
+  type TokenAllowance,
+  type RevokedApproval,
+  type RevokeApprovalsOptions,
+} from "./swap/approvals"
+export { ERC20_ABI } from "./swap/erc20-abi"
+export {
+  SummitXError,
+  NoRouteError,
+  InsufficientLiquidityError,
+  SubgraphUnavailableError,
+  RpcError,
+  SwapExecutionError,
+  InsufficientBalanceError,
+  AllowanceError,
+  SlippageExceededError,
+  TransactionRevertedError,
+  isRetryableError,
+  type SummitXErrorCode,
+  type ErrorContext,
+} from "./utils/errors"
+export {
+  logger,
+  Logger,
+  ConsoleTransport,
+  FileTransport,
+  MemoryTransport,
+  formatJson,
+  formatPretty,
+  type LoggerOptions,
+  type LogLevel,
+  type MinLogLevel,
+  type LogFormat,
+  type LogContext,
+  type LogRecord,
+  type LogTransport,
+  type ConsoleTransportOptions,
+  type FileTransportOptions,
+} from "./utils/logger"
+export {
+  metrics,
+  MetricsRegistry,
+  Counter,
+  Histogram,
+  LATENCY_BUCKETS_SECONDS,
+  type MetricLabels,
+  type MetricType,
+  type MetricOptions,
+  type HistogramOptions,
+  type HistogramValue,
+  type MetricSnapshot,
+} from "./utils/metrics"
+export { computePriceImpact, formatPriceImpact } from "./utils/price-impact"
+export {
+  serializeQuoteResult,
+  deserializeQuoteResult,
+  serializeCurrency,
+  deserializeCurrency,
+  type SerializedQuoteResult,
+  type SerializedCurrency,
+} from "./utils/serialize"
+export {
+  encodeTrade,
+  decodeTrade,
+  ENCODED_TRADE_VERSION,
+  type EncodedTrade,
+  type EncodedRoute,
+  type EncodedRouteType,
+} from "./quoter/trade-codec"
+export { QuoteToTradeConverterV2 } from "./utils/quote-to-trade-converter-v2"
+export { createQuoteServer, startQuoteServer, type QuoteServerOptions } from "./server/quote-api"
 
 // Re-export types from dependencies for convenience
 export { TradeType, Currency, CurrencyAmount, Token, Percent } from "@summitx/swap-sdk-core"
@@ -0,0 +1,135 @@
+import { PoolType, type Pool, type StablePool, type V2Pool, type V3Pool } from "@summitx/smart-router/evm"
+import { CurrencyAmount, Percent, type Token } from "@summitx/swap-sdk-core"
+import {
+  FeeAmount,
+  Tick,
+  TickMath,
+  TICK_SPACINGS,
+  encodeSqrtRatioX96,
+  nearestUsableTick,
+} from "@summitx/v3-sdk"
+import { parseUnits, type Address } from "viem"
+
+import { baseCampTestnetTokens } from "../config/base-testnet"
+
+/**
+ * Deterministic fixture pools for the tokens in `baseCampTestnetTokens`
+ *
+ * Reserves are sized around fixed reference prices (USDC = USDT = $1,
+ * WCAMP = $2, SUMMIT = $0.50, T12ETH = $2000) so quotes are stable across
+ * runs and need no RPC or subgraph access. Pool addresses are placeholders.
+ */
+
+const { wcamp, usdc, usdt, summit, t12eth } = baseCampTestnetTokens
+
+const ZERO_PERCENT = new Percent(0, 100)
+
+function sortTokens(tokenA: Token, tokenB: Token): [Token, Token] {
+  return tokenA.sortsBefore(tokenB) ? [tokenA, tokenB] : [tokenB, tokenA]
+}
+
+function mockV2Pool(
+  tokenA: Token,
+  amountA: string,
+  tokenB: Token,
+  amountB: string
+): V2Pool {
+  const reserveA = CurrencyAmount.fromRawAmount(tokenA, parseUnits(amountA, tokenA.decimals))
+  const reserveB = CurrencyAmount.fromRawAmount(tokenB, parseUnits(amountB, tokenB.decimals))
+  const [reserve0, reserve1] = tokenA.sortsBefore(tokenB) ? [reserveA, reserveB] : [reserveB, reserveA]
+
+  return { type: PoolType.V2, reserve0, reserve1 }
+}
+
+// Integer square root (Newton's method) for full-range liquidity
+function sqrtBigInt(value: bigint): bigint {
+  if (value < 2n) return value
+  let x = value
+  let y = (x + 1n) / 2n
+  while (y < x) {
+    x = y
+    y = (x + value / x) / 2n
+  }
+  return x
+}
+
+/**
+ * Full-range V3 pool holding `amountA` of tokenA against `amountB` of tokenB
+ */
+function mockV3Pool(
+  tokenA: Token,
+  amountA: string,
+  tokenB: Token,
+  amountB: string,
+  fee: FeeAmount,
+  address: Address
+): V3Pool {
+  const [token0, token1] = sortTokens(tokenA, tokenB)
+  const rawA = parseUnits(amountA, tokenA.decimals)
+  const rawB = parseUnits(amountB, tokenB.decimals)
+  const [amount0, amount1] = token0.equals(tokenA) ? [rawA, rawB] : [rawB, rawA]
+
+  const sqrtRatioX96 = encodeSqrtRatioX96(amount1, amount0)
+  const liquidity = sqrtBigInt(amount0 * amount1)
+  const tickSpacing = TICK_SPACINGS[fee]
+  const lowerTick = nearestUsableTick(TickMath.MIN_TICK, tickSpacing)
+  const upperTick = nearestUsableTick(TickMath.MAX_TICK, tickSpacing)
+
+  return {
+    type: PoolType.V3,
+    token0,
+    token1,
+    fee,
+    liquidity,
+    sqrtRatioX96,
+    tick: TickMath.getTickAtSqrtRatio(sqrtRatioX96),
+    address,
+    token0ProtocolFee: ZERO_PERCENT,
+    token1ProtocolFee: ZERO_PERCENT,
+    ticks: [
+      new Tick({ index: lowerTick, liquidityGross: liquidity, liquidityNet: liquidity }),
+      new Tick({ index: upperTick, liquidityGross: liquidity, liquidityNet: -liquidity }),
+    ],
+  }
+}
+
+function mockStablePool(
+  tokenA: Token,
+  amountA: string,
+  tokenB: Token,
+  amountB: string,
+  address: Address
+): StablePool {
+  return {
+    type: PoolType.STABLE,
+    address,
+    balances: [
+      CurrencyAmount.fromRawAmount(tokenA, parseUnits(amountA, tokenA.decimals)),
+      CurrencyAmount.fromRawAmount(tokenB, parseUnits(amountB, tokenB.decimals)),
+    ],
+    amplifier: 1000n,
+    fee: new Percent(4, 10000), // 0.04%
+  }
+}
+
+/**
+ * Build the fixture pool set. A fresh set is returned on every call so
+ * callers cannot mutate each other's pools.
+ */
+export function createMockPools(): Pool[] {
+  return [
+    // V2
+    mockV2Pool(wcamp, "500000", usdc, "1000000"),
+    mockV2Pool(summit, "2000000", usdc, "1000000"),
+    mockV2Pool(wcamp, "250000", summit, "1000000"),
+    mockV2Pool(usdt, "500000", wcamp, "250000"),
+
+    // V3
+    mockV3Pool(usdc, "2000000", t12eth, "1000", FeeAmount.MEDIUM, "0x00000000000000000000000000000000000000a1"),
+    mockV3Pool(wcamp, "1000000", t12eth, "1000", FeeAmount.MEDIUM, "0x00000000000000000000000000000000000000a2"),
+    mockV3Pool(wcamp, "500000", usdc, "1000000", FeeAmount.LOW, "0x00000000000000000000000000000000000000a3"),
+
+    // Stable
+    mockStablePool(usdc, "5000000", usdt, "5000000", "0x00000000000000000000000000000000000000b1"),
+  ]
+}
@@ -0,0 +1,288 @@
+import {
+  PoolType,
+  SmartRouter,
+  type OnChainProvider,
+  type Pool,
+  type V2Pool,
+  type V3Pool,
+} from "@summitx/smart-router/evm"
+import { CurrencyAmount, Percent, type Token } from "@summitx/swap-sdk-core"
+import { FeeAmount } from "@summitx/v3-sdk"
+import { zeroAddress, type Address, type ContractFunctionConfig, type PublicClient } from "viem"
+
+import type { ChainConfig } from "../config/chains"
+
+/**
+ * Candidate pool discovery from the factory contracts alone, for when the
+ * subgraphs are down or lagging, or do not exist (e.g. on a local fork).
+ * Pools are looked up for the pair itself and every combination with the
+ * chain's base tokens, in two rounds of multicalls: getPair / getPool on the
+ * V2 and V3 factories (every V3 fee tier), then the reserves of the V2 pairs
+ * and the price and liquidity of the V3 pools. Stable pools come from the
+ * smart router's on-chain stable pool lookup.
+ */
+
+const V3_FEE_TIERS = [FeeAmount.LOWEST, FeeAmount.LOW, FeeAmount.MEDIUM, FeeAmount.HIGH]
+
+// factory() of the V2 router and the V3 quoter, used when the chain config has no factory addresses
+const FACTORY_GETTER_ABI = [
+  {
+    name: "factory",
+    type: "function",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view",
+  },
+] as const
+
+const V2_FACTORY_ABI = [
+  {
+    name: "getPair",
+    type: "function",
+    inputs: [
+      { name: "tokenA", type: "address" },
+      { name: "tokenB", type: "address" },
+    ],
+    outputs: [{ name: "pair", type: "address" }],
+    stateMutability: "view",
+  },
+] as const
+
+const V2_PAIR_ABI = [
+  {
+    name: "getReserves",
+    type: "function",
+    inputs: [],
+    outputs: [
+      { name: "reserve0", type: "uint112" },
+      { name: "reserve1", type: "uint112" },
+      { name: "blockTimestampLast", type: "uint32" },
+    ],
+    stateMutability: "view",
+  },
+] as const
+
+const V3_FACTORY_ABI = [
+  {
+    name: "getPool",
+    type: "function",
+    inputs: [
+      { name: "tokenA", type: "address" },
+      { name: "tokenB", type: "address" },
+      { name: "fee", type: "uint24" },
+    ],
+    outputs: [{ name: "pool", type: "address" }],
+    stateMutability: "view",
+  },
+] as const
+
+const V3_POOL_ABI = [
+  {
+    name: "slot0",
+    type: "function",
+    inputs: [],
+    outputs: [
+      { name: "sqrtPriceX96", type: "uint160" },
+      { name: "tick", type: "int24" },
+      { name: "observationIndex", type: "uint16" },
+      { name: "observationCardinality", type: "uint16" },
+      { name: "observationCardinalityNext", type: "uint16" },
+      { name: "feeProtocol", type: "uint32" },
+      { name: "unlocked", type: "bool" },
+    ],
+    stateMutability: "view",
+  },
+  {
+    name: "liquidity",
+    type: "function",
+    inputs: [],
+    outputs: [{ name: "", type: "uint128" }],
+    stateMutability: "view",
+  },
+] as const
+
+type Slot0 = readonly [bigint, number, number, number, number, number, boolean]
+
+export interface PoolFactories {
+  v2: Address
+  v3: Address
+}
+
+function isDeployed(value: unknown): value is Address {
+  return typeof value === "string" && value !== zeroAddress
+}
+
+/**
+ * Every pair of distinct tokens among the pair and the base tokens, each
+ * sorted token0/token1: the pair itself, each token against every base
+ * token, and the base tokens against each other
+ */
+export function getTokenPairs(tokenA: Token, tokenB: Token, baseTokens: Token[]): Array<[Token, Token]> {
+  const tokens = [tokenA, tokenB, ...baseTokens]
+  const pairs: Array<[Token, Token]> = []
+
+  for (let i = 0; i < tokens.length; i++) {
+    for (let j = i + 1; j < tokens.length; j++) {
+      const [a, b] = [tokens[i], tokens[j]]
+      const known = pairs.some(([token0, token1]) =>
+        (token0.equals(a) && token1.equals(b)) || (token0.equals(b) && token1.equals(a))
+      )
+      if (!a.equals(b) && !known) {
+        pairs.push(a.sortsBefore(b) ? [a, b] : [b, a])
+      }
+    }
+  }
+  return pairs
+}
+
+export class OnChainPoolDiscovery {
+  private factories?: Promise<PoolFactories>
+  private readonly onChainProvider: OnChainProvider = () => this.publicClient
+
+  constructor(
+    private readonly publicClient: PublicClient,
+    readonly chainConfig: ChainConfig
+  ) {}
+
+  /**
+   * V2, V3 and stable pools that can route between two tokens, directly or
+   * through the base tokens. Pools without liquidity are left out.
+   */
+  async getCandidatePools(tokenA: Token, tokenB: Token): Promise<Pool[]> {
+    const pairs = getTokenPairs(tokenA, tokenB, this.chainConfig.baseTokens)
+
+    const [v2Pools, v3Pools, stablePools] = await Promise.all([
+      this.getV2Pools(pairs),
+      this.getV3Pools(pairs),
+      SmartRouter.getStableCandidatePools({
+        onChainProvider: this.onChainProvider,
+        currencyA: tokenA,
+        currencyB: tokenB,
+      }),
+    ])
+
+    return [...v2Pools, ...v3Pools, ...stablePools]
+  }
+
+  /**
+   * The V2 and V3 factory addresses: from the chain config, or read once from
+   * the V2 router and V3 quoter, which both expose the factory they use
+   */
+  getFactories(): Promise<PoolFactories> {
+    this.factories ??= this.readFactories().catch(error => {
+      this.factories = undefined
+      throw error
+    })
+    return this.factories
+  }
+
+  async getV2Pools(pairs: Array<[Token, Token]>): Promise<V2Pool[]> {
+    const { v2 } = await this.getFactories()
+    const addresses = await this.multicall(pairs.map(([token0, token1]) => ({
+      address: v2,
+      abi: V2_FACTORY_ABI,
+      functionName: "getPair",
+      args: [token0.address, token1.address],
+    })))
+
+    const deployed = pairs.flatMap(([token0, token1], i) => {
+      const address = addresses[i]
+      return isDeployed(address) ? [{ token0, token1, address }] : []
+    })
+    const reserves = await this.multicall(deployed.map(({ address }) => ({
+      address,
+      abi: V2_PAIR_ABI,
+      functionName: "getReserves",
+    })))
+
+    return deployed.flatMap(({ token0, token1 }, i): V2Pool[] => {
+      const result = reserves[i] as readonly [bigint, bigint, number] | undefined
+      if (!result || result[0] === 0n || result[1] === 0n) {
+        return []
+      }
+      return [{
+        type: PoolType.V2,
+        reserve0: CurrencyAmount.fromRawAmount(token0, result[0]),
+        reserve1: CurrencyAmount.fromRawAmount(token1, result[1]),
+      }]
+    })
+  }
+
+  /**
+   * V3 pools of every fee tier, with their current price and in-range
+   * liquidity but no ticks: they are quoted through the on-chain quoter
+   */
+  async getV3Pools(pairs: Array<[Token, Token]>): Promise<V3Pool[]> {
+    const { v3 } = await this.getFactories()
+    const candidates = pairs.flatMap(([token0, token1]) => V3_FEE_TIERS.map(fee => ({ token0, token1, fee })))
+    const addresses = await this.multicall(candidates.map(({ token0, token1, fee }) => ({
+      address: v3,
+      abi: V3_FACTORY_ABI,
+      functionName: "getPool",
+      args: [token0.address, token1.address, fee],
+    })))
+
+    const deployed = candidates.flatMap((candidate, i) => {
+      const address = addresses[i]
+      return isDeployed(address) ? [{ ...candidate, address }] : []
+    })
+    const state = await this.multicall(deployed.flatMap(({ address }) => [
+      { address, abi: V3_POOL_ABI, functionName: "slot0" },
+      { address, abi: V3_POOL_ABI, functionName: "liquidity" },
+    ]))
+
+    return deployed.flatMap(({ token0, token1, fee, address }, i): V3Pool[] => {
+      const slot0 = state[2 * i] as Slot0 | undefined
+      const liquidity = state[2 * i + 1] as bigint | undefined
+      // Uninitialized pools have no price, and pools without in-range liquidity cannot fill a swap
+      if (!slot0 || slot0[0] === 0n || !liquidity) {
+        return []
+      }
+
+      // token0's protocol fee is in the low 16 bits of feeProtocol, token1's in the high 16 bits
+      const feeProtocol = BigInt(slot0[5])
+      return [{
+        type: PoolType.V3,
+        token0,
+        token1,
+        fee,
+        liquidity,
+        sqrtRatioX96: slot0[0],
+        tick: slot0[1],
+        address,
+        token0ProtocolFee: new Percent(feeProtocol % 65536n, 1_000_000n),
+        token1ProtocolFee: new Percent(feeProtocol >> 16n, 1_000_000n),
+      }]
+    })
+  }
+
+  private async readFactories(): Promise<PoolFactories> {
+    const { contracts } = this.chainConfig
+    const [v2, v3] = await Promise.all([
+      contracts.v2Factory ?? this.publicClient.readContract({
+        address: contracts.v2Router,
+        abi: FACTORY_GETTER_ABI,
+        functionName: "factory",
+      }),
+      contracts.v3Factory ?? this.publicClient.readContract({
+        address: contracts.v3Quoter,
+        abi: FACTORY_GETTER_ABI,
+        functionName: "factory",
+      }),
+    ])
+    return { v2, v3 }
+  }
+
+  // Results in call order, undefined where a call reverted
+  private async multicall(contracts: ContractFunctionConfig[]): Promise<unknown[]> {
+    if (contracts.length === 0) {
+      return []
+    }
+    const results = await this.publicClient.multicall({
+      contracts,
+      allowFailure: true,
+      multicallAddress: this.chainConfig.contracts.multicall3,
+    })
+    return results.map(result => (result.status === "success" ? result.result : undefined))
+  }
+}
@@ -0,0 +1,243 @@
+import { existsSync, readFileSync } from "fs"
+import { mkdir, rename, writeFile } from "fs/promises"
+import { dirname } from "path"
+import type { Pool } from "@summitx/smart-router/evm"
+import type { Currency } from "@summitx/swap-sdk-core"
+import type { ChainId } from "@summitx/chains"
+
+import { logger } from "../utils/logger"
+import { decodePool, encodePool, type EncodedPool } from "./pool-snapshot"
+
+export interface PoolCacheEntry {
+  pools: Pool[]
+  timestamp: number // ms since epoch when the pools were fetched
+  blockNumber?: bigint // block the pools were fetched at, if known
+}
+
+export interface PoolCacheLookup {
+  blockNumber?: bigint // treat entries from any other block as stale
+}
+
+export interface PoolCacheStats {
+  hits: number
+  misses: number
+  evictions: number // entries dropped for being expired or from an older block
+  size: number
+  hitRate: number // hits / (hits + misses), 0 when nothing was looked up
+}
+
+/**
+ * Cache for candidate pools, keyed by token pair (see `poolCacheKey`)
+ */
+export interface PoolCache {
+  get(key: string, lookup?: PoolCacheLookup): Promise<PoolCacheEntry | undefined>
+  set(key: string, entry: PoolCacheEntry): Promise<void>
+  delete(key: string): Promise<void>
+  clear(): Promise<void>
+  stats(): PoolCacheStats
+}
+
+export interface PoolCacheOptions {
+  ttlMs?: number // how long fetched pools stay valid (default 30s)
+  maxEntries?: number // oldest entries are evicted beyond this (default 500)
+}
+
+/**
+ * Cache key for a token pair. Order-independent and based on the wrapped
+ * tokens, so CAMP/USDC and USDC/WCAMP share an entry.
+ */
+export function poolCacheKey(currencyA: Currency, currencyB: Currency): string {
+  const [a, b] = [currencyA.wrapped.address, currencyB.wrapped.address]
+    .map(address => address.toLowerCase())
+    .sort()
+  return `${currencyA.chainId}:${a}:${b}`
+}
+
+/**
+ * In-memory pool cache with TTL and optional block-based invalidation
+ */
+export class InMemoryPoolCache implements PoolCache {
+  protected entries = new Map<string, PoolCacheEntry>()
+  protected readonly ttlMs: number
+  protected readonly maxEntries: number
+  private hits = 0
+  private misses = 0
+  private evictions = 0
+
+  constructor(options: PoolCacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 30_000
+    this.maxEntries = options.maxEntries ?? 500
+  }
+
+  async get(key: string, lookup: PoolCacheLookup = {}): Promise<PoolCacheEntry | undefined> {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      this.misses++
+      return undefined
+    }
+
+    const expired = Date.now() - entry.timestamp > this.ttlMs
+    const staleBlock = lookup.blockNumber !== undefined && entry.blockNumber !== lookup.blockNumber
+    if (expired || staleBlock) {
+      this.evictions++
+      this.misses++
+      await this.delete(key)
+      return undefined
+    }
+
+    this.hits++
+    return entry
+  }
+
+  async set(key: string, entry: PoolCacheEntry): Promise<void> {
+    // Re-insert so Map iteration order stays oldest-first
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string
+      this.entries.delete(oldestKey)
+      this.evictions++
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear()
+  }
+
+  stats(): PoolCacheStats {
+    const lookups = this.hits + this.misses
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      size: this.entries.size,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+    }
+  }
+}
+
+interface PersistedPoolCacheEntry {
+  chainId: ChainId
+  pools: EncodedPool[]
+  timestamp: number
+  blockNumber?: string
+}
+
+export interface FilePoolCacheOptions extends PoolCacheOptions {
+  writeDelayMs?: number // changes within this window are written together (default 1s)
+}
+
+/**
+ * Pool cache persisted to a JSON file, so cached pools survive restarts.
+ *
+ * Entries are kept in memory. Changes are written asynchronously: the first
+ * change schedules a rewrite of the whole file `writeDelayMs` later, and every
+ * change until then is included in it. Writes go to a temporary file that is
+ * renamed over the cache file, so a crash never leaves it half-written. The
+ * timer does not keep the process alive; call `flush()` before exiting to
+ * persist pending changes.
+ */
+export class FilePoolCache extends InMemoryPoolCache {
+  private readonly writeDelayMs: number
+  private writeTimer?: NodeJS.Timeout
+  private writing: Promise<void> = Promise.resolve()
+
+  constructor(
+    private readonly filePath: string,
+    options: FilePoolCacheOptions = {}
+  ) {
+    super(options)
+    this.writeDelayMs = options.writeDelayMs ?? 1_000
+    this.load()
+  }
+
+  async set(key: string, entry: PoolCacheEntry): Promise<void> {
+    await super.set(key, entry)
+    this.scheduleWrite()
+  }
+
+  async delete(key: string): Promise<void> {
+    await super.delete(key)
+    this.scheduleWrite()
+  }
+
+  async clear(): Promise<void> {
+    await super.clear()
+    this.scheduleWrite()
+  }
+
+  /**
+   * Write pending changes now and wait until the file is up to date
+   */
+  async flush(): Promise<void> {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer)
+      this.writeTimer = undefined
+      this.writing = this.writing.then(() => this.persist())
+    }
+    await this.writing
+  }
+
+  private scheduleWrite(): void {
+    if (this.writeTimer) {
+      return
+    }
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = undefined
+      // Chained so writes never overlap and finish in order
+      this.writing = this.writing.then(() => this.persist())
+    }, this.writeDelayMs)
+    this.writeTimer.unref()
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) {
+      return
+    }
+
+    try {
+      const persisted: Record<string, PersistedPoolCacheEntry> = JSON.parse(readFileSync(this.filePath, "utf8"))
+      for (const [key, entry] of Object.entries(persisted)) {
+        this.entries.set(key, {
+          pools: entry.pools.map(pool => decodePool(entry.chainId, pool)),
+          timestamp: entry.timestamp,
+          blockNumber: entry.blockNumber === undefined ? undefined : BigInt(entry.blockNumber),
+        })
+      }
+    } catch (error) {
+      // A corrupt cache file only costs a refetch
+      logger.warn(`Ignoring unreadable pool cache file ${this.filePath}`, {
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  private async persist(): Promise<void> {
+    const persisted: Record<string, PersistedPoolCacheEntry> = {}
+    for (const [key, entry] of this.entries) {
+      persisted[key] = {
+        chainId: Number(key.split(":")[0]) as ChainId,
+        pools: entry.pools.map(encodePool),
+        timestamp: entry.timestamp,
+        blockNumber: entry.blockNumber?.toString(),
+      }
+    }
+
+    try {
+      const tempPath = `${this.filePath}.${process.pid}.tmp`
+      await mkdir(dirname(this.filePath), { recursive: true })
+      await writeFile(tempPath, JSON.stringify(persisted))
+      await rename(tempPath, this.filePath)
+    } catch (error) {
+      // The in-memory entries stay valid, the next change retries the write
+      logger.warn(`Could not write pool cache file ${this.filePath}`, {
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+}
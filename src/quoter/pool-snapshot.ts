@@ -0,0 +1,261 @@
+import { mkdirSync, readFileSync, writeFileSync } from "fs"
+import { dirname } from "path"
+import { PoolType, type Pool } from "@summitx/smart-router/evm"
+import { CurrencyAmount, Percent, Token, type Currency } from "@summitx/swap-sdk-core"
+import { Native } from "@summitx/sdk"
+import { Tick, type FeeAmount } from "@summitx/v3-sdk"
+import type { ChainId } from "@summitx/chains"
+import type { Address } from "viem"
+
+/**
+ * Versioned, JSON-safe snapshot of a candidate pool set
+ *
+ * All bigints are encoded as decimal strings and percents as exact
+ * numerator/denominator pairs, so a snapshot decodes to pools that quote
+ * identically to the ones it was taken from.
+ */
+
+export const POOL_SNAPSHOT_VERSION = 1
+
+export interface EncodedCurrency {
+  address: Address | null // null for the native currency
+  decimals: number
+  symbol?: string
+  name?: string
+}
+
+export interface EncodedCurrencyAmount {
+  currency: EncodedCurrency
+  raw: string
+}
+
+export interface EncodedPercent {
+  numerator: string
+  denominator: string
+}
+
+export interface EncodedTick {
+  index: number
+  liquidityGross: string
+  liquidityNet: string
+}
+
+export interface EncodedV2Pool {
+  type: "V2"
+  reserve0: EncodedCurrencyAmount
+  reserve1: EncodedCurrencyAmount
+}
+
+export interface EncodedV3Pool {
+  type: "V3"
+  address: Address
+  token0: EncodedCurrency
+  token1: EncodedCurrency
+  fee: number
+  liquidity: string
+  sqrtRatioX96: string
+  tick: number
+  token0ProtocolFee: EncodedPercent
+  token1ProtocolFee: EncodedPercent
+  ticks?: EncodedTick[]
+}
+
+export interface EncodedStablePool {
+  type: "STABLE"
+  address: Address
+  balances: EncodedCurrencyAmount[]
+  amplifier: string
+  fee: EncodedPercent
+}
+
+export type EncodedPool = EncodedV2Pool | EncodedV3Pool | EncodedStablePool
+
+export interface PoolSnapshot {
+  version: typeof POOL_SNAPSHOT_VERSION
+  chainId: ChainId
+  createdAt: string // ISO timestamp
+  blockNumber?: string
+  pair?: [EncodedCurrency, EncodedCurrency] // the pair the pools were fetched for, if any
+  pools: EncodedPool[]
+}
+
+export interface PoolSnapshotMetadata {
+  blockNumber?: bigint
+  pair?: [Currency, Currency]
+}
+
+export interface DecodedPoolSnapshot {
+  chainId: ChainId
+  createdAt: Date
+  blockNumber?: bigint
+  pair?: [Currency, Currency]
+  pools: Pool[]
+}
+
+export function encodeCurrency(currency: Currency): EncodedCurrency {
+  return {
+    address: currency.isNative ? null : currency.address as Address,
+    decimals: currency.decimals,
+    symbol: currency.symbol,
+    name: currency.name,
+  }
+}
+
+export function decodeCurrency(chainId: ChainId, encoded: EncodedCurrency): Currency {
+  if (encoded.address === null) {
+    return Native.onChain(chainId)
+  }
+  return new Token(chainId, encoded.address, encoded.decimals, encoded.symbol ?? "", encoded.name)
+}
+
+export function encodeCurrencyAmount(amount: CurrencyAmount<Currency>): EncodedCurrencyAmount {
+  return {
+    currency: encodeCurrency(amount.currency),
+    raw: amount.quotient.toString(),
+  }
+}
+
+export function decodeCurrencyAmount(chainId: ChainId, encoded: EncodedCurrencyAmount): CurrencyAmount<Currency> {
+  return CurrencyAmount.fromRawAmount(decodeCurrency(chainId, encoded.currency), encoded.raw)
+}
+
+function encodePercent(percent: Percent): EncodedPercent {
+  return {
+    numerator: percent.numerator.toString(),
+    denominator: percent.denominator.toString(),
+  }
+}
+
+function decodePercent(encoded: EncodedPercent): Percent {
+  return new Percent(BigInt(encoded.numerator), BigInt(encoded.denominator))
+}
+
+export function encodePool(pool: Pool): EncodedPool {
+  switch (pool.type) {
+    case PoolType.V2:
+      return {
+        type: "V2",
+        reserve0: encodeCurrencyAmount(pool.reserve0),
+        reserve1: encodeCurrencyAmount(pool.reserve1),
+      }
+    case PoolType.V3:
+      return {
+        type: "V3",
+        address: pool.address,
+        token0: encodeCurrency(pool.token0),
+        token1: encodeCurrency(pool.token1),
+        fee: pool.fee,
+        liquidity: pool.liquidity.toString(),
+        sqrtRatioX96: pool.sqrtRatioX96.toString(),
+        tick: pool.tick,
+        token0ProtocolFee: encodePercent(pool.token0ProtocolFee),
+        token1ProtocolFee: encodePercent(pool.token1ProtocolFee),
+        ticks: pool.ticks?.map(tick => ({
+          index: tick.index,
+          liquidityGross: tick.liquidityGross.toString(),
+          liquidityNet: tick.liquidityNet.toString(),
+        })),
+      }
+    case PoolType.STABLE:
+      return {
+        type: "STABLE",
+        address: pool.address,
+        balances: pool.balances.map(encodeCurrencyAmount),
+        amplifier: pool.amplifier.toString(),
+        fee: encodePercent(pool.fee),
+      }
+    default:
+      throw new Error(`Cannot encode unsupported pool type ${(pool as Pool).type}`)
+  }
+}
+
+export function decodePool(chainId: ChainId, encoded: EncodedPool): Pool {
+  switch (encoded.type) {
+    case "V2":
+      return {
+        type: PoolType.V2,
+        reserve0: decodeCurrencyAmount(chainId, encoded.reserve0),
+        reserve1: decodeCurrencyAmount(chainId, encoded.reserve1),
+      }
+    case "V3":
+      return {
+        type: PoolType.V3,
+        address: encoded.address,
+        token0: decodeCurrency(chainId, encoded.token0),
+        token1: decodeCurrency(chainId, encoded.token1),
+        fee: encoded.fee as FeeAmount,
+        liquidity: BigInt(encoded.liquidity),
+        sqrtRatioX96: BigInt(encoded.sqrtRatioX96),
+        tick: encoded.tick,
+        token0ProtocolFee: decodePercent(encoded.token0ProtocolFee),
+        token1ProtocolFee: decodePercent(encoded.token1ProtocolFee),
+        ticks: encoded.ticks?.map(tick => new Tick({
+          index: tick.index,
+          liquidityGross: BigInt(tick.liquidityGross),
+          liquidityNet: BigInt(tick.liquidityNet),
+        })),
+      }
+    case "STABLE":
+      return {
+        type: PoolType.STABLE,
+        address: encoded.address,
+        balances: encoded.balances.map(balance => decodeCurrencyAmount(chainId, balance)),
+        amplifier: BigInt(encoded.amplifier),
+        fee: decodePercent(encoded.fee),
+      }
+    default:
+      throw new Error(`Cannot decode unsupported pool type ${(encoded as { type: unknown }).type}`)
+  }
+}
+
+/**
+ * Snapshot a pool set
+ */
+export function createPoolSnapshot(
+  chainId: ChainId,
+  pools: Pool[],
+  metadata: PoolSnapshotMetadata = {}
+): PoolSnapshot {
+  return {
+    version: POOL_SNAPSHOT_VERSION,
+    chainId,
+    createdAt: new Date().toISOString(),
+    blockNumber: metadata.blockNumber?.toString(),
+    pair: metadata.pair && [encodeCurrency(metadata.pair[0]), encodeCurrency(metadata.pair[1])],
+    pools: pools.map(encodePool),
+  }
+}
+
+/**
+ * Decode a snapshot, accepting either the parsed object or its JSON text
+ */
+export function decodePoolSnapshot(input: PoolSnapshot | string): DecodedPoolSnapshot {
+  const snapshot: PoolSnapshot = typeof input === "string" ? JSON.parse(input) : input
+
+  if (!snapshot || typeof snapshot !== "object" || !Array.isArray(snapshot.pools)) {
+    throw new Error("Invalid pool snapshot: expected an object with a pools array")
+  }
+  if (snapshot.version !== POOL_SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported pool snapshot version ${snapshot.version} (expected ${POOL_SNAPSHOT_VERSION})`
+    )
+  }
+
+  const { chainId } = snapshot
+  return {
+    chainId,
+    createdAt: new Date(snapshot.createdAt),
+    blockNumber: snapshot.blockNumber === undefined ? undefined : BigInt(snapshot.blockNumber),
+    pair: snapshot.pair && [decodeCurrency(chainId, snapshot.pair[0]), decodeCurrency(chainId, snapshot.pair[1])],
+    pools: snapshot.pools.map(pool => decodePool(chainId, pool)),
+  }
+}
+
+export function readPoolSnapshot(filePath: string): DecodedPoolSnapshot {
+  return decodePoolSnapshot(readFileSync(filePath, "utf8"))
+}
+
+export function writePoolSnapshot(filePath: string, snapshot: PoolSnapshot): void {
+  mkdirSync(dirname(filePath), { recursive: true })
+  writeFileSync(filePath, JSON.stringify(snapshot, null, 2))
+}
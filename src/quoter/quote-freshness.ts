@@ -0,0 +1,34 @@
+import { TradeType } from "@summitx/swap-sdk-core"
+import { parseUnits } from "viem"
+
+import type { QuoteResult } from "./token-quoter"
+
+/**
+ * Seconds since the quote was computed
+ */
+export function getQuoteAgeSeconds(quote: QuoteResult, now = Date.now()): number {
+  return (now - Date.parse(quote.createdAt)) / 1000
+}
+
+export function isQuoteStale(quote: QuoteResult, maxAgeSeconds: number, now = Date.now()): boolean {
+  return getQuoteAgeSeconds(quote, now) > maxAgeSeconds
+}
+
+/**
+ * How much worse `current` is than `previous` for the same swap, in percent:
+ * less output for EXACT_INPUT, more input for EXACT_OUTPUT. Negative when
+ * the current quote is better.
+ */
+export function getQuoteDeviationPercent(previous: QuoteResult, current: QuoteResult): number {
+  const isExactInput = previous.tradeType === TradeType.EXACT_INPUT
+  const decimals = isExactInput ? previous.outputToken.decimals : previous.inputToken.decimals
+  const before = parseUnits(isExactInput ? previous.outputAmount : previous.inputAmount, decimals)
+  const after = parseUnits(isExactInput ? current.outputAmount : current.inputAmount, decimals)
+  if (before === 0n) {
+    return 0
+  }
+
+  // In basis points first, so the bigint division keeps two decimals
+  const worse = isExactInput ? before - after : after - before
+  return Number((worse * 10000n) / before) / 100
+}
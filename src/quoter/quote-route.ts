@@ -0,0 +1,115 @@
+import { PoolType, RouteType, type Pool, type SmartRouterTrade } from "@summitx/smart-router/evm"
+import type { Currency, TradeType } from "@summitx/swap-sdk-core"
+import { formatUnits, type Address } from "viem"
+
+/**
+ * Machine-readable description of the routes a quote splits across. Every
+ * field is a plain string or number, so it serialises to the same JSON the
+ * display strings in `QuoteResult.route` are rendered from.
+ */
+
+export type QuoteRoutePoolType = "V2" | "V3" | "STABLE"
+
+export type QuoteRouteType = QuoteRoutePoolType | "MIXED"
+
+// Hop tokens are pool tokens, so native CAMP appears as WCAMP
+export interface QuoteRouteToken {
+  address: Address
+  symbol: string | undefined
+  decimals: number
+}
+
+export interface QuoteRouteHop {
+  tokenIn: QuoteRouteToken
+  tokenOut: QuoteRouteToken
+  poolType: QuoteRoutePoolType
+  poolAddress?: Address // V3 and stable pools; V2 pools are identified by their token pair
+  fee?: number // in hundredths of a bip like V3 fee tiers (2500 = 0.25%); V3 and stable pools
+  // The router only reports amounts per route: the first hop has the route's
+  // input, the last hop its output, and amounts between hops are not known
+  amountIn?: string
+  amountOut?: string
+}
+
+export interface QuoteRoute {
+  type: QuoteRouteType
+  percent: number // share of the trade amount sent through this route
+  inputAmount: string
+  outputAmount: string
+  hops: QuoteRouteHop[]
+}
+
+const FEE_DENOMINATOR = 1_000_000n // hundredths of a bip
+
+/**
+ * Describe every route of a trade, in the trade's route order
+ */
+export function buildQuoteRoutes(trade: SmartRouterTrade<TradeType>): QuoteRoute[] {
+  return trade.routes.map(route => {
+    const inputAmount = formatUnits(route.inputAmount.quotient, route.inputAmount.currency.decimals)
+    const outputAmount = formatUnits(route.outputAmount.quotient, route.outputAmount.currency.decimals)
+    const lastHop = route.pools.length - 1
+
+    return {
+      type: routeTypeName(route.type),
+      percent: route.percent,
+      inputAmount,
+      outputAmount,
+      hops: route.pools.map((pool, i) => ({
+        tokenIn: routeToken(route.path[i]),
+        tokenOut: routeToken(route.path[i + 1]),
+        ...describePool(pool),
+        ...(i === 0 && { amountIn: inputAmount }),
+        ...(i === lastHop && { amountOut: outputAmount }),
+      })),
+    }
+  })
+}
+
+/**
+ * Display string of a route, e.g. `(50% [USDC-WCAMP V3 0.25% 0x..., WCAMP-T12ETH V2])`
+ */
+export function formatQuoteRoute(route: QuoteRoute): string {
+  const hops = route.hops.map(hop => {
+    const pool = [hop.poolType === "STABLE" ? "Stable" : hop.poolType]
+    if (hop.fee !== undefined) pool.push(`${hop.fee / 10000}%`)
+    if (hop.poolAddress) pool.push(hop.poolAddress)
+    return `${hop.tokenIn.symbol ?? hop.tokenIn.address}-${hop.tokenOut.symbol ?? hop.tokenOut.address} ${pool.join(" ")}`
+  })
+  return `(${route.percent}% [${hops.join(", ")}])`
+}
+
+function routeToken(currency: Currency): QuoteRouteToken {
+  const token = currency.wrapped
+  return { address: token.address as Address, symbol: token.symbol, decimals: token.decimals }
+}
+
+function describePool(pool: Pool): Pick<QuoteRouteHop, "poolType" | "poolAddress" | "fee"> {
+  switch (pool.type) {
+    case PoolType.V2:
+      return { poolType: "V2" }
+    case PoolType.V3:
+      return { poolType: "V3", poolAddress: pool.address as Address, fee: Number(pool.fee) }
+    case PoolType.STABLE:
+      return {
+        poolType: "STABLE",
+        poolAddress: pool.address as Address,
+        fee: Number((pool.fee.numerator * FEE_DENOMINATOR) / pool.fee.denominator),
+      }
+    default:
+      throw new Error(`Cannot describe unsupported pool type ${(pool as Pool).type}`)
+  }
+}
+
+function routeTypeName(type: RouteType): QuoteRouteType {
+  switch (type) {
+    case RouteType.V2:
+      return "V2"
+    case RouteType.V3:
+      return "V3"
+    case RouteType.STABLE:
+      return "STABLE"
+    default:
+      return "MIXED"
+  }
+}
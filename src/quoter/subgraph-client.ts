@@ -0,0 +1,153 @@
+import { ClientError, GraphQLClient } from "graphql-request"
+
+import { SubgraphUnavailableError } from "../utils/errors"
+
+export type SubgraphName = "v2" | "v3"
+
+export interface SubgraphEndpointConfig {
+  url: string
+  headers?: Record<string, string> // merged over SubgraphClientOptions.headers
+}
+
+// A URL, a URL with its own headers, or a client used as is (only retries are added)
+export type SubgraphEndpoint = string | SubgraphEndpointConfig | GraphQLClient
+
+export interface SubgraphClientOptions {
+  apiKey?: string // sent as `Authorization: Bearer <apiKey>`
+  headers?: Record<string, string> // sent with every request, e.g. a gateway's API key header
+  timeoutMs?: number // per attempt (default 10s)
+  retries?: number // extra attempts after network errors, timeouts, 429 and 5xx responses (default 2)
+  retryDelayMs?: number // before the first retry, doubled for every further one (default 500)
+}
+
+export interface SubgraphHealth {
+  name: SubgraphName
+  url?: string // unset for client instances
+  healthy: boolean // answered without indexing errors, at most maxBlocksBehind behind the chain head
+  chainHeadBlock: number
+  indexedBlock?: number
+  blocksBehind?: number
+  hasIndexingErrors?: boolean
+  latencyMs?: number
+  error?: string
+}
+
+interface SubgraphMeta {
+  _meta: {
+    block: { number: number }
+    hasIndexingErrors: boolean
+  }
+}
+
+const META_QUERY = "{ _meta { block { number } hasIndexingErrors } }"
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+// GraphQL errors in a 200 response and other 4xx answers would come back the same
+function isRetryable(error: unknown): boolean {
+  if (error instanceof ClientError) {
+    const { status } = error.response
+    return status === 429 || status >= 500
+  }
+  return true
+}
+
+/**
+ * A V2 or V3 subgraph with headers, a per-request timeout and retries.
+ * `client` is what the smart router is given: its requests are retried and
+ * failures thrown as SubgraphUnavailableError.
+ */
+export class SubgraphClient {
+  readonly client: GraphQLClient
+  readonly url?: string
+  private readonly retries: number
+  private readonly retryDelayMs: number
+
+  constructor(
+    readonly name: SubgraphName,
+    endpoint: SubgraphEndpoint,
+    options: SubgraphClientOptions = {}
+  ) {
+    this.retries = options.retries ?? 2
+    this.retryDelayMs = options.retryDelayMs ?? 500
+
+    let inner: GraphQLClient
+    if (endpoint instanceof GraphQLClient) {
+      inner = endpoint
+    } else {
+      const { url, headers } = typeof endpoint === "string" ? { url: endpoint, headers: undefined } : endpoint
+      const timeoutMs = options.timeoutMs ?? 10_000
+      this.url = url
+      inner = new GraphQLClient(url, {
+        headers: {
+          ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+          ...options.headers,
+          ...headers,
+        },
+        fetch: (input: string | URL, init?: RequestInit) =>
+          fetch(input, { ...init, signal: AbortSignal.timeout(timeoutMs) }),
+      })
+    }
+
+    // The router calls `request` with its own queries; everything else stays the inner client's
+    this.client = Object.create(inner) as GraphQLClient
+    this.client.request = ((...args: unknown[]) => this.requestWithRetries(inner, args)) as GraphQLClient["request"]
+  }
+
+  /**
+   * The block the subgraph has indexed up to, and whether indexing hit errors
+   */
+  async getIndexedBlock(): Promise<{ number: number; hasIndexingErrors: boolean }> {
+    const { _meta } = await this.client.request<SubgraphMeta>(META_QUERY)
+    return { number: _meta.block.number, hasIndexingErrors: _meta.hasIndexingErrors }
+  }
+
+  /**
+   * Compare the indexed block with the chain head. Never throws: a subgraph
+   * that does not answer is reported unhealthy with the error.
+   */
+  async health(chainHeadBlock: number, maxBlocksBehind: number): Promise<SubgraphHealth> {
+    const startedAt = Date.now()
+    try {
+      const indexed = await this.getIndexedBlock()
+      const blocksBehind = Math.max(0, chainHeadBlock - indexed.number)
+      return {
+        name: this.name,
+        url: this.url,
+        healthy: !indexed.hasIndexingErrors && blocksBehind <= maxBlocksBehind,
+        chainHeadBlock,
+        indexedBlock: indexed.number,
+        blocksBehind,
+        hasIndexingErrors: indexed.hasIndexingErrors,
+        latencyMs: Date.now() - startedAt,
+      }
+    } catch (error) {
+      return {
+        name: this.name,
+        url: this.url,
+        healthy: false,
+        chainHeadBlock,
+        error: error instanceof Error ? error.message : String(error),
+      }
+    }
+  }
+
+  private async requestWithRetries(inner: GraphQLClient, args: unknown[]): Promise<unknown> {
+    const request = inner.request.bind(inner) as (...args: unknown[]) => Promise<unknown>
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await request(...args)
+      } catch (error) {
+        if (attempt < this.retries && isRetryable(error)) {
+          await sleep(this.retryDelayMs * 2 ** attempt)
+          continue
+        }
+        throw new SubgraphUnavailableError(
+          `${this.name.toUpperCase()} subgraph request failed: ${error instanceof Error ? error.message : error}`,
+          { subgraph: this.name, url: this.url, attempts: attempt + 1 },
+          error
+        )
+      }
+    }
+  }
+}
@@ -4,54 +4,219 @@ import {
   type TradeConfig,
   PoolType,
   type OnChainProvider,
-  type PoolProvider,
+  type Pool,
+  type SubgraphProvider,
 } from "@summitx/smart-router/evm"
-import { TradeType, CurrencyAmount, Currency, Percent } from "@summitx/swap-sdk-core"
+import { TradeType, CurrencyAmount, Currency, Percent, type Token } from "@summitx/swap-sdk-core"
 import type { PublicClient } from "viem"
-import { parseUnits, formatUnits } from "viem"
+import { BaseError, parseUnits, formatUnits } from "viem"
 import { ChainId } from "@summitx/chains"
+import { Native } from "@summitx/sdk"
 
-import { GraphQLClient } from 'graphql-request'
+import { randomUUID } from "crypto"
 
-import { 
-  createBaseTestnetClient,
-  createAllRpcClients,
-} from "../config/base-testnet"
-import { logger } from "../utils/logger"
+import { BASECAMP_TESTNET } from "../config/base-testnet"
+import { createChainPublicClient, getChainConfig, type ChainConfig } from "../config/chains"
+import type { TokenList } from "../config/token-list"
+import { TokenRegistry } from "../config/token-registry"
+import { logger as defaultLogger, type Logger } from "../utils/logger"
+import { metrics as defaultMetrics, type MetricsRegistry } from "../utils/metrics"
+import {
+  InsufficientLiquidityError,
+  NoRouteError,
+  RpcError,
+  SubgraphUnavailableError,
+  SummitXError,
+  type ErrorContext,
+} from "../utils/errors"
+import {
+  RpcEndpointPool,
+  type FailoverTransportOptions,
+  type RpcEndpointConfig,
+  type RpcEndpointHealth,
+} from "../utils/failover-transport"
+import { computePriceImpact, formatPriceImpact } from "../utils/price-impact"
+import { getNativePriceInToken } from "../utils/gas-cost"
+import { poolCacheKey, type PoolCache, type PoolCacheStats } from "./pool-cache"
+import { createMockPools } from "./mock-pools"
+import { OnChainPoolDiscovery } from "./onchain-pools"
+import {
+  SubgraphClient,
+  type SubgraphClientOptions,
+  type SubgraphEndpoint,
+  type SubgraphHealth,
+  type SubgraphName,
+} from "./subgraph-client"
+import { buildQuoteRoutes, formatQuoteRoute, type QuoteRoute } from "./quote-route"
+import {
+  createPoolSnapshot,
+  decodePoolSnapshot,
+  readPoolSnapshot,
+  type PoolSnapshot,
+} from "./pool-snapshot"
 
 export interface TokenQuoterOptions {
+  chainId?: ChainId // Chain from the chain registry (default Base Camp testnet)
+  chainConfig?: ChainConfig // Explicit chain configuration, e.g. from createForkChainConfig
+  tokenLists?: TokenList[] // Token lists merged into the chain's tokens (see loadTokenList)
   rpcUrl?: string
+  rpcUrls?: Array<string | RpcEndpointConfig> // Extra endpoints to fail over to, tried after rpcUrl
+  rpcFailover?: FailoverTransportOptions // Endpoint selection, timeouts and health thresholds
+  rpcEndpointPool?: RpcEndpointPool // Share an existing endpoint pool (e.g. with the swap clients)
   maxHops?: number
   maxSplits?: number
   distributionPercent?: number
   slippageTolerance?: number // percentage (e.g., 0.5 for 0.5%)
-  useStaticPools?: boolean // Use static pool provider instead of dynamic fetching
-  useMockPools?: boolean // Use mock pools for testing
+  maxPriceImpact?: number // percentage (e.g., 5 for 5%); quotes above it are rejected
+  useStaticPools?: boolean // Use the pool snapshot at staticPoolsPath instead of fetching (offline)
+  staticPoolsPath?: string // JSON pool snapshot used with useStaticPools
+  useMockPools?: boolean // Use deterministic fixture pools for testing (offline)
+  poolDiscovery?: PoolDiscoveryMode // How candidate pools are found (default "subgraph", or "onchain" without subgraphs)
+  subgraphs?: Partial<Record<SubgraphName, SubgraphEndpoint>> // Override the chain config's subgraphs, e.g. with a self-hosted indexer
+  subgraphOptions?: SubgraphClientOptions // API key, headers, timeout and retries of subgraph requests
+  poolCache?: PoolCache // Cache candidate pools per token pair (see InMemoryPoolCache, FilePoolCache)
+  invalidatePoolsOnNewBlock?: boolean // Refetch cached pools once a new block is mined
+  gasPriceWei?: bigint // Override the gas price instead of fetching it from the chain
+  logger?: Logger // Logs quote progress through a child bound to each quote's id and pair (default: the shared logger)
+  metrics?: MetricsRegistry // Records quote latencies and outcomes (default: the shared registry)
+}
+
+// Used when quoting offline (mock, static or snapshot pools) without a gas price override
+const DEFAULT_GAS_PRICE_WEI = BigInt(1000000000) // 1 gwei
+
+export type PoolDiscoveryMode =
+  | "subgraph" // subgraphs plus RPC, like the UI; falls back to "onchain" when a subgraph request fails
+  | "onchain" // factory contracts only, for the pair and the chain's base tokens
+
+// Where candidate pools came from; cache hits and offline pools skew fetch latency
+type CandidatePoolSource = "network" | "onchain" | "cache" | "static" | "mock"
+
+function createQuoterMetrics(registry: MetricsRegistry) {
+  return {
+    quotes: registry.counter({
+      name: "summitx_quotes_total",
+      help: "Quotes by outcome: success, no_route or error",
+      labelNames: ["outcome"],
+    }),
+    quoteDuration: registry.histogram({
+      name: "summitx_quote_duration_seconds",
+      help: "Total time to compute a quote, by outcome",
+      labelNames: ["outcome"],
+    }),
+    poolFetchDuration: registry.histogram({
+      name: "summitx_quote_pool_fetch_seconds",
+      help: "Time to get the candidate pools of a quote, by source: network, onchain, cache, static or mock",
+      labelNames: ["source"],
+    }),
+    routerDuration: registry.histogram({
+      name: "summitx_quote_router_seconds",
+      help: "Time the smart router took to find the best trade",
+    }),
+    candidatePools: registry.histogram({
+      name: "summitx_quote_candidate_pools",
+      help: "Candidate pools found per quote, by pool type: v2, v3 or stable",
+      labelNames: ["type"],
+      buckets: [0, 1, 2, 5, 10, 20, 50, 100],
+    }),
+  }
+}
+
+// Errors the SDK throws when pools cannot fill an amount
+const LIQUIDITY_ERROR_NAMES = new Set(["InsufficientReservesError", "InsufficientInputAmountError"])
+
+/**
+ * Map a quoting failure onto the typed errors, so callers can tell retryable
+ * failures from permanent ones. Errors that match none (invalid tokens or
+ * amounts) are returned unchanged.
+ */
+function toQuoteError(error: unknown, context: ErrorContext): unknown {
+  if (error instanceof SummitXError) {
+    return error
+  }
+  if (error instanceof Error && LIQUIDITY_ERROR_NAMES.has(error.name)) {
+    return new InsufficientLiquidityError(`Not enough liquidity to quote ${context.pair}`, context, error)
+  }
+  if (error instanceof BaseError) {
+    return new RpcError(`RPC request failed while quoting ${context.pair}: ${error.shortMessage}`, context, error)
+  }
+  return error
+}
+
+/**
+ * The slippage-adjusted amounts of a quote for `trade` at `slippagePercent`.
+ * Slippage only applies to the side that is not fixed by the trade type.
+ */
+export function getSlippageAmounts(
+  trade: SmartRouterTrade<TradeType>,
+  slippagePercent: Percent
+): Pick<QuoteResult, "outputAmountWithSlippage" | "minimumReceived" | "maximumAmountIn"> {
+  const minimumReceived = formatUnits(
+    SmartRouter.minimumAmountOut(trade, slippagePercent).quotient,
+    trade.outputAmount.currency.decimals
+  )
+  return {
+    outputAmountWithSlippage: minimumReceived,
+    minimumReceived,
+    maximumAmountIn: formatUnits(
+      SmartRouter.maximumAmountIn(trade, slippagePercent).quotient,
+      trade.inputAmount.currency.decimals
+    ),
+  }
 }
 
+export type MultipleQuoteResult =
+  | { success: true; quote: QuoteResult }
+  | { success: false; error: Error } // see isRetryableError to decide whether to quote the pair again
+
 export interface QuoteResult {
+  tradeType: TradeType
   inputToken: Currency
   outputToken: Currency
   inputAmount: string
   outputAmount: string
   outputAmountWithSlippage: string
+  maximumAmountIn: string // inputAmount plus slippage for EXACT_OUTPUT, inputAmount for EXACT_INPUT
   priceImpact: string
-  route: string[]
+  priceImpactPercent: Percent
+  route: string[] // display strings, one per route (see routes for the structured form)
+  routes: QuoteRoute[]
   pools: string[]
   gasEstimate?: string
+  gasPriceWei: string
+  gasCostNative: string // gasEstimate * gasPriceWei, in CAMP
+  gasCostInOutputToken?: string // only when the candidate pools price CAMP in the output token
+  outputAmountNetOfGas?: string // outputAmount - gasCostInOutputToken, floored at 0
+  gasExceedsOutput?: boolean // the gas costs more than the output is worth: not worth sending as is
   executionPrice: string
   minimumReceived: string
   routerTime?: string
+  blockNumber?: string // block the quote was computed at; unset for offline quotes
+  adjustedForGas?: boolean // routes were ranked by output net of gas cost
+  createdAt: string // ISO timestamp, for checking the quote's age (see isQuoteStale)
   // Add the raw trade object for proper conversion
   rawTrade?: SmartRouterTrade<TradeType>
 }
 
 export class TokenQuoter {
   private client: PublicClient
-  private clients: PublicClient[]
-  private options: Required<TokenQuoterOptions>
-  private v3SubgraphClient: GraphQLClient
-  private v2SubgraphClient: GraphQLClient
+  private endpointPool: RpcEndpointPool
+  private options: Required<Omit<
+    TokenQuoterOptions,
+    "poolCache" | "gasPriceWei" | "rpcUrls" | "rpcFailover" | "rpcEndpointPool" | "chainId" | "chainConfig" | "tokenLists" | "logger" | "metrics" | "poolDiscovery" | "subgraphs" | "subgraphOptions"
+  >>
+  readonly chainConfig: ChainConfig
+  readonly tokens: TokenRegistry // resolves symbols and addresses, including unknown addresses on-chain
+  private poolCache?: PoolCache
+  private gasPriceOverride?: bigint
+  private readonly logger: Logger
+  readonly metrics: MetricsRegistry // where quotes are recorded, e.g. to serve at /metrics
+  private readonly instruments: ReturnType<typeof createQuoterMetrics>
+  private staticPools?: Pool[]
+  private fetchedPools = new Map<string, Pool[]>() // last candidate pools per pair, for exportPools
+  private v3Subgraph?: SubgraphClient
+  private v2Subgraph?: SubgraphClient
+  private readonly poolDiscovery: PoolDiscoveryMode
+  private readonly onChainPools: OnChainPoolDiscovery
 
   constructor(options: TokenQuoterOptions = {}) {
     this.options = {
@@ -60,98 +225,204 @@ export class TokenQuoter {
       maxSplits: options.maxSplits ?? 3,
       distributionPercent: options.distributionPercent ?? 5,
       slippageTolerance: options.slippageTolerance ?? 0.5,
+      maxPriceImpact: options.maxPriceImpact ?? 100,
       useStaticPools: options.useStaticPools ?? false,
+      staticPoolsPath: options.staticPoolsPath ?? "",
       useMockPools: options.useMockPools ?? false,
+      invalidatePoolsOnNewBlock: options.invalidatePoolsOnNewBlock ?? false,
     }
+    this.poolCache = options.poolCache
+    this.gasPriceOverride = options.gasPriceWei
+    this.logger = options.logger ?? defaultLogger
+    this.metrics = options.metrics ?? defaultMetrics
+    this.instruments = createQuoterMetrics(this.metrics)
+    this.chainConfig = options.chainConfig ?? getChainConfig(options.chainId ?? BASECAMP_TESTNET)
 
-    this.client = createBaseTestnetClient(this.options.rpcUrl || undefined)
-    this.clients = this.options.rpcUrl ? [this.client] : createAllRpcClients()
-    this.v3SubgraphClient = new GraphQLClient(
-      'https://api.goldsky.com/api/public/project_cllrma24857iy38x0a3oq836e/subgraphs/summitx-exchange-v3-users/1.0.1/gn', 
-    )
-    this.v2SubgraphClient = new GraphQLClient(
-      'https://api.goldsky.com/api/public/project_cllrma24857iy38x0a3oq836e/subgraphs/summitx-exchange-v2/1.0.0/gn',
-    )
+    const endpoints = [
+      ...(this.options.rpcUrl ? [this.options.rpcUrl] : []),
+      ...(options.rpcUrls ?? []),
+    ]
+    this.endpointPool = options.rpcEndpointPool
+      ?? new RpcEndpointPool(endpoints.length > 0 ? endpoints : this.chainConfig.rpcUrls, options.rpcFailover)
+    this.client = createChainPublicClient(this.chainConfig, this.endpointPool)
+
+    this.tokens = new TokenRegistry(this.chainConfig, this.client)
+    for (const list of options.tokenLists ?? []) {
+      this.tokens.addTokenList(list)
+    }
+
+    const subgraphs = { ...this.chainConfig.subgraphs, ...options.subgraphs }
+    this.v3Subgraph = subgraphs.v3 ? new SubgraphClient("v3", subgraphs.v3, options.subgraphOptions) : undefined
+    this.v2Subgraph = subgraphs.v2 ? new SubgraphClient("v2", subgraphs.v2, options.subgraphOptions) : undefined
+    this.poolDiscovery = options.poolDiscovery ?? (subgraphs.v2 || subgraphs.v3 ? "subgraph" : "onchain")
+    this.onChainPools = new OnChainPoolDiscovery(this.client, this.chainConfig)
   }
 
+  /**
+   * Quote a swap. `amountRaw` is denominated in the input token for
+   * EXACT_INPUT and in the output token for EXACT_OUTPUT. Throws
+   * NoRouteError when the pools do not connect the tokens,
+   * InsufficientLiquidityError when they cannot fill the amount, and
+   * RpcError when fetching pools or quotes fails. Subgraph failures fall
+   * back to on-chain pool discovery (see poolDiscovery).
+   */
   async getQuote(
     inputToken: Currency,
     outputToken: Currency,
-    inputAmountRaw: string,
+    amountRaw: string,
     tradeType: TradeType = TradeType.EXACT_INPUT,
     shouldAdjustQuoteForGas?: boolean | true
-  ): Promise<QuoteResult | null> {
+  ): Promise<QuoteResult> {
+    return this.quote(inputToken, outputToken, amountRaw, tradeType, shouldAdjustQuoteForGas)
+  }
+
+  /**
+   * Quote the same swap as an earlier quote again, e.g. right before sending
+   * it. The amount that was fixed by the trade type stays the same.
+   */
+  async requote(quote: QuoteResult): Promise<QuoteResult> {
+    const amount = quote.tradeType === TradeType.EXACT_INPUT ? quote.inputAmount : quote.outputAmount
+    return this.quote(quote.inputToken, quote.outputToken, amount, quote.tradeType, quote.adjustedForGas ?? true)
+  }
+
+  /**
+   * Quote a swap off-chain against the pools of an imported snapshot (see
+   * exportPools), e.g. to reproduce a quote from a bug report exactly
+   */
+  async getQuoteFromSnapshot(
+    snapshot: PoolSnapshot | string,
+    inputToken: Currency,
+    outputToken: Currency,
+    amountRaw: string,
+    tradeType: TradeType = TradeType.EXACT_INPUT,
+    shouldAdjustQuoteForGas?: boolean | true
+  ): Promise<QuoteResult> {
+    const { pools } = decodePoolSnapshot(snapshot)
+    return this.quote(inputToken, outputToken, amountRaw, tradeType, shouldAdjustQuoteForGas, pools)
+  }
+
+  /**
+   * Snapshot the candidate pools for a pair. Returns the pools the last quote
+   * for this pair was computed against, or fetches them if there was none.
+   */
+  async exportPools(currencyA: Currency, currencyB: Currency): Promise<PoolSnapshot> {
+    const key = poolCacheKey(currencyA, currencyB)
+    let pools = this.fetchedPools.get(key)
+    if (!pools) {
+      const onChainProvider: OnChainProvider = () => this.client as unknown as ReturnType<OnChainProvider>
+      const log = this.logger.child({ pair: `${currencyA.symbol}/${currencyB.symbol}` })
+      pools = (await this.getCandidatePools(currencyA.wrapped, currencyB.wrapped, onChainProvider, log)).pools
+      this.fetchedPools.set(key, pools)
+    }
+
+    const blockNumber = this.usesOfflinePools() ? undefined : await this.client.getBlockNumber()
+    return createPoolSnapshot(currencyA.chainId, pools, {
+      blockNumber,
+      pair: [currencyA, currencyB],
+    })
+  }
+
+  private async quote(
+    inputToken: Currency,
+    outputToken: Currency,
+    amountRaw: string,
+    tradeType: TradeType,
+    shouldAdjustQuoteForGas: boolean | undefined,
+    snapshotPools?: Pool[]
+  ): Promise<QuoteResult> {
     const startTime = Date.now()
     let routerStartTime: number
-    
+    const pair = `${inputToken.symbol}/${outputToken.symbol}`
+    const log = this.logger.child({ quoteId: randomUUID(), pair })
+    const errorContext: ErrorContext = {
+      pair,
+      amount: amountRaw,
+      tradeType: tradeType === TradeType.EXACT_INPUT ? "EXACT_INPUT" : "EXACT_OUTPUT",
+    }
+
     try {
-      logger.info("Getting quote... with shouldAdjustQuoteForGas", {
+      log.info("Getting quote... with shouldAdjustQuoteForGas", {
         inputToken: inputToken.symbol,
         outputToken: outputToken.symbol,
-        amount: inputAmountRaw,
+        amount: amountRaw,
         tradeType: tradeType === TradeType.EXACT_INPUT ? "EXACT_INPUT" : "EXACT_OUTPUT",
         shouldAdjustQuoteForGas
       })
 
-      // Parse input amount
-      const inputAmount = CurrencyAmount.fromRawAmount(
-        inputToken,
-        parseUnits(inputAmountRaw, inputToken.decimals).toString()
-      )
+      for (const currency of [inputToken, outputToken]) {
+        if (currency.chainId !== this.chainConfig.chainId) {
+          throw new Error(
+            `${currency.symbol} is on chain ${currency.chainId}, but this quoter is for chain ${this.chainConfig.chainId}`
+          )
+        }
+      }
 
-      // Create on-chain provider (same as UI)
-      const onChainProvider: OnChainProvider = ({ chainId }: { chainId?: ChainId }) => {
-        const client = this.clients[0]
-        return client as any
+      // Native CAMP <-> WCAMP is a wrap/unwrap, not a swap
+      if (inputToken.wrapped.equals(outputToken.wrapped)) {
+        throw new Error(`Cannot quote ${inputToken.symbol} -> ${outputToken.symbol}: use wrap/unwrap instead`)
       }
 
-      // TODO
+      // Parse the specified amount: input for EXACT_INPUT, output for EXACT_OUTPUT
+      const isExactInput = tradeType === TradeType.EXACT_INPUT
+      const amountCurrency = isExactInput ? inputToken : outputToken
+      const quoteCurrency = isExactInput ? outputToken : inputToken
+      const amount = CurrencyAmount.fromRawAmount(
+        amountCurrency,
+        parseUnits(amountRaw, amountCurrency.decimals).toString()
+      )
+
+      // Create on-chain provider (same as UI)
+      // The router's viem types differ from ours, the client itself is compatible
+      const onChainProvider: OnChainProvider = () => this.client as unknown as ReturnType<OnChainProvider>
       
 
-      // Create quote provider (same as UI's useQuoteProvider)
+      // Create quote provider (same as UI's useQuoteProvider). Static and mock
+      // pools carry their own reserves and ticks, so they are quoted off-chain
+      const offline = snapshotPools !== undefined || this.usesOfflinePools()
       const gasLimit = BigInt(100000000) // Use default gas limit like UI
-      const quoteProvider = SmartRouter.createQuoteProvider({
-        onChainProvider,
-        gasLimit,
-      })
+      const quoteProvider = offline
+        ? SmartRouter.createOffChainQuoteProvider()
+        : SmartRouter.createQuoteProvider({
+            onChainProvider,
+            gasLimit,
+          })
 
       // Fetch candidate pools (same as UI's useCommonPoolsLite)
+      // Pools only exist for ERC20s, so native CAMP is routed via WCAMP
+      const currencyA = inputToken.wrapped
+      const currencyB = outputToken.wrapped
       const poolFetchStartTime = Date.now()
-      console.log(`Fetching candidate pools for ${inputToken.symbol} -> ${outputToken.symbol}`)
-      
-      const [v2Pools, v3Pools, stablePools] = await Promise.all([
-        SmartRouter.getV2CandidatePools({
-          onChainProvider,
-          currencyA: inputToken,
-          currencyB: outputToken,
-          v2SubgraphProvider: () => this.v2SubgraphClient as any,
-          v3SubgraphProvider: () => this.v3SubgraphClient as any,
-        }),
-        SmartRouter.getV3CandidatePools({
-          onChainProvider,
-          currencyA: inputToken,
-          currencyB: outputToken,
-          subgraphProvider: () => this.v3SubgraphClient as any,
-        }),
-        SmartRouter.getStableCandidatePools({
-          onChainProvider,
-          currencyA: inputToken,
-          currencyB: outputToken,
-        }),
-      ])
-
-      const candidatePools = [...v2Pools, ...v3Pools, ...stablePools]
+      let candidatePools = snapshotPools
+      if (!candidatePools) {
+        const candidates = await this.getCandidatePools(currencyA, currencyB, onChainProvider, log)
+        candidatePools = candidates.pools
+        this.fetchedPools.set(poolCacheKey(currencyA, currencyB), candidatePools)
+        this.instruments.poolFetchDuration.observe((Date.now() - poolFetchStartTime) / 1000, { source: candidates.source })
+      }
+      const v2Pools = candidatePools.filter(SmartRouter.isV2Pool)
+      const v3Pools = candidatePools.filter(SmartRouter.isV3Pool)
+      const stablePools = candidatePools.filter(SmartRouter.isStablePool)
       const poolFetchTime = Date.now() - poolFetchStartTime
-      console.log(`Found ${v2Pools.length} V2 pools, ${v3Pools.length} V3 pools, and ${stablePools.length} stable pools in ${poolFetchTime}ms`)
-      console.log("Candidate pools v2: ", v2Pools.map((pool) => pool.reserve0.currency.symbol + " - " + pool.reserve1.currency.symbol))
-      console.log("Candidate pools v3: ", v3Pools.map((pool) => pool.token0.symbol + " - " + pool.token1.symbol))
-      console.log("Candidate pools stable: ", stablePools.map((pool) => pool.address))
+      this.instruments.candidatePools.observe(v2Pools.length, { type: "v2" })
+      this.instruments.candidatePools.observe(v3Pools.length, { type: "v3" })
+      this.instruments.candidatePools.observe(stablePools.length, { type: "stable" })
+      log.info(`Found ${v2Pools.length} V2 pools, ${v3Pools.length} V3 pools, and ${stablePools.length} stable pools in ${poolFetchTime}ms`)
+      log.debug("Candidate pools", {
+        v2: v2Pools.map((pool) => pool.reserve0.currency.symbol + " - " + pool.reserve1.currency.symbol),
+        v3: v3Pools.map((pool) => pool.token0.symbol + " - " + pool.token1.symbol),
+        stable: stablePools.map((pool) => pool.address),
+      })
       // Create static pool provider (same as UI)
       const poolProvider = SmartRouter.createStaticPoolProvider(candidatePools)
 
+      const [gasPriceWei, blockNumber] = await Promise.all([
+        this.getGasPrice(offline),
+        offline ? undefined : this.client.getBlockNumber(),
+      ])
+
       // Define trade config (same as UI)
       const tradeConfig: TradeConfig = {
-        gasPriceWei: async () => BigInt(1000000000), // 1 gwei default
+        gasPriceWei,
         poolProvider,
         quoteProvider,
         maxHops: this.options.maxHops,
@@ -161,29 +432,57 @@ export class TokenQuoter {
         quoterOptimization: false, // Same as UI
       }
 
-      // Get best trade (same as UI)
+      // Get best trade (same as UI). The trade keeps the native currency on
+      // either side so SwapRouter sends value / unwraps WCAMP for it. When
+      // adjusting for gas, routes are ranked by their output net of gas cost
       routerStartTime = Date.now()
-      const trade = await SmartRouter.getBestTrade(inputAmount, outputToken, tradeType, tradeConfig)
+      const trade = await SmartRouter.getBestTrade(
+        amount,
+        quoteCurrency,
+        tradeType,
+        tradeConfig,
+        shouldAdjustQuoteForGas ?? true
+      )
       const routerTime = Date.now() - routerStartTime
+      this.instruments.routerDuration.observe(routerTime / 1000)
 
       if (!trade) {
-        logger.warn("No trade found")
-        return null
+        // Pools on both sides that still produce no trade cannot fill the amount
+        const connected = candidatePools.some(pool => SmartRouter.involvesCurrency(pool, currencyA)) &&
+          candidatePools.some(pool => SmartRouter.involvesCurrency(pool, currencyB))
+        throw connected
+          ? new InsufficientLiquidityError(
+              `Not enough liquidity for ${amountRaw} ${amountCurrency.symbol} between ${inputToken.symbol} and ${outputToken.symbol}`,
+              errorContext
+            )
+          : new NoRouteError(`No route found from ${inputToken.symbol} to ${outputToken.symbol}`, errorContext)
       }
 
       // Calculate slippage
       const slippagePercent = new Percent(Math.floor(this.options.slippageTolerance * 100), 10000)
 
       // Format result
-      const result = this.formatQuoteResult(trade, inputAmountRaw, slippagePercent, routerTime)
+      const result: QuoteResult = {
+        ...this.formatQuoteResult(trade, slippagePercent, routerTime, gasPriceWei, candidatePools, blockNumber),
+        adjustedForGas: shouldAdjustQuoteForGas ?? true,
+      }
+
+      const maxPriceImpactPercent = new Percent(Math.floor(this.options.maxPriceImpact * 100), 10000)
+      if (result.priceImpactPercent.greaterThan(maxPriceImpactPercent)) {
+        throw new InsufficientLiquidityError(
+          `Price impact ${result.priceImpact} exceeds maximum of ${this.options.maxPriceImpact}%`,
+          { ...errorContext, priceImpact: result.priceImpact, maxPriceImpact: this.options.maxPriceImpact }
+        )
+      }
       
-      const totalTime = Date.now() - startTime
-      logger.info(`Quote completed in ${totalTime}ms (router: ${routerTime}ms)`, {
+      const totalTime = this.recordQuote("success", startTime)
+      log.info(`Quote completed in ${totalTime}ms (router: ${routerTime}ms)`, {
         inputToken: inputToken.symbol,
         outputToken: outputToken.symbol,
-        inputAmount: inputAmountRaw,
+        inputAmount: result.inputAmount,
         outputAmount: result.outputAmount,
         priceImpact: result.priceImpact,
+        gasCost: `${result.gasCostNative} CAMP`,
         route: result.route.join(" → "),
         routerTime: `${routerTime}ms`,
         totalTime: `${totalTime}ms`
@@ -192,100 +491,234 @@ export class TokenQuoter {
       return result
 
     } catch (error) {
-      const totalTime = Date.now() - startTime
-      logger.error(`Quote failed after ${totalTime}ms`, {
+      const failure = toQuoteError(error, errorContext)
+      if (failure instanceof NoRouteError) {
+        const totalTime = this.recordQuote("no_route", startTime)
+        log.warn(`No trade found after ${totalTime}ms`)
+        throw failure
+      }
+
+      const totalTime = this.recordQuote("error", startTime)
+      log.error(`Quote failed after ${totalTime}ms`, {
         inputToken: inputToken.symbol,
         outputToken: outputToken.symbol,
-        amount: inputAmountRaw,
-        error: error instanceof Error ? error.message : String(error),
+        amount: amountRaw,
+        error: failure instanceof Error ? failure.message : String(failure),
+        ...(failure instanceof SummitXError && { code: failure.code, retryable: failure.retryable }),
       })
-      throw error
+      throw failure
+    }
+  }
+
+  // Count the quote and observe its duration; returns the duration in ms
+  private recordQuote(outcome: "success" | "no_route" | "error", startTime: number): number {
+    const totalTime = Date.now() - startTime
+    this.instruments.quotes.inc({ outcome })
+    this.instruments.quoteDuration.observe(totalTime / 1000, { outcome })
+    return totalTime
+  }
+
+  /**
+   * Hit/miss statistics of the pool cache, or null if no cache is configured
+   */
+  getPoolCacheStats(): PoolCacheStats | null {
+    return this.poolCache ? this.poolCache.stats() : null
+  }
+
+  /**
+   * Health and latency of the RPC endpoints the quoter fails over between
+   */
+  getRpcHealth(): RpcEndpointHealth[] {
+    return this.endpointPool.health()
+  }
+
+  /**
+   * How far each subgraph's indexed block is behind the chain head.
+   * Subgraphs more than `maxBlocksBehind` blocks behind, with indexing
+   * errors, or not answering are reported unhealthy.
+   */
+  async getSubgraphHealth(maxBlocksBehind = 50): Promise<SubgraphHealth[]> {
+    const subgraphs = [this.v2Subgraph, this.v3Subgraph].filter((subgraph): subgraph is SubgraphClient => !!subgraph)
+    if (subgraphs.length === 0) {
+      return []
+    }
+    const chainHeadBlock = Number(await this.client.getBlockNumber())
+    return Promise.all(subgraphs.map(subgraph => subgraph.health(chainHeadBlock, maxBlocksBehind)))
+  }
+
+  /**
+   * Get candidate pools for a pair, served from the pool cache when possible
+   */
+  private async getCandidatePools(
+    currencyA: Token,
+    currencyB: Token,
+    onChainProvider: OnChainProvider,
+    log: Logger
+  ): Promise<{ pools: Pool[]; source: CandidatePoolSource }> {
+    if (this.options.useMockPools) {
+      log.debug(`Using mock pools for ${currencyA.symbol} -> ${currencyB.symbol}`)
+      return { pools: createMockPools(), source: "mock" }
+    }
+
+    if (this.options.useStaticPools) {
+      log.debug(`Using static pools for ${currencyA.symbol} -> ${currencyB.symbol}`)
+      return { pools: this.getStaticPools(), source: "static" }
+    }
+
+    if (!this.poolCache) {
+      return this.fetchCandidatePools(currencyA, currencyB, onChainProvider, log)
+    }
+
+    const key = poolCacheKey(currencyA, currencyB)
+    const blockNumber = this.options.invalidatePoolsOnNewBlock
+      ? await this.client.getBlockNumber()
+      : undefined
+
+    const cached = await this.poolCache.get(key, { blockNumber })
+    if (cached) {
+      log.debug(`Using ${cached.pools.length} cached candidate pools for ${currencyA.symbol} -> ${currencyB.symbol}`)
+      return { pools: cached.pools, source: "cache" }
+    }
+
+    const { pools, source } = await this.fetchCandidatePools(currencyA, currencyB, onChainProvider, log)
+    await this.poolCache.set(key, { pools, timestamp: Date.now(), blockNumber })
+    return { pools, source }
+  }
+
+  private async getGasPrice(offline: boolean): Promise<bigint> {
+    if (this.gasPriceOverride !== undefined) {
+      return this.gasPriceOverride
+    }
+    return offline ? DEFAULT_GAS_PRICE_WEI : this.client.getGasPrice()
+  }
+
+  private usesOfflinePools(): boolean {
+    return this.options.useMockPools || this.options.useStaticPools
+  }
+
+  private getStaticPools(): Pool[] {
+    if (!this.staticPools) {
+      if (!this.options.staticPoolsPath) {
+        throw new Error("useStaticPools requires staticPoolsPath to point at a pool snapshot")
+      }
+      this.staticPools = readPoolSnapshot(this.options.staticPoolsPath).pools
+    }
+    return this.staticPools
+  }
+
+  /**
+   * Fetch candidate pools from the subgraphs and RPC (same as UI's
+   * useCommonPoolsLite), or from the factory contracts when discovering pools
+   * on-chain or when a subgraph request fails
+   */
+  private async fetchCandidatePools(
+    currencyA: Token,
+    currencyB: Token,
+    onChainProvider: OnChainProvider,
+    log: Logger
+  ): Promise<{ pools: Pool[]; source: "network" | "onchain" }> {
+    if (this.poolDiscovery === "onchain") {
+      log.debug(`Discovering candidate pools on-chain for ${currencyA.symbol} -> ${currencyB.symbol}`)
+      return { pools: await this.onChainPools.getCandidatePools(currencyA, currencyB), source: "onchain" }
     }
+
+    log.debug(`Fetching candidate pools for ${currencyA.symbol} -> ${currencyB.symbol}`)
+    try {
+      return { pools: await this.fetchSubgraphCandidatePools(currencyA, currencyB, onChainProvider), source: "network" }
+    } catch (error) {
+      if (!(error instanceof SubgraphUnavailableError)) {
+        throw error
+      }
+      log.warn(`${error.message}; discovering candidate pools on-chain instead`)
+      return { pools: await this.onChainPools.getCandidatePools(currencyA, currencyB), source: "onchain" }
+    }
+  }
+
+  private async fetchSubgraphCandidatePools(
+    currencyA: Token,
+    currencyB: Token,
+    onChainProvider: OnChainProvider
+  ): Promise<Pool[]> {
+    const { v2Subgraph, v3Subgraph } = this
+    const v2SubgraphProvider: SubgraphProvider | undefined = v2Subgraph && (() => v2Subgraph.client)
+    const v3SubgraphProvider: SubgraphProvider | undefined = v3Subgraph && (() => v3Subgraph.client)
+
+    const [v2Pools, v3Pools, stablePools] = await Promise.all([
+      SmartRouter.getV2CandidatePools({
+        onChainProvider,
+        currencyA,
+        currencyB,
+        v2SubgraphProvider,
+        v3SubgraphProvider,
+      }),
+      SmartRouter.getV3CandidatePools({
+        onChainProvider,
+        currencyA,
+        currencyB,
+        subgraphProvider: v3SubgraphProvider,
+      }),
+      SmartRouter.getStableCandidatePools({
+        onChainProvider,
+        currencyA,
+        currencyB,
+      }),
+    ])
+
+    return [...v2Pools, ...v3Pools, ...stablePools]
   }
 
+  /**
+   * Quote several swaps concurrently. A failing pair does not fail the
+   * others: each result says whether its pair was quoted, or why not.
+   */
   async getMultipleQuotes(
     pairs: Array<{
       inputToken: Currency
       outputToken: Currency
       amount: string
+      tradeType?: TradeType
       shouldAdjustQuoteForGas?: boolean
     }>
-  ): Promise<Array<QuoteResult | null>> {
-    const results = await Promise.all(
-      pairs.map(async (pair) => {
+  ): Promise<MultipleQuoteResult[]> {
+    return Promise.all(
+      pairs.map(async (pair): Promise<MultipleQuoteResult> => {
         try {
-          return await this.getQuote(
+          const quote = await this.getQuote(
             pair.inputToken,
             pair.outputToken,
             pair.amount,
-            TradeType.EXACT_INPUT,
+            pair.tradeType ?? TradeType.EXACT_INPUT,
             pair.shouldAdjustQuoteForGas
           )
+          return { success: true, quote }
         } catch (error) {
-          logger.error(`Failed to get quote for ${pair.inputToken.symbol} -> ${pair.outputToken.symbol}`, error)
-          return null
+          return { success: false, error: error instanceof Error ? error : new Error(String(error)) }
         }
       })
     )
-
-    return results
   }
 
   private formatQuoteResult(
     trade: SmartRouterTrade<TradeType>,
-    inputAmountRaw: string,
     slippagePercent: Percent,
-    routerTime: number
+    routerTime: number,
+    gasPriceWei: bigint,
+    candidatePools: Pool[],
+    blockNumber: bigint | undefined
   ): QuoteResult {
-    const outputAmountWithSlippage = trade.outputAmount.multiply(
-      new Percent(1).subtract(slippagePercent)
-    )
-
-    // Calculate price impact manually
-    const priceImpact = trade.inputAmount.divide(trade.outputAmount).toFixed(2)
+    const priceImpact = computePriceImpact(trade)
     const executionPrice = trade.outputAmount.divide(trade.inputAmount).toFixed(6)
-    const minimumReceived = formatUnits(
-      outputAmountWithSlippage.quotient,
-      trade.outputAmount.currency.decimals
-    )
 
-    // Extract route information
-    const route = trade.routes.map(route => {
-      return route.path.map(token => token.symbol).join(' -> ')
-    })
-    
-    const routePath = trade.routes.map((route: any) => {
-      const pathSegments = []
-      
-      for (let i = 0; i < route.path.length - 1; i++) {
-        const currentToken = route.path[i]
-        const nextToken = route.path[i + 1]
-
-        const pool = route.pools[i]
-        
-        
-        let poolInfo = "Unknown"
-        if (pool) {
-          if (pool.type === 0) {
-            poolInfo = "V2"
-          } else if (pool.type === 1) {
-            const fee = pool.fee || "Unknown"
-            poolInfo = `V3 ${typeof fee === 'bigint' ? Number(fee)/10000 : fee/10000}%`
-          }
-          
-          if (pool.address) {
-            poolInfo += ` ${pool.address}`
-          }
-        }
-        
-        pathSegments.push(`${currentToken.symbol || "Unknown"}-${nextToken.symbol || "Unknown"} ${poolInfo}`)
-      }
-      
-      const pathString = pathSegments.join(", ")
-      const percent = route.percent || 0
-      
-      return `(${percent}% [${pathString}])`
-    })
+    // Gas cost in CAMP, and in the output token where the pools can price it
+    const outputCurrency = trade.outputAmount.currency
+    const native = Native.onChain(outputCurrency.chainId)
+    const gasCostWei = (trade.gasEstimate ?? 0n) * gasPriceWei
+    const nativePrice = getNativePriceInToken(candidatePools, native.wrapped, outputCurrency.wrapped)
+    const gasCostInOutput = nativePrice ? nativePrice.multiply(gasCostWei).quotient : undefined
+    const gasExceedsOutput = gasCostInOutput === undefined ? undefined : gasCostInOutput > trade.outputAmount.quotient
+
+    const routes = buildQuoteRoutes(trade)
+
     // Extract pool information
     const pools = trade.routes.flatMap(route => 
       route.pools.map(pool => {
@@ -300,18 +733,31 @@ export class TokenQuoter {
     )
 
     return {
+      tradeType: trade.tradeType,
       inputToken: trade.inputAmount.currency,
       outputToken: trade.outputAmount.currency,
-      inputAmount: inputAmountRaw,
+      inputAmount: formatUnits(trade.inputAmount.quotient, trade.inputAmount.currency.decimals),
       outputAmount: formatUnits(trade.outputAmount.quotient, trade.outputAmount.currency.decimals),
-      outputAmountWithSlippage: minimumReceived,
-      priceImpact: `${priceImpact}%`,
-      route:routePath,
+      ...getSlippageAmounts(trade, slippagePercent),
+      priceImpact: formatPriceImpact(priceImpact),
+      priceImpactPercent: priceImpact,
+      route: routes.map(formatQuoteRoute),
+      routes,
       pools,
       gasEstimate: trade.gasEstimate?.toString(),
+      gasPriceWei: gasPriceWei.toString(),
+      gasCostNative: formatUnits(gasCostWei, native.decimals),
+      gasCostInOutputToken: gasCostInOutput === undefined
+        ? undefined
+        : formatUnits(gasCostInOutput, outputCurrency.decimals),
+      outputAmountNetOfGas: gasCostInOutput === undefined
+        ? undefined
+        : formatUnits(gasExceedsOutput ? 0n : trade.outputAmount.quotient - gasCostInOutput, outputCurrency.decimals),
+      gasExceedsOutput,
       executionPrice,
-      minimumReceived,
       routerTime: `${routerTime}ms`,
+      blockNumber: blockNumber?.toString(),
+      createdAt: new Date().toISOString(),
       rawTrade: trade,
     }
   }
@@ -0,0 +1,130 @@
+import { RouteType, type SmartRouterTrade } from "@summitx/smart-router/evm"
+import { TradeType } from "@summitx/swap-sdk-core"
+import type { ChainId } from "@summitx/chains"
+
+import {
+  decodeCurrency,
+  decodeCurrencyAmount,
+  decodePool,
+  encodeCurrency,
+  encodeCurrencyAmount,
+  encodePool,
+  type EncodedCurrency,
+  type EncodedCurrencyAmount,
+  type EncodedPool,
+} from "./pool-snapshot"
+
+/**
+ * Versioned, JSON-safe encoding of a SmartRouterTrade
+ *
+ * Uses the pool snapshot encoding for pools, currencies and amounts, so a
+ * decoded trade holds the same pools, path and amounts as the original and
+ * produces identical calldata with SwapRouter.swapCallParameters.
+ */
+
+export const ENCODED_TRADE_VERSION = 1
+
+export type EncodedRouteType = "V2" | "V3" | "STABLE" | "MIXED"
+
+export interface EncodedRoute {
+  type: EncodedRouteType
+  percent: number
+  input: EncodedCurrency
+  output: EncodedCurrency
+  inputAmount: EncodedCurrencyAmount
+  outputAmount: EncodedCurrencyAmount
+  path: EncodedCurrency[]
+  pools: EncodedPool[]
+}
+
+export interface EncodedTrade {
+  version: typeof ENCODED_TRADE_VERSION
+  chainId: ChainId
+  tradeType: "EXACT_INPUT" | "EXACT_OUTPUT"
+  inputAmount: EncodedCurrencyAmount
+  outputAmount: EncodedCurrencyAmount
+  routes: EncodedRoute[]
+  gasEstimate?: string
+  gasEstimateInUSD?: EncodedCurrencyAmount
+  blockNumber?: number
+}
+
+const ROUTE_TYPES: Array<[RouteType, EncodedRouteType]> = [
+  [RouteType.V2, "V2"],
+  [RouteType.V3, "V3"],
+  [RouteType.STABLE, "STABLE"],
+  [RouteType.MIXED, "MIXED"],
+]
+
+function encodeRouteType(type: RouteType): EncodedRouteType {
+  const entry = ROUTE_TYPES.find(([routeType]) => routeType === type)
+  if (!entry) {
+    throw new Error(`Cannot encode unsupported route type ${type}`)
+  }
+  return entry[1]
+}
+
+function decodeRouteType(type: EncodedRouteType): RouteType {
+  const entry = ROUTE_TYPES.find(([, name]) => name === type)
+  if (!entry) {
+    throw new Error(`Cannot decode unsupported route type ${type}`)
+  }
+  return entry[0]
+}
+
+export function encodeTrade(trade: SmartRouterTrade<TradeType>): EncodedTrade {
+  return {
+    version: ENCODED_TRADE_VERSION,
+    chainId: trade.inputAmount.currency.chainId,
+    tradeType: trade.tradeType === TradeType.EXACT_INPUT ? "EXACT_INPUT" : "EXACT_OUTPUT",
+    inputAmount: encodeCurrencyAmount(trade.inputAmount),
+    outputAmount: encodeCurrencyAmount(trade.outputAmount),
+    routes: trade.routes.map(route => ({
+      type: encodeRouteType(route.type),
+      percent: route.percent,
+      input: encodeCurrency(route.input),
+      output: encodeCurrency(route.output),
+      inputAmount: encodeCurrencyAmount(route.inputAmount),
+      outputAmount: encodeCurrencyAmount(route.outputAmount),
+      path: route.path.map(encodeCurrency),
+      pools: route.pools.map(encodePool),
+    })),
+    gasEstimate: trade.gasEstimate?.toString(),
+    gasEstimateInUSD: trade.gasEstimateInUSD && encodeCurrencyAmount(trade.gasEstimateInUSD),
+    blockNumber: trade.blockNumber,
+  }
+}
+
+/**
+ * Decode a trade, accepting either the parsed object or its JSON text
+ */
+export function decodeTrade(input: EncodedTrade | string): SmartRouterTrade<TradeType> {
+  const encoded: EncodedTrade = typeof input === "string" ? JSON.parse(input) : input
+
+  if (!encoded || typeof encoded !== "object" || !Array.isArray(encoded.routes)) {
+    throw new Error("Invalid encoded trade: expected an object with a routes array")
+  }
+  if (encoded.version !== ENCODED_TRADE_VERSION) {
+    throw new Error(`Unsupported encoded trade version ${encoded.version} (expected ${ENCODED_TRADE_VERSION})`)
+  }
+
+  const { chainId } = encoded
+  return {
+    tradeType: encoded.tradeType === "EXACT_INPUT" ? TradeType.EXACT_INPUT : TradeType.EXACT_OUTPUT,
+    inputAmount: decodeCurrencyAmount(chainId, encoded.inputAmount),
+    outputAmount: decodeCurrencyAmount(chainId, encoded.outputAmount),
+    routes: encoded.routes.map(route => ({
+      type: decodeRouteType(route.type),
+      percent: route.percent,
+      input: decodeCurrency(chainId, route.input),
+      output: decodeCurrency(chainId, route.output),
+      inputAmount: decodeCurrencyAmount(chainId, route.inputAmount),
+      outputAmount: decodeCurrencyAmount(chainId, route.outputAmount),
+      path: route.path.map(currency => decodeCurrency(chainId, currency)),
+      pools: route.pools.map(pool => decodePool(chainId, pool)),
+    })),
+    gasEstimate: encoded.gasEstimate === undefined ? undefined : BigInt(encoded.gasEstimate),
+    gasEstimateInUSD: encoded.gasEstimateInUSD && decodeCurrencyAmount(chainId, encoded.gasEstimateInUSD),
+    blockNumber: encoded.blockNumber,
+  } as SmartRouterTrade<TradeType>
+}
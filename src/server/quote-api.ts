@@ -0,0 +1,357 @@
+import express, { type Express, type NextFunction, type Request, type Response } from "express"
+import cors from "cors"
+import type { Server } from "http"
+import { isAddress, type Address } from "viem"
+import { TradeType, Percent, type Currency } from "@summitx/swap-sdk-core"
+import { SwapRouter, type SmartRouterTrade } from "@summitx/smart-router/evm"
+
+import { getSlippageAmounts, TokenQuoter, type QuoteResult, type TokenQuoterOptions } from "../quoter/token-quoter"
+import { isQuoteStale } from "../quoter/quote-freshness"
+import type { ChainConfig } from "../config/chains"
+import type { TokenRegistry } from "../config/token-registry"
+import { logger } from "../utils/logger"
+import { isRetryableError, SummitXError, type SummitXErrorCode } from "../utils/errors"
+import type { MetricsRegistry } from "../utils/metrics"
+import {
+  bigintReplacer,
+  deserializeQuoteResult,
+  serializeCurrency,
+  serializeQuoteResult,
+  type SerializedQuoteResult,
+} from "../utils/serialize"
+
+export interface QuoteServerOptions {
+  quoter?: TokenQuoter // Reuse an existing quoter instead of creating one
+  quoterOptions?: TokenQuoterOptions
+  slippageTolerance?: number // default percentage for /swap/calldata (e.g., 0.5 for 0.5%)
+  deadlineSeconds?: number // default swap deadline for /swap/calldata
+  maxQuoteAgeSeconds?: number // quotes passed to /swap/calldata older than this are rejected (default 30)
+  maxBatchSize?: number // most pairs accepted by one POST /quotes request (default 25)
+  metrics?: MetricsRegistry // served at /metrics (default: the quoter's registry)
+}
+
+interface QuoteRequestParams {
+  tokenIn?: unknown
+  tokenOut?: unknown
+  amount?: unknown
+  tradeType?: unknown
+  adjustForGas?: unknown
+}
+
+/**
+ * Error with an HTTP status and machine-readable code, rendered as
+ * `{ error: { code, message } }` by the error handler
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string
+  ) {
+    super(message)
+    this.name = "HttpError"
+  }
+}
+
+// Status codes for quoting failures: permanent ones are client errors,
+// upstream outages are 503 so clients and load balancers retry
+const ERROR_STATUS: Partial<Record<SummitXErrorCode, number>> = {
+  NO_ROUTE: 404,
+  INSUFFICIENT_LIQUIDITY: 422,
+  SUBGRAPH_UNAVAILABLE: 503,
+  RPC_ERROR: 503,
+}
+
+/**
+ * The `error` object of a failed quote, as rendered by /quotes and the error handler
+ */
+function quoteErrorBody(error: unknown): { code: string; message: string; retryable: boolean } {
+  return {
+    code: error instanceof SummitXError ? error.code : "QUOTE_FAILED",
+    message: error instanceof Error ? error.message : String(error),
+    retryable: isRetryableError(error),
+  }
+}
+
+/**
+ * Resolve a token symbol (case-insensitive) or address to a currency.
+ * Addresses missing from the token lists are looked up on-chain.
+ */
+async function resolveCurrency(tokens: TokenRegistry, value: unknown, field: string): Promise<Currency> {
+  if (typeof value !== "string" || value.length === 0) {
+    throw new HttpError(400, "INVALID_REQUEST", `"${field}" is required`)
+  }
+
+  let currency: Currency | undefined
+  try {
+    currency = await tokens.resolve(value)
+  } catch (error) {
+    throw new HttpError(400, "UNKNOWN_TOKEN", `Unknown token for "${field}": ${value} (${error instanceof Error ? error.message : error})`)
+  }
+  if (!currency) {
+    throw new HttpError(400, "UNKNOWN_TOKEN", `Unknown token for "${field}": ${value}`)
+  }
+  return currency
+}
+
+function parseTradeType(value: unknown): TradeType {
+  if (value === undefined || value === "EXACT_INPUT") return TradeType.EXACT_INPUT
+  if (value === "EXACT_OUTPUT") return TradeType.EXACT_OUTPUT
+  throw new HttpError(400, "INVALID_REQUEST", `"tradeType" must be EXACT_INPUT or EXACT_OUTPUT`)
+}
+
+function parseAmount(value: unknown): string {
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw new HttpError(400, "INVALID_REQUEST", `"amount" is required`)
+  }
+  const amount = String(value)
+  if (!/^\d+(\.\d+)?$/.test(amount) || Number(amount) === 0) {
+    throw new HttpError(400, "INVALID_REQUEST", `"amount" must be a positive decimal, got ${amount}`)
+  }
+  return amount
+}
+
+/**
+ * Parse a slippage percentage into basis points, the precision of the router's
+ * slippage tolerance: 0.005 would otherwise be rounded down to no slippage
+ */
+function parseSlippage(value: unknown, defaultSlippage: number): Percent {
+  const slippage = value === undefined ? defaultSlippage : Number(value)
+  const basisPoints = Math.round(slippage * 100)
+  if (!Number.isFinite(slippage) || slippage < 0 || slippage >= 100 || Math.abs(slippage * 100 - basisPoints) > 1e-6) {
+    throw new HttpError(400, "INVALID_REQUEST", `"slippage" must be a percentage between 0 and 100 in steps of 0.01`)
+  }
+  return new Percent(basisPoints, 10000)
+}
+
+function parseBoolean(value: unknown): boolean | undefined {
+  if (value === undefined) return undefined
+  return value === true || value === "true"
+}
+
+async function parseQuoteRequest(tokens: TokenRegistry, params: QuoteRequestParams) {
+  return {
+    inputToken: await resolveCurrency(tokens, params.tokenIn, "tokenIn"),
+    outputToken: await resolveCurrency(tokens, params.tokenOut, "tokenOut"),
+    amount: parseAmount(params.amount),
+    tradeType: parseTradeType(params.tradeType),
+    shouldAdjustQuoteForGas: parseBoolean(params.adjustForGas),
+  }
+}
+
+// Swap calldata can only be built from a quote that carries its trade
+function getTrade(quote: QuoteResult): SmartRouterTrade<TradeType> {
+  if (!quote.rawTrade) {
+    throw new HttpError(400, "INVALID_QUOTE", `"quote" must include the "trade" returned by /quote`)
+  }
+  return quote.rawTrade
+}
+
+/**
+ * Rehydrate a quote returned by /quote, which must include its trade
+ */
+function parseSerializedQuote(value: unknown, chain: ChainConfig, maxAgeSeconds: number): QuoteResult {
+  let quote: QuoteResult
+  try {
+    quote = deserializeQuoteResult(value as SerializedQuoteResult)
+  } catch (error) {
+    throw new HttpError(400, "INVALID_QUOTE", `Invalid "quote": ${error instanceof Error ? error.message : error}`)
+  }
+
+  const { chainId } = getTrade(quote).inputAmount.currency
+  if (chainId !== chain.chainId) {
+    throw new HttpError(400, "INVALID_QUOTE", `"quote" is for chain ${chainId}, not ${chain.chainId}`)
+  }
+  if (!quote.createdAt || isQuoteStale(quote, maxAgeSeconds)) {
+    throw new HttpError(409, "STALE_QUOTE", `"quote" is older than ${maxAgeSeconds}s, request a new one`)
+  }
+  return quote
+}
+
+function sendJson(res: Response, status: number, body: unknown): void {
+  res.status(status).type("application/json").send(JSON.stringify(body, bigintReplacer))
+}
+
+// Forward rejections from async handlers to the error handler
+function asyncHandler(handler: (req: Request, res: Response) => Promise<void>) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res).catch(next)
+  }
+}
+
+/**
+ * Create the quote API
+ *
+ * - GET  /quote          ?tokenIn&tokenOut&amount[&tradeType][&adjustForGas]
+ * - POST /quotes         { quotes: [{ tokenIn, tokenOut, amount, tradeType? }] }, at most maxBatchSize pairs
+ * - GET  /tokens
+ * - GET  /metrics        quote latencies and outcomes in the Prometheus text format
+ * - POST /swap/calldata  { tokenIn, tokenOut, amount, recipient, tradeType?, slippage?, deadline? }
+ *                        or { quote, recipient, slippage?, deadline? } with a quote from /quote
+ *                        deadline is a unix timestamp in seconds (default: deadlineSeconds from now);
+ *                        the returned quote's minimum and maximum amounts are at the requested slippage
+ *
+ * Tokens may be given by symbol or address on the quoter's chain; addresses missing from
+ * the quoter's token lists are looked up on-chain. Errors are returned as
+ * `{ error: { code, message } }` with a matching HTTP status.
+ */
+export function createQuoteServer(options: QuoteServerOptions = {}): Express {
+  const quoter = options.quoter ?? new TokenQuoter(options.quoterOptions)
+  const chain = quoter.chainConfig // the router address follows the quoter's chain
+  const defaultSlippage = options.slippageTolerance ?? options.quoterOptions?.slippageTolerance ?? 0.5
+  const defaultDeadlineSeconds = options.deadlineSeconds ?? 300
+  const maxQuoteAgeSeconds = options.maxQuoteAgeSeconds ?? 30
+  const maxBatchSize = options.maxBatchSize ?? 25
+  const metrics = options.metrics ?? quoter.metrics
+
+  const app = express()
+  app.use(cors())
+  app.use(express.json())
+
+  app.get("/tokens", (_req, res) => {
+    sendJson(res, 200, { tokens: quoter.tokens.getCurrencies().map(serializeCurrency) })
+  })
+
+  app.get("/metrics", (_req, res) => {
+    res.status(200).type("text/plain; version=0.0.4").send(metrics.toPrometheus())
+  })
+
+  app.get("/quote", asyncHandler(async (req, res) => {
+    const request = await parseQuoteRequest(quoter.tokens, req.query)
+    const quote = await quoter.getQuote(
+      request.inputToken,
+      request.outputToken,
+      request.amount,
+      request.tradeType,
+      request.shouldAdjustQuoteForGas
+    )
+    sendJson(res, 200, { quote: serializeQuoteResult(quote) })
+  }))
+
+  app.post("/quotes", asyncHandler(async (req, res) => {
+    const items: unknown = req.body?.quotes
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new HttpError(400, "INVALID_REQUEST", `"quotes" must be a non-empty array`)
+    }
+    if (items.length > maxBatchSize) {
+      throw new HttpError(400, "BATCH_TOO_LARGE", `"quotes" may hold at most ${maxBatchSize} pairs, got ${items.length}`)
+    }
+
+    const requests = await Promise.all(
+      items.map((item: QuoteRequestParams) => parseQuoteRequest(quoter.tokens, item ?? {}))
+    )
+    const quotes = await quoter.getMultipleQuotes(
+      requests.map(request => ({
+        inputToken: request.inputToken,
+        outputToken: request.outputToken,
+        amount: request.amount,
+        tradeType: request.tradeType,
+        shouldAdjustQuoteForGas: request.shouldAdjustQuoteForGas,
+      }))
+    )
+
+    const results = quotes.map(result => result.success
+      ? { quote: serializeQuoteResult(result.quote) }
+      : { error: quoteErrorBody(result.error) }
+    )
+    sendJson(res, 200, { results })
+  }))
+
+  app.post("/swap/calldata", asyncHandler(async (req, res) => {
+    const body = req.body ?? {}
+
+    if (typeof body.recipient !== "string" || !isAddress(body.recipient)) {
+      throw new HttpError(400, "INVALID_REQUEST", `"recipient" must be an address`)
+    }
+    const slippageTolerance = parseSlippage(body.slippage, defaultSlippage)
+    const now = Math.floor(Date.now() / 1000)
+    const deadline = body.deadline === undefined ? now + defaultDeadlineSeconds : Number(body.deadline)
+    if (!Number.isSafeInteger(deadline) || deadline <= now) {
+      throw new HttpError(400, "INVALID_REQUEST", `"deadline" must be a unix timestamp in seconds, in the future`)
+    }
+
+    // A quote from an earlier /quote call is used as is, otherwise the swap is quoted now
+    let quote: QuoteResult
+    if (body.quote !== undefined) {
+      quote = parseSerializedQuote(body.quote, chain, maxQuoteAgeSeconds)
+    } else {
+      const request = await parseQuoteRequest(quoter.tokens, body)
+      quote = await quoter.getQuote(
+        request.inputToken,
+        request.outputToken,
+        request.amount,
+        request.tradeType,
+        request.shouldAdjustQuoteForGas
+      )
+    }
+
+    const trade = getTrade(quote)
+    const methodParameters = SwapRouter.swapCallParameters(trade, {
+      slippageTolerance,
+      recipient: body.recipient as Address,
+      deadlineOrPreviousBlockhash: deadline,
+    })
+
+    // The quote's bounds were computed at the quoter's slippage, the calldata's at the request's
+    sendJson(res, 200, {
+      quote: serializeQuoteResult({ ...quote, ...getSlippageAmounts(trade, slippageTolerance) }),
+      transaction: {
+        to: chain.contracts.smartRouter,
+        calldata: methodParameters.calldata,
+        value: methodParameters.value,
+        deadline,
+      },
+    })
+  }))
+
+  app.use((_req, _res, next) => {
+    next(new HttpError(404, "NOT_FOUND", "Route not found"))
+  })
+
+  app.use((error: unknown, _req: Request, res: Response, _next: NextFunction) => {
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: { code: error.code, message: error.message } })
+      return
+    }
+
+    if (error instanceof SummitXError && ERROR_STATUS[error.code]) {
+      const status = ERROR_STATUS[error.code]!
+      if (status >= 500) {
+        logger.warn("Quote API request failed upstream", { code: error.code, message: error.message })
+      }
+      sendJson(res, status, { error: quoteErrorBody(error) })
+      return
+    }
+
+    // Malformed JSON bodies are rejected by express.json() with a 400
+    if (error instanceof SyntaxError) {
+      sendJson(res, 400, { error: { code: "INVALID_JSON", message: error.message } })
+      return
+    }
+
+    logger.error("Quote API request failed", error)
+    sendJson(res, 500, {
+      error: {
+        code: "INTERNAL_ERROR",
+        message: error instanceof Error ? error.message : String(error),
+      },
+    })
+  })
+
+  return app
+}
+
+/**
+ * Create the quote API and start listening on `port`
+ */
+export function startQuoteServer(port: number, options: QuoteServerOptions = {}): Promise<Server> {
+  const app = createQuoteServer(options)
+
+  return new Promise((resolve, reject) => {
+    const server = app.listen(port, () => {
+      logger.success(`Quote API listening on http://localhost:${port}`)
+      resolve(server)
+    })
+    server.once("error", reject)
+  })
+}
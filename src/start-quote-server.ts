@@ -0,0 +1,51 @@
+/**
+ * SummitX Quote API Server
+ *
+ * Serves quotes from a single shared TokenQuoter over HTTP so that
+ * frontends and bots do not each need to embed the smart router.
+ *
+ * Environment:
+ *   PORT         - port to listen on (default 3000)
+ *   RPC_URL      - optional custom RPC URL
+ *   TOKEN_LISTS  - optional comma-separated token list URLs or files
+ *   POOL_DISCOVERY - subgraph or onchain, from the factory contracts only (default subgraph)
+ *   V2_SUBGRAPH_URL, V3_SUBGRAPH_URL - optional subgraphs to use instead of the chain's, e.g. a self-hosted indexer
+ *   SUBGRAPH_API_KEY - optional bearer token sent to the subgraphs
+ *   LOG_LEVEL    - debug, info, warn, error or silent (default info)
+ *   LOG_FORMAT   - pretty or json, one JSON object per line (default pretty)
+ */
+
+import { config } from "dotenv"
+import { startQuoteServer } from "./server/quote-api"
+import { loadTokenList } from "./config/token-list"
+import { logger } from "./utils/logger"
+
+// Load environment variables
+config()
+
+const PORT = Number(process.env.PORT || 3000)
+
+async function main(): Promise<void> {
+  const tokenListSources = (process.env.TOKEN_LISTS ?? "").split(",").map(source => source.trim()).filter(Boolean)
+  const tokenLists = await Promise.all(tokenListSources.map(loadTokenList))
+
+  await startQuoteServer(PORT, {
+    quoterOptions: {
+      rpcUrl: process.env.RPC_URL,
+      maxHops: 3,
+      maxSplits: 3,
+      tokenLists,
+      poolDiscovery: process.env.POOL_DISCOVERY === "onchain" ? "onchain" : undefined,
+      subgraphs: {
+        ...(process.env.V2_SUBGRAPH_URL && { v2: process.env.V2_SUBGRAPH_URL }),
+        ...(process.env.V3_SUBGRAPH_URL && { v3: process.env.V3_SUBGRAPH_URL }),
+      },
+      subgraphOptions: { apiKey: process.env.SUBGRAPH_API_KEY },
+    },
+  })
+}
+
+main().catch((error) => {
+  logger.error("Failed to start quote server:", error)
+  process.exit(1)
+})
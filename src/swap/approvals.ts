@@ -0,0 +1,210 @@
+import {
+  maxUint256,
+  type Account,
+  type Address,
+  type Hash,
+  type PublicClient,
+  type TransactionReceipt,
+  type WalletClient,
+} from "viem"
+import type { Token } from "@summitx/swap-sdk-core"
+
+import { BASECAMP_TESTNET } from "../config/base-testnet"
+import { getChainConfig } from "../config/chains"
+import { ERC20_ABI } from "./erc20-abi"
+
+export type ApprovalStrategy =
+  | "exact" // approve exactly what the swap can spend
+  | "infinite" // approve once for all future swaps
+  | "amount-with-buffer" // approve the swap amount plus a buffer, to cover requotes
+
+export interface TokenApproval {
+  amount: bigint // allowance that was set
+  hash: Hash
+  blockNumber: bigint
+  resetHash?: Hash // approve(0) sent first, for tokens that refuse to change a non-zero allowance
+}
+
+export interface TokenAllowance {
+  token: Token
+  spender: Address
+  allowance: bigint
+}
+
+export interface RevokedApproval {
+  token: Token
+  previousAllowance: bigint
+  hash: Hash
+}
+
+export interface RevokeApprovalsOptions {
+  tokens?: Token[] // default: every token configured for the wallet client's chain
+  spender?: Address // default: that chain's SmartRouter
+  confirmations?: number // blocks to wait for per revocation (default 1)
+}
+
+/**
+ * Allowance to request for a swap that needs `required`
+ */
+export function getApprovalAmount(required: bigint, strategy: ApprovalStrategy, bufferPercent = 10): bigint {
+  switch (strategy) {
+    case "exact":
+      return required
+    case "infinite":
+      return maxUint256
+    case "amount-with-buffer": {
+      const buffered = required + (required * BigInt(Math.round(bufferPercent * 100))) / 10000n
+      return buffered > maxUint256 ? maxUint256 : buffered
+    }
+  }
+}
+
+/**
+ * Set the allowance of `spender` to `amount`. Tokens like USDT revert when
+ * an allowance is changed from one non-zero value to another; that is
+ * detected by simulating the approve, and the allowance is reset to zero first.
+ */
+export async function approveToken(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  account: Account,
+  token: Token,
+  spender: Address,
+  amount: bigint,
+  confirmations = 1
+): Promise<TokenApproval> {
+  const address = token.address as Address
+
+  let resetHash: Hash | undefined
+  const currentAllowance = await readAllowance(publicClient, token, account.address, spender)
+  if (currentAllowance > 0n && !(await approveSucceeds(publicClient, account, token, spender, amount))) {
+    const reset = await sendApprove(walletClient, publicClient, account, address, spender, 0n, confirmations)
+    resetHash = reset.transactionHash
+  }
+
+  const receipt = await sendApprove(walletClient, publicClient, account, address, spender, amount, confirmations)
+  return { amount, hash: receipt.transactionHash, blockNumber: receipt.blockNumber, resetHash }
+}
+
+/**
+ * Current allowances of `spender` for each token, in token order. Defaults
+ * to every configured token and the SmartRouter of the client's chain.
+ */
+export async function listAllowances(
+  publicClient: PublicClient,
+  owner: Address,
+  tokens?: Token[],
+  spender?: Address
+): Promise<TokenAllowance[]> {
+  const chainConfig = getChainConfig(publicClient.chain?.id ?? BASECAMP_TESTNET)
+  const spenderAddress = spender ?? chainConfig.contracts.smartRouter
+
+  return Promise.all(
+    (tokens ?? uniqueTokens(Object.values(chainConfig.tokens))).map(async token => ({
+      token,
+      spender: spenderAddress,
+      allowance: await readAllowance(publicClient, token, owner, spenderAddress),
+    }))
+  )
+}
+
+/**
+ * Revoke every non-zero allowance of `spender` (the SmartRouter by default)
+ * over the given tokens, one approve(0) transaction per token
+ */
+export async function revokeApprovals(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  options: RevokeApprovalsOptions = {}
+): Promise<RevokedApproval[]> {
+  const account = walletClient.account
+  if (!account) {
+    throw new Error("revokeApprovals needs a wallet client with an account")
+  }
+
+  const tokens = options.tokens && uniqueTokens(options.tokens)
+  const allowances = await listAllowances(publicClient, account.address, tokens, options.spender)
+
+  const revoked: RevokedApproval[] = []
+  for (const { token, spender, allowance } of allowances) {
+    if (allowance === 0n) continue
+
+    const receipt = await sendApprove(
+      walletClient,
+      publicClient,
+      account,
+      token.address as Address,
+      spender,
+      0n,
+      options.confirmations ?? 1
+    )
+    revoked.push({ token, previousAllowance: allowance, hash: receipt.transactionHash })
+  }
+  return revoked
+}
+
+// Token maps may list one address under several symbols (WCAMP and WETH on
+// Base Camp testnet); only check it once
+function uniqueTokens(tokens: Token[]): Token[] {
+  const seen = new Set<string>()
+  return tokens.filter(token => {
+    const key = token.address.toLowerCase()
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+function readAllowance(publicClient: PublicClient, token: Token, owner: Address, spender: Address): Promise<bigint> {
+  return publicClient.readContract({
+    address: token.address as Address,
+    abi: ERC20_ABI,
+    functionName: "allowance",
+    args: [owner, spender],
+  })
+}
+
+async function approveSucceeds(
+  publicClient: PublicClient,
+  account: Account,
+  token: Token,
+  spender: Address,
+  amount: bigint
+): Promise<boolean> {
+  try {
+    const { result } = await publicClient.simulateContract({
+      account,
+      address: token.address as Address,
+      abi: ERC20_ABI,
+      functionName: "approve",
+      args: [spender, amount],
+    })
+    return result
+  } catch {
+    return false
+  }
+}
+
+async function sendApprove(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  account: Account,
+  token: Address,
+  spender: Address,
+  amount: bigint,
+  confirmations: number
+): Promise<TransactionReceipt> {
+  const hash = await walletClient.writeContract({
+    account,
+    chain: walletClient.chain,
+    address: token,
+    abi: ERC20_ABI,
+    functionName: "approve",
+    args: [spender, amount],
+  })
+  const receipt = await publicClient.waitForTransactionReceipt({ hash, confirmations })
+  if (receipt.status !== "success") {
+    throw new Error(`Approval transaction ${hash} reverted`)
+  }
+  return receipt
+}
@@ -0,0 +1,155 @@
+import {
+  encodeAbiParameters,
+  hexToSignature,
+  keccak256,
+  toHex,
+  type Account,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type WalletClient,
+} from "viem"
+import type { Token } from "@summitx/swap-sdk-core"
+
+/**
+ * EIP-2612 permits, bundled into the swap through the router's selfPermit so
+ * no separate approve transaction is needed.
+ *
+ * The SmartRouter only implements selfPermit (EIP-2612 and DAI-style
+ * permits); it has no Permit2 integration, so tokens without a native permit
+ * still need a classic approve.
+ */
+
+export const ERC20_PERMIT_ABI = [
+  {
+    name: "nonces",
+    type: "function",
+    inputs: [{ name: "owner", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    name: "DOMAIN_SEPARATOR",
+    type: "function",
+    inputs: [],
+    outputs: [{ name: "", type: "bytes32" }],
+    stateMutability: "view",
+  },
+  {
+    name: "name",
+    type: "function",
+    inputs: [],
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+  },
+  {
+    name: "version",
+    type: "function",
+    inputs: [],
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+  },
+] as const
+
+// Matches the router SDK's PermitOptions for `inputTokenPermit`
+export interface PermitSignature {
+  v: 0 | 1 | 27 | 28
+  r: Hex
+  s: Hex
+  amount: bigint
+  deadline: bigint
+}
+
+export interface PermitDomain {
+  name: string
+  version: string
+  chainId: number
+  verifyingContract: Address
+}
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const
+
+const EIP712_DOMAIN_TYPEHASH = keccak256(
+  toHex("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)")
+)
+
+function hashPermitDomain(domain: PermitDomain): Hex {
+  return keccak256(encodeAbiParameters(
+    [{ type: "bytes32" }, { type: "bytes32" }, { type: "bytes32" }, { type: "uint256" }, { type: "address" }],
+    [
+      EIP712_DOMAIN_TYPEHASH,
+      keccak256(toHex(domain.name)),
+      keccak256(toHex(domain.version)),
+      BigInt(domain.chainId),
+      domain.verifyingContract,
+    ]
+  ))
+}
+
+/**
+ * EIP-712 domain of a token's EIP-2612 permit, or null if the token has no
+ * permit. The domain is only returned when it reproduces the token's
+ * DOMAIN_SEPARATOR, so a signature made with it is accepted on-chain.
+ */
+export async function getPermitDomain(publicClient: PublicClient, token: Token): Promise<PermitDomain | null> {
+  const address = token.address as Address
+
+  let name: string
+  let domainSeparator: Hex
+  try {
+    [name, domainSeparator] = await Promise.all([
+      publicClient.readContract({ address, abi: ERC20_PERMIT_ABI, functionName: "name" }),
+      publicClient.readContract({ address, abi: ERC20_PERMIT_ABI, functionName: "DOMAIN_SEPARATOR" }),
+    ])
+  } catch {
+    return null
+  }
+
+  // Most tokens use version "1" and many don't expose version() at all
+  const version = await publicClient
+    .readContract({ address, abi: ERC20_PERMIT_ABI, functionName: "version" })
+    .catch(() => "1")
+
+  const domain: PermitDomain = { name, version, chainId: token.chainId, verifyingContract: address }
+  return hashPermitDomain(domain).toLowerCase() === domainSeparator.toLowerCase() ? domain : null
+}
+
+/**
+ * Sign an EIP-2612 permit letting `spender` pull `amount` of `token` from the
+ * wallet account until `deadline` (unix seconds)
+ */
+export async function signPermit(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  account: Account,
+  domain: PermitDomain,
+  spender: Address,
+  amount: bigint,
+  deadline: bigint
+): Promise<PermitSignature> {
+  const nonce = await publicClient.readContract({
+    address: domain.verifyingContract,
+    abi: ERC20_PERMIT_ABI,
+    functionName: "nonces",
+    args: [account.address],
+  })
+
+  const signature = await walletClient.signTypedData({
+    account,
+    domain,
+    types: PERMIT_TYPES,
+    primaryType: "Permit",
+    message: { owner: account.address, spender, value: amount, nonce, deadline },
+  })
+
+  const { v, r, s } = hexToSignature(signature)
+  return { v: Number(v) as PermitSignature["v"], r, s, amount, deadline }
+}
@@ -0,0 +1,205 @@
+import {
+  BaseError,
+  decodeErrorResult,
+  decodeFunctionData,
+  decodeFunctionResult,
+  formatUnits,
+  parseUnits,
+  type Abi,
+  type Account,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from "viem"
+import { TradeType } from "@summitx/swap-sdk-core"
+import { SwapRouter } from "@summitx/smart-router/evm"
+
+import type { QuoteResult } from "../quoter/token-quoter"
+import type { SwapAmountBounds, SwapTransactionRequest } from "./swap-executor"
+
+export interface SwapSimulationResult {
+  amountOut?: bigint // simulated output, for EXACT_INPUT swaps
+  amountIn?: bigint // simulated input, for EXACT_OUTPUT swaps
+  formatted: string // the simulated amount in token units
+  gasEstimate: bigint
+}
+
+/**
+ * The router call reverted in simulation, or simulated worse than the quote allows
+ */
+export class SwapSimulationError extends Error {
+  constructor(
+    message: string,
+    readonly reason?: string, // decoded revert reason, when the call reverted
+    cause?: unknown,
+    readonly simulatedAmount?: bigint // when the call succeeded but the amount is outside the slippage bound
+  ) {
+    super(message, { cause })
+    this.name = "SwapSimulationError"
+  }
+}
+
+const ROUTER_ABI = SwapRouter.ABI as Abi
+
+interface RouterCall {
+  functionName: string
+  args: readonly unknown[]
+}
+
+/**
+ * Run the exact router call with `eth_call` and `estimateGas`, and check the
+ * simulated amount against the slippage bound (the minimum output for
+ * EXACT_INPUT, the maximum input for EXACT_OUTPUT). Pass the bounds the
+ * calldata was built with; they default to the quote's `minimumReceived` and
+ * `maximumAmountIn`.
+ */
+export async function simulateSwap(
+  publicClient: PublicClient,
+  account: Account | Address,
+  quote: QuoteResult,
+  transaction: SwapTransactionRequest,
+  bounds?: SwapAmountBounds
+): Promise<SwapSimulationResult> {
+  const request = { account, to: transaction.to, data: transaction.data, value: transaction.value }
+
+  let returnData: Hex | undefined
+  let gasEstimate: bigint
+  try {
+    ({ data: returnData } = await publicClient.call(request))
+    gasEstimate = await publicClient.estimateGas(request)
+  } catch (error) {
+    const reason = decodeRevertReason(error)
+    throw new SwapSimulationError(`Swap simulation reverted: ${reason}`, reason, error)
+  }
+
+  if (!returnData) {
+    throw new SwapSimulationError("Swap simulation returned no data")
+  }
+
+  const isExactInput = quote.tradeType === TradeType.EXACT_INPUT
+  const currency = isExactInput ? quote.outputToken : quote.inputToken
+  const amount = decodeSwapAmount(transaction.data, returnData, isExactInput, currency.wrapped.address as Address)
+  const formatted = formatUnits(amount, currency.decimals)
+
+  if (isExactInput) {
+    const minimum = bounds?.minimumAmountOut ?? parseUnits(quote.minimumReceived, currency.decimals)
+    if (amount < minimum) {
+      throw new SwapSimulationError(
+        `Simulated output ${formatted} ${currency.symbol} is below the minimum of ${formatUnits(minimum, currency.decimals)}`,
+        undefined,
+        undefined,
+        amount
+      )
+    }
+    return { amountOut: amount, formatted, gasEstimate }
+  }
+
+  const maximum = bounds?.maximumAmountIn ?? parseUnits(quote.maximumAmountIn, currency.decimals)
+  if (amount > maximum) {
+    throw new SwapSimulationError(
+      `Simulated input ${formatted} ${currency.symbol} is above the maximum of ${formatUnits(maximum, currency.decimals)}`,
+      undefined,
+      undefined,
+      amount
+    )
+  }
+  return { amountIn: amount, formatted, gasEstimate }
+}
+
+/**
+ * Human-readable revert reason of a failed call, decoded against the router
+ * ABI (which includes the standard Error(string) and Panic(uint256))
+ */
+export function decodeRevertReason(error: unknown): string {
+  if (!(error instanceof BaseError)) {
+    return error instanceof Error ? error.message : String(error)
+  }
+
+  const withData = error.walk(e => typeof (e as { data?: unknown }).data === "string")
+  const data = (withData as { data?: Hex } | null)?.data
+  if (data && data !== "0x") {
+    try {
+      const { errorName, args } = decodeErrorResult({ abi: ROUTER_ABI, data })
+      if (errorName === "Error" && args?.length === 1) {
+        return String(args[0])
+      }
+      return `${errorName}(${(args ?? []).map(String).join(", ")})`
+    } catch {
+      return `unknown error ${data.slice(0, 10)}`
+    }
+  }
+
+  return error.shortMessage
+}
+
+/**
+ * Total amount the swap calls in a router multicall report: the output
+ * reaching `token` for exact-input swaps, or the input for exact-output swaps
+ */
+function decodeSwapAmount(calldata: Hex, returnData: Hex, isExactInput: boolean, token: Address): bigint {
+  const outer = decodeFunctionData({ abi: ROUTER_ABI, data: calldata }) as RouterCall
+
+  let calls: Array<{ call: RouterCall; result: unknown }>
+  if (outer.functionName === "multicall") {
+    // multicall(bytes[]), multicall(uint256 deadline, bytes[]) or multicall(bytes32 previousBlockhash, bytes[])
+    const innerData = outer.args[outer.args.length - 1] as Hex[]
+    const results = decodeFunctionResult({
+      abi: ROUTER_ABI,
+      functionName: "multicall",
+      args: outer.args,
+      data: returnData,
+    } as Parameters<typeof decodeFunctionResult>[0]) as Hex[]
+
+    calls = innerData.map((data, i) => {
+      const call = decodeFunctionData({ abi: ROUTER_ABI, data }) as RouterCall
+      return { call, result: decodeCallResult(call, results[i]) }
+    })
+  } else {
+    calls = [{ call: outer, result: decodeCallResult(outer, returnData) }]
+  }
+
+  let total = 0n
+  for (const { call, result } of calls) {
+    if (isExactInput && isExactInputSwap(call.functionName)) {
+      // Mixed routes chain several calls through the router, count only the last hop of each
+      if (swapOutputToken(call)?.toLowerCase() === token.toLowerCase()) {
+        total += result as bigint
+      }
+    } else if (!isExactInput && isExactOutputSwap(call.functionName)) {
+      total += result as bigint
+    }
+  }
+  return total
+}
+
+function decodeCallResult(call: RouterCall, data: Hex): unknown {
+  return decodeFunctionResult({
+    abi: ROUTER_ABI,
+    functionName: call.functionName,
+    args: call.args,
+    data,
+  } as Parameters<typeof decodeFunctionResult>[0])
+}
+
+function isExactInputSwap(functionName: string): boolean {
+  return functionName.startsWith("exactInput") || functionName === "swapExactTokensForTokens"
+}
+
+function isExactOutputSwap(functionName: string): boolean {
+  return functionName.startsWith("exactOutput") || functionName === "swapTokensForExactTokens"
+}
+
+// Token an exact-input swap call ends in, from its tokenOut, path bytes or path array
+function swapOutputToken({ functionName, args }: RouterCall): Address | undefined {
+  if (functionName === "exactInputSingle") {
+    return (args[0] as { tokenOut: Address }).tokenOut
+  }
+  if (functionName === "exactInput") {
+    const { path } = args[0] as { path: Hex }
+    return `0x${path.slice(-40)}` as Address
+  }
+  // swapExactTokensForTokens(amountIn, amountOutMin, path, to) and
+  // exactInputStableSwap(path, flag, amountIn, amountOutMin, to)
+  const path = args.find(Array.isArray) as Address[] | undefined
+  return path?.[path.length - 1]
+}
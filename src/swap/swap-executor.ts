@@ -0,0 +1,615 @@
+import {
+  formatUnits,
+  isAddressEqual,
+  parseUnits,
+  type Account,
+  type Address,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type TransactionReceipt,
+  type WalletClient,
+} from "viem"
+import { Percent, TradeType, type Currency } from "@summitx/swap-sdk-core"
+import { SmartRouter, SwapRouter } from "@summitx/smart-router/evm"
+
+import { BASECAMP_TESTNET } from "../config/base-testnet"
+import { getChainConfig, type ChainConfig } from "../config/chains"
+import type { QuoteResult, TokenQuoter } from "../quoter/token-quoter"
+import { getQuoteAgeSeconds, getQuoteDeviationPercent } from "../quoter/quote-freshness"
+import { simulateSwap, SwapSimulationError, type SwapSimulationResult } from "./simulation"
+import { getPermitDomain, signPermit, type PermitSignature } from "./permit"
+import { approveToken, getApprovalAmount, type ApprovalStrategy } from "./approvals"
+import { ERC20_ABI } from "./erc20-abi"
+import { metrics as defaultMetrics, type MetricsRegistry } from "../utils/metrics"
+import {
+  AllowanceError,
+  InsufficientBalanceError,
+  SlippageExceededError,
+  SwapExecutionError,
+  TransactionRevertedError,
+} from "../utils/errors"
+
+export interface SwapExecutorOptions {
+  chainConfig?: ChainConfig // default: the registered config for the wallet client's chain
+  routerAddress?: Address // default: the chain config's SmartRouter
+  slippageTolerance?: number // percentage (e.g., 0.5 for 0.5%) applied to the quote's trade in every step (default 0.5)
+  deadlineSeconds?: number // swap deadline from now (default 300)
+  recipient?: Address // receiver of the output (default: the wallet account)
+  confirmations?: number // blocks to wait for on approval and swap (default 1)
+  simulate?: boolean // eth_call the swap before sending and abort on revert or excess slippage (default true)
+  usePermit?: boolean // sign an EIP-2612 permit instead of approving, when the token supports it (default true)
+  approvalStrategy?: ApprovalStrategy // how much to approve or permit (default "exact")
+  approvalBufferPercent?: number // extra allowance for "amount-with-buffer" (default 10)
+  quoter?: TokenQuoter // re-quotes the swap before sending, see `requote`
+  requote?: RequotePolicy // when to re-quote with `quoter` before sending (default "stale")
+  maxQuoteAgeSeconds?: number // older quotes are re-quoted, or rejected without a quoter (default 30)
+  maxRequoteDeviationPercent?: number // how much worse a re-quote may be without confirmation (default 0.5)
+  confirmRequote?: (requote: RequoteResult) => boolean | Promise<boolean> // asked when a re-quote exceeds the deviation; aborts without it
+  metrics?: MetricsRegistry // records swap outcomes, gas used and realized slippage (default: the shared registry)
+}
+
+export type RequotePolicy =
+  | "stale" // re-quote quotes older than maxQuoteAgeSeconds
+  | "always" // re-quote every swap right before sending
+  | "never" // send the given quote, but still reject it once stale
+
+export type SwapStep = "balance" | "approval" | "requote" | "simulate" | "send" | "confirm" | "verify"
+
+export interface BalanceCheckResult {
+  balance: bigint
+  required: bigint // slippage-adjusted maximum input
+  sufficient: boolean
+}
+
+// The swap's amounts at the executor's slippage tolerance, as encoded in the router call
+export interface SwapAmountBounds {
+  maximumAmountIn: bigint // inputAmount plus slippage for EXACT_OUTPUT, inputAmount for EXACT_INPUT
+  minimumAmountOut: bigint // outputAmount minus slippage for EXACT_INPUT, outputAmount for EXACT_OUTPUT
+}
+
+export type ApprovalMethod = "none" | "approve" | "permit"
+
+export interface ApprovalResult {
+  required: boolean // false for native input or when the allowance already covers the swap
+  method: ApprovalMethod // "permit" is bundled into the swap call, "approve" is a separate transaction
+  allowance: bigint // allowance before approving
+  amount?: bigint // allowance granted, per the approval strategy
+  hash?: Hash // approve transaction
+  resetHash?: Hash // approve(0) sent first, for tokens like USDT that require it
+  blockNumber?: bigint
+  permit?: PermitSignature
+}
+
+export interface SwapTransactionRequest {
+  to: Address
+  data: Hex
+  value: bigint
+  deadline: number // unix seconds
+}
+
+export interface RequoteResult {
+  previous: QuoteResult
+  quote: QuoteResult // the quote the swap is sent with
+  ageSeconds: number // age of the previous quote when it was re-quoted
+  deviationPercent: number // how much worse the new quote is (negative when better)
+  exceedsThreshold: boolean // deviationPercent is above maxRequoteDeviationPercent
+}
+
+export interface SwapVerificationResult {
+  inputSpent: bigint
+  outputReceived: bigint
+  inputSpentFormatted: string
+  outputReceivedFormatted: string
+  realizedSlippagePercent: number // how much worse than quoted the swap executed (negative when better)
+}
+
+export interface SwapExecutionResult {
+  quote: QuoteResult
+  balance: BalanceCheckResult
+  approval: ApprovalResult
+  transaction: SwapTransactionRequest
+  requote?: RequoteResult // set when the swap was re-quoted before sending
+  simulation?: SwapSimulationResult // unset when simulation is disabled
+  hash: Hash
+  receipt: TransactionReceipt
+  verification: SwapVerificationResult
+}
+
+export interface SwapExecutorEvents {
+  quoted: { quote: QuoteResult }
+  approving: { token: Currency; spender: Address; amount: bigint; method: Exclude<ApprovalMethod, "none"> }
+  approved: ApprovalResult
+  requoted: RequoteResult
+  simulated: SwapSimulationResult
+  sent: { hash: Hash; transaction: SwapTransactionRequest }
+  confirmed: SwapExecutionResult
+  failed: { step: SwapStep; error: Error }
+}
+
+export type SwapExecutorEventHandler<E extends keyof SwapExecutorEvents> =
+  (payload: SwapExecutorEvents[E]) => void | Promise<void>
+
+/**
+ * How much worse than quoted a swap executed, in percent: less output than
+ * quoted for EXACT_INPUT, more input than quoted for EXACT_OUTPUT. Negative
+ * when the swap did better than the quote.
+ */
+export function getRealizedSlippagePercent(quote: QuoteResult, inputSpent: bigint, outputReceived: bigint): number {
+  const isExactInput = quote.tradeType === TradeType.EXACT_INPUT
+  const expected = isExactInput
+    ? parseUnits(quote.outputAmount, quote.outputToken.decimals)
+    : parseUnits(quote.inputAmount, quote.inputToken.decimals)
+  if (expected === 0n) {
+    return 0
+  }
+
+  // In basis points first, so the bigint division keeps two decimals
+  const worse = isExactInput ? expected - outputReceived : inputSpent - expected
+  return Number((worse * 10000n) / expected) / 100
+}
+
+function createSwapMetrics(registry: MetricsRegistry) {
+  return {
+    swaps: registry.counter({
+      name: "summitx_swaps_total",
+      help: "Executed swaps by outcome: success, reverted or failed",
+      labelNames: ["outcome"],
+    }),
+    failures: registry.counter({
+      name: "summitx_swap_failures_total",
+      help: "Swaps that did not confirm, by the step that failed",
+      labelNames: ["step"],
+    }),
+    gasUsed: registry.histogram({
+      name: "summitx_swap_gas_used",
+      help: "Gas used by confirmed swap transactions",
+      buckets: [100_000, 150_000, 200_000, 300_000, 400_000, 600_000, 800_000, 1_000_000, 1_500_000],
+    }),
+    realizedSlippage: registry.histogram({
+      name: "summitx_swap_realized_slippage_percent",
+      help: "How much worse than quoted confirmed swaps executed, in percent",
+      buckets: [-1, -0.5, -0.1, 0, 0.1, 0.25, 0.5, 1, 2, 5],
+    }),
+  }
+}
+
+/**
+ * Executes a quoted swap through the SmartRouter: checks the balance,
+ * approves the router if needed, re-quotes stale quotes, sends the swap and
+ * verifies the balance changes. Handlers registered with `on` are awaited in order, so they can
+ * also be used as hooks - e.g. a `simulated` handler runs right before the
+ * swap is sent and can ask for confirmation.
+ */
+export class SwapExecutor {
+  private readonly account: Account
+  private readonly routerAddress: Address
+  private readonly slippageTolerance: Percent
+  private readonly deadlineSeconds: number
+  private readonly recipient: Address
+  private readonly confirmations: number
+  private readonly shouldSimulate: boolean
+  private readonly usePermit: boolean
+  private readonly approvalStrategy: ApprovalStrategy
+  private readonly approvalBufferPercent: number
+  private readonly quoter?: TokenQuoter
+  private readonly requotePolicy: RequotePolicy
+  private readonly maxQuoteAgeSeconds: number
+  private readonly maxRequoteDeviationPercent: number
+  private readonly confirmRequote?: (requote: RequoteResult) => boolean | Promise<boolean>
+  private readonly instruments: ReturnType<typeof createSwapMetrics>
+  private handlers: { [E in keyof SwapExecutorEvents]?: Array<SwapExecutorEventHandler<E>> } = {}
+
+  constructor(
+    private readonly walletClient: WalletClient,
+    private readonly publicClient: PublicClient,
+    options: SwapExecutorOptions = {}
+  ) {
+    if (!walletClient.account) {
+      throw new Error("SwapExecutor needs a wallet client with an account")
+    }
+
+    this.account = walletClient.account
+    this.routerAddress = options.routerAddress
+      ?? (options.chainConfig ?? getChainConfig(walletClient.chain?.id ?? BASECAMP_TESTNET)).contracts.smartRouter
+    this.slippageTolerance = new Percent(Math.floor((options.slippageTolerance ?? 0.5) * 100), 10000)
+    this.deadlineSeconds = options.deadlineSeconds ?? 300
+    this.recipient = options.recipient ?? walletClient.account.address
+    this.confirmations = options.confirmations ?? 1
+    this.shouldSimulate = options.simulate ?? true
+    this.usePermit = options.usePermit ?? true
+    this.approvalStrategy = options.approvalStrategy ?? "exact"
+    this.approvalBufferPercent = options.approvalBufferPercent ?? 10
+    this.quoter = options.quoter
+    this.requotePolicy = options.requote ?? "stale"
+    this.maxQuoteAgeSeconds = options.maxQuoteAgeSeconds ?? 30
+    this.maxRequoteDeviationPercent = options.maxRequoteDeviationPercent ?? 0.5
+    this.confirmRequote = options.confirmRequote
+    this.instruments = createSwapMetrics(options.metrics ?? defaultMetrics)
+  }
+
+  /**
+   * Register a lifecycle handler. Returns a function that removes it.
+   */
+  on<E extends keyof SwapExecutorEvents>(event: E, handler: SwapExecutorEventHandler<E>): () => void {
+    const handlers = (this.handlers[event] ??= []) as Array<SwapExecutorEventHandler<E>>
+    handlers.push(handler)
+    return () => {
+      const index = handlers.indexOf(handler)
+      if (index !== -1) {
+        handlers.splice(index, 1)
+      }
+    }
+  }
+
+  /**
+   * Run every step of the swap for a quote
+   */
+  async execute(initialQuote: QuoteResult): Promise<SwapExecutionResult> {
+    const owner = this.account.address
+    let quote = initialQuote
+    let step: SwapStep = "balance"
+    let reverted = false
+
+    try {
+      await this.emit("quoted", { quote })
+
+      const balance = await this.checkBalance(quote)
+      if (!balance.sufficient) {
+        const required = formatUnits(balance.required, quote.inputToken.decimals)
+        const available = formatUnits(balance.balance, quote.inputToken.decimals)
+        throw new InsufficientBalanceError(
+          `Insufficient ${quote.inputToken.symbol} balance: required ${required}, available ${available}`,
+          { token: quote.inputToken.symbol, required, available }
+        )
+      }
+
+      step = "approval"
+      let approval = await this.ensureApproval(quote)
+
+      // Approving can take a while, so freshness is checked right before sending
+      step = "requote"
+      const requote = await this.refreshQuote(quote)
+      if (requote) {
+        quote = requote.quote
+
+        // An EXACT_OUTPUT re-quote may spend more than was checked and approved
+        const { maximumAmountIn } = this.getAmountBounds(quote)
+        if (maximumAmountIn > balance.required) {
+          step = "balance"
+          if (balance.balance < maximumAmountIn) {
+            const required = formatUnits(maximumAmountIn, quote.inputToken.decimals)
+            const available = formatUnits(balance.balance, quote.inputToken.decimals)
+            throw new InsufficientBalanceError(
+              `Insufficient ${quote.inputToken.symbol} balance for the re-quote: required ${required}, ` +
+                `available ${available}`,
+              { token: quote.inputToken.symbol, required, available }
+            )
+          }
+          step = "approval"
+          approval = await this.ensureApproval(quote)
+        }
+      }
+
+      const transaction = this.buildTransaction(quote, approval.permit)
+
+      let simulation: SwapSimulationResult | undefined
+      if (this.shouldSimulate) {
+        step = "simulate"
+        simulation = await this.simulate(quote, transaction)
+      }
+
+      // Read after approving: approve transactions pay their gas from a native CAMP output balance
+      step = "send"
+      const outputBalanceBefore = await this.getBalance(quote.outputToken, this.recipient)
+      const hash = await this.walletClient.sendTransaction({
+        account: this.account,
+        chain: this.walletClient.chain,
+        to: transaction.to,
+        data: transaction.data,
+        value: transaction.value,
+        gas: simulation?.gasEstimate,
+      })
+      await this.emit("sent", { hash, transaction })
+
+      step = "confirm"
+      const receipt = await this.publicClient.waitForTransactionReceipt({
+        hash,
+        confirmations: this.confirmations,
+      })
+      if (receipt.status !== "success") {
+        reverted = true
+        throw new TransactionRevertedError("confirm", `Swap transaction ${hash} reverted`, undefined, { hash })
+      }
+
+      step = "verify"
+      const [inputBalanceAfter, outputBalanceAfter] = await Promise.all([
+        this.getBalance(quote.inputToken, owner),
+        this.getBalance(quote.outputToken, this.recipient),
+      ])
+
+      // Native CAMP balances also moved by the gas fee, leave it out of the totals
+      const gasCost = receipt.gasUsed * receipt.effectiveGasPrice
+      const inputSpent = balance.balance - inputBalanceAfter - (quote.inputToken.isNative ? gasCost : 0n)
+      const outputReceived = outputBalanceAfter - outputBalanceBefore +
+        (quote.outputToken.isNative && isAddressEqual(this.recipient, owner) ? gasCost : 0n)
+      const realizedSlippagePercent = getRealizedSlippagePercent(quote, inputSpent, outputReceived)
+
+      const result: SwapExecutionResult = {
+        quote,
+        balance,
+        approval,
+        transaction,
+        requote,
+        simulation,
+        hash,
+        receipt,
+        verification: {
+          inputSpent,
+          outputReceived,
+          inputSpentFormatted: formatUnits(inputSpent, quote.inputToken.decimals),
+          outputReceivedFormatted: formatUnits(outputReceived, quote.outputToken.decimals),
+          realizedSlippagePercent,
+        },
+      }
+      this.instruments.swaps.inc({ outcome: "success" })
+      this.instruments.gasUsed.observe(Number(receipt.gasUsed))
+      this.instruments.realizedSlippage.observe(realizedSlippagePercent)
+      await this.emit("confirmed", result)
+      return result
+    } catch (error) {
+      const failure = error instanceof SwapExecutionError
+        ? error
+        : new SwapExecutionError(step, error instanceof Error ? error.message : String(error), error)
+      this.instruments.swaps.inc({ outcome: reverted ? "reverted" : "failed" })
+      this.instruments.failures.inc({ step: failure.step })
+      await this.emit("failed", { step: failure.step, error: failure })
+      throw failure
+    }
+  }
+
+  /**
+   * Compare the input balance with the most the swap can spend. For
+   * EXACT_OUTPUT that is the maximum input at the executor's slippage tolerance.
+   */
+  async checkBalance(quote: QuoteResult): Promise<BalanceCheckResult> {
+    const { maximumAmountIn: required } = this.getAmountBounds(quote)
+    const balance = await this.getBalance(quote.inputToken, this.account.address)
+    return { balance, required, sufficient: balance >= required }
+  }
+
+  /**
+   * The most the swap can spend and the least it must return, at the
+   * executor's slippage tolerance. These are the amounts the router call
+   * enforces, so the balance check, the approval and the simulation use them
+   * rather than the quote's own `maximumAmountIn` / `minimumReceived`, which
+   * follow the quoter's tolerance.
+   */
+  getAmountBounds(quote: QuoteResult): SwapAmountBounds {
+    if (!quote.rawTrade) {
+      throw new SwapExecutionError("send", "Quote has no raw trade data to build the swap from")
+    }
+    return {
+      maximumAmountIn: SmartRouter.maximumAmountIn(quote.rawTrade, this.slippageTolerance).quotient,
+      minimumAmountOut: SmartRouter.minimumAmountOut(quote.rawTrade, this.slippageTolerance).quotient,
+    }
+  }
+
+  /**
+   * Approve the router for the swap input if the allowance is too low.
+   * Native CAMP is sent as the transaction value and needs no approval.
+   * Tokens with an EIP-2612 permit get a signed permit (see `usePermit`),
+   * which `buildTransaction` bundles into the swap; others fall back to a
+   * classic approve transaction. Failures are thrown as AllowanceError.
+   */
+  async ensureApproval(quote: QuoteResult): Promise<ApprovalResult> {
+    try {
+      return await this.approveInput(quote)
+    } catch (error) {
+      if (error instanceof SwapExecutionError) {
+        throw error
+      }
+      throw new AllowanceError(
+        `Approving ${quote.inputToken.symbol} for the router failed: ${error instanceof Error ? error.message : error}`,
+        error,
+        { token: quote.inputToken.symbol, spender: this.routerAddress }
+      )
+    }
+  }
+
+  private async approveInput(quote: QuoteResult): Promise<ApprovalResult> {
+    const token = quote.inputToken
+    if (token.isNative) {
+      const result: ApprovalResult = { required: false, method: "none", allowance: 0n }
+      await this.emit("approved", result)
+      return result
+    }
+
+    const { maximumAmountIn: required } = this.getAmountBounds(quote)
+    const allowance = await this.publicClient.readContract({
+      address: token.address as Address,
+      abi: ERC20_ABI,
+      functionName: "allowance",
+      args: [this.account.address, this.routerAddress],
+    })
+
+    if (allowance >= required) {
+      const result: ApprovalResult = { required: false, method: "none", allowance }
+      await this.emit("approved", result)
+      return result
+    }
+
+    const amount = getApprovalAmount(required, this.approvalStrategy, this.approvalBufferPercent)
+    const permitDomain = this.usePermit ? await getPermitDomain(this.publicClient, token) : null
+    if (permitDomain) {
+      await this.emit("approving", { token, spender: this.routerAddress, amount, method: "permit" })
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + this.deadlineSeconds)
+      const permit = await signPermit(
+        this.walletClient,
+        this.publicClient,
+        this.account,
+        permitDomain,
+        this.routerAddress,
+        amount,
+        deadline
+      )
+
+      const result: ApprovalResult = { required: true, method: "permit", allowance, amount, permit }
+      await this.emit("approved", result)
+      return result
+    }
+
+    await this.emit("approving", { token, spender: this.routerAddress, amount, method: "approve" })
+    const approval = await approveToken(
+      this.walletClient,
+      this.publicClient,
+      this.account,
+      token,
+      this.routerAddress,
+      amount,
+      this.confirmations
+    )
+
+    const result: ApprovalResult = {
+      required: true,
+      method: "approve",
+      allowance,
+      amount,
+      hash: approval.hash,
+      resetHash: approval.resetHash,
+      blockNumber: approval.blockNumber,
+    }
+    await this.emit("approved", result)
+    return result
+  }
+
+  /**
+   * Re-quote the swap when the requote policy asks for it. Returns undefined
+   * when the quote is used as is. Throws when the quote is stale and cannot
+   * be re-quoted, or when the re-quote is worse than maxRequoteDeviationPercent
+   * and `confirmRequote` does not accept it.
+   */
+  async refreshQuote(quote: QuoteResult): Promise<RequoteResult | undefined> {
+    const ageSeconds = getQuoteAgeSeconds(quote)
+    const stale = ageSeconds > this.maxQuoteAgeSeconds
+    if (!stale && this.requotePolicy !== "always") {
+      return undefined
+    }
+    if (!this.quoter || this.requotePolicy === "never") {
+      throw new SwapExecutionError(
+        "requote",
+        `Quote is ${Math.round(ageSeconds)}s old (max ${this.maxQuoteAgeSeconds}s); quote again or pass a quoter to re-quote`
+      )
+    }
+
+    let current: QuoteResult
+    try {
+      current = await this.quoter.requote(quote)
+    } catch (error) {
+      throw new SwapExecutionError(
+        "requote",
+        `Re-quoting ${quote.inputToken.symbol} -> ${quote.outputToken.symbol} failed: ${error instanceof Error ? error.message : error}`,
+        error
+      )
+    }
+
+    const deviationPercent = getQuoteDeviationPercent(quote, current)
+    const requote: RequoteResult = {
+      previous: quote,
+      quote: current,
+      ageSeconds,
+      deviationPercent,
+      exceedsThreshold: deviationPercent > this.maxRequoteDeviationPercent,
+    }
+    await this.emit("requoted", requote)
+
+    if (requote.exceedsThreshold && !(await this.confirmRequote?.(requote))) {
+      throw new SlippageExceededError(
+        "requote",
+        `Re-quote is ${deviationPercent}% worse than the original quote (max ${this.maxRequoteDeviationPercent}%)`,
+        undefined,
+        { deviationPercent, maxDeviationPercent: this.maxRequoteDeviationPercent }
+      )
+    }
+    return requote
+  }
+
+  /**
+   * Dry-run the router call with eth_call and estimateGas. Throws a
+   * TransactionRevertedError with the decoded revert reason if it would
+   * revert, or a SlippageExceededError if the simulated amount is outside
+   * the executor's slippage bound (see `getAmountBounds`).
+   */
+  async simulate(quote: QuoteResult, transaction = this.buildTransaction(quote)): Promise<SwapSimulationResult> {
+    try {
+      const simulation = await simulateSwap(
+        this.publicClient,
+        this.account,
+        quote,
+        transaction,
+        this.getAmountBounds(quote)
+      )
+      await this.emit("simulated", simulation)
+      return simulation
+    } catch (error) {
+      if (error instanceof SwapSimulationError && error.reason !== undefined) {
+        throw new TransactionRevertedError("simulate", error.message, error, { reason: error.reason })
+      }
+      if (error instanceof SwapSimulationError && error.simulatedAmount !== undefined) {
+        throw new SlippageExceededError("simulate", error.message, error, {
+          simulatedAmount: error.simulatedAmount.toString(),
+        })
+      }
+      if (error instanceof SwapSimulationError) {
+        throw new SwapExecutionError("simulate", error.message, error)
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Build the router call for a quote. For native CAMP input the call carries
+   * the CAMP as value; for native CAMP output it ends with an unwrap of WCAMP.
+   * A permit for the input token is prepended as a selfPermit call.
+   */
+  buildTransaction(quote: QuoteResult, permit?: PermitSignature): SwapTransactionRequest {
+    if (!quote.rawTrade) {
+      throw new SwapExecutionError("send", "Quote has no raw trade data to build the swap from")
+    }
+
+    const deadline = Math.floor(Date.now() / 1000) + this.deadlineSeconds
+    const { calldata, value } = SwapRouter.swapCallParameters(quote.rawTrade, {
+      slippageTolerance: this.slippageTolerance,
+      recipient: this.recipient,
+      deadlineOrPreviousBlockhash: deadline,
+      inputTokenPermit: permit,
+    })
+
+    return {
+      to: this.routerAddress,
+      data: calldata as Hex,
+      value: BigInt(value),
+      deadline,
+    }
+  }
+
+  // Native CAMP lives in the account balance, everything else is an ERC20
+  private async getBalance(currency: Currency, owner: Address): Promise<bigint> {
+    if (currency.isNative) {
+      return this.publicClient.getBalance({ address: owner })
+    }
+
+    return this.publicClient.readContract({
+      address: currency.address as Address,
+      abi: ERC20_ABI,
+      functionName: "balanceOf",
+      args: [owner],
+    })
+  }
+
+  private async emit<E extends keyof SwapExecutorEvents>(event: E, payload: SwapExecutorEvents[E]): Promise<void> {
+    for (const handler of [...(this.handlers[event] ?? [])] as Array<SwapExecutorEventHandler<E>>) {
+      await handler(payload)
+    }
+  }
+}
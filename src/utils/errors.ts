@@ -0,0 +1,179 @@
+import type { SwapStep } from "../swap/swap-executor"
+import { isTransientRpcError } from "./failover-transport"
+
+/**
+ * Errors thrown by the quoter and swap executor. Each carries a stable
+ * `code`, the `context` it happened in (tokens, amounts, hashes) and
+ * whether trying again later can succeed (`retryable`).
+ */
+
+export type SummitXErrorCode =
+  | "NO_ROUTE"
+  | "INSUFFICIENT_LIQUIDITY"
+  | "SUBGRAPH_UNAVAILABLE"
+  | "RPC_ERROR"
+  | "INSUFFICIENT_BALANCE"
+  | "ALLOWANCE_ERROR"
+  | "SLIPPAGE_EXCEEDED"
+  | "TRANSACTION_REVERTED"
+  | "SWAP_FAILED"
+
+export type ErrorContext = Record<string, unknown>
+
+export abstract class SummitXError extends Error {
+  abstract readonly code: SummitXErrorCode
+  abstract readonly retryable: boolean
+
+  constructor(
+    message: string,
+    readonly context: ErrorContext = {},
+    cause?: unknown
+  ) {
+    super(message, { cause })
+  }
+
+  toJSON(): { code: SummitXErrorCode; message: string; retryable: boolean; context: ErrorContext } {
+    return { code: this.code, message: this.message, retryable: this.retryable, context: this.context }
+  }
+}
+
+/**
+ * Whether an operation that failed with `error` may succeed when tried
+ * again: SummitX errors say so themselves, other errors are retryable when
+ * they are transient RPC failures (see isTransientRpcError)
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof SummitXError) {
+    return error.retryable
+  }
+  return isTransientRpcError(error)
+}
+
+/**
+ * The candidate pools do not connect the two tokens
+ */
+export class NoRouteError extends SummitXError {
+  readonly code = "NO_ROUTE"
+  readonly retryable = false
+
+  constructor(message: string, context?: ErrorContext, cause?: unknown) {
+    super(message, context, cause)
+    this.name = "NoRouteError"
+  }
+}
+
+/**
+ * The tokens are connected, but the pools cannot fill the amount, or only at
+ * a price impact above the quoter's maximum
+ */
+export class InsufficientLiquidityError extends SummitXError {
+  readonly code = "INSUFFICIENT_LIQUIDITY"
+  readonly retryable = false
+
+  constructor(message: string, context?: ErrorContext, cause?: unknown) {
+    super(message, context, cause)
+    this.name = "InsufficientLiquidityError"
+  }
+}
+
+/**
+ * A subgraph request for candidate pools failed
+ */
+export class SubgraphUnavailableError extends SummitXError {
+  readonly code = "SUBGRAPH_UNAVAILABLE"
+  readonly retryable = true
+
+  constructor(message: string, context?: ErrorContext, cause?: unknown) {
+    super(message, context, cause)
+    this.name = "SubgraphUnavailableError"
+  }
+}
+
+/**
+ * An RPC call failed. Retryable when the cause is a transport failure or a
+ * rate limit rather than, say, a contract revert.
+ */
+export class RpcError extends SummitXError {
+  readonly code = "RPC_ERROR"
+  readonly retryable: boolean
+
+  constructor(message: string, context?: ErrorContext, cause?: unknown) {
+    super(message, context, cause)
+    this.name = "RpcError"
+    this.retryable = isTransientRpcError(cause)
+  }
+}
+
+/**
+ * Error raised by SwapExecutor, tagged with the step that failed. The
+ * subclasses below cover the failures callers usually handle; anything else
+ * is retryable when its cause is.
+ */
+export class SwapExecutionError extends SummitXError {
+  readonly code: SummitXErrorCode = "SWAP_FAILED"
+  readonly retryable: boolean
+
+  constructor(
+    readonly step: SwapStep,
+    message: string,
+    cause?: unknown,
+    context?: ErrorContext
+  ) {
+    super(message, context, cause)
+    this.name = "SwapExecutionError"
+    this.retryable = isRetryableError(cause)
+  }
+}
+
+/**
+ * The wallet holds less of the input token than the swap can spend
+ */
+export class InsufficientBalanceError extends SwapExecutionError {
+  readonly code = "INSUFFICIENT_BALANCE"
+  readonly retryable = false
+
+  constructor(message: string, context?: ErrorContext) {
+    super("balance", message, undefined, context)
+    this.name = "InsufficientBalanceError"
+  }
+}
+
+/**
+ * Reading the allowance, signing a permit or approving the router failed
+ */
+export class AllowanceError extends SwapExecutionError {
+  readonly code = "ALLOWANCE_ERROR"
+
+  constructor(message: string, cause?: unknown, context?: ErrorContext) {
+    super("approval", message, cause, context)
+    this.name = "AllowanceError"
+  }
+}
+
+/**
+ * The price moved beyond what the swap accepts: a re-quote worse than the
+ * allowed deviation, or a simulated amount outside the slippage bound.
+ * Quoting again at the new price may succeed.
+ */
+export class SlippageExceededError extends SwapExecutionError {
+  readonly code = "SLIPPAGE_EXCEEDED"
+  readonly retryable = true
+
+  constructor(step: SwapStep, message: string, cause?: unknown, context?: ErrorContext) {
+    super(step, message, cause, context)
+    this.name = "SlippageExceededError"
+  }
+}
+
+/**
+ * The swap reverted, in simulation or on chain
+ */
+export class TransactionRevertedError extends SwapExecutionError {
+  readonly code = "TRANSACTION_REVERTED"
+  readonly retryable = false
+
+  constructor(step: SwapStep, message: string, cause?: unknown, context?: ErrorContext) {
+    super(step, message, cause, context)
+    this.name = "TransactionRevertedError"
+  }
+}
@@ -0,0 +1,253 @@
+import {
+  BaseError,
+  custom,
+  http,
+  HttpRequestError,
+  RpcRequestError,
+  TimeoutError,
+  type EIP1193RequestFn,
+  type Transport,
+} from "viem"
+
+import { logger } from "./logger"
+
+export interface RpcEndpointConfig {
+  url: string
+  maxRequestsPerSecond?: number // requests beyond this are spread to other endpoints or delayed
+  timeoutMs?: number // overrides FailoverTransportOptions.timeoutMs for this endpoint
+}
+
+export type RpcEndpointStrategy =
+  | "failover" // always prefer the first healthy endpoint, in configured order
+  | "round-robin" // spread requests evenly over healthy endpoints
+  | "lowest-latency" // prefer the healthy endpoint with the lowest average latency
+
+export interface FailoverTransportOptions {
+  strategy?: RpcEndpointStrategy // default "failover"
+  timeoutMs?: number // per-request timeout (default 10s)
+  maxConsecutiveFailures?: number // failures before an endpoint is marked unhealthy (default 3)
+  cooldownMs?: number // how long an unhealthy endpoint is skipped (default 30s)
+}
+
+export interface RpcEndpointHealth {
+  url: string
+  healthy: boolean
+  consecutiveFailures: number
+  totalRequests: number
+  totalFailures: number
+  averageLatencyMs: number | null // exponential moving average of successful requests
+  lastError?: string
+  lastFailureAt?: number
+}
+
+type EndpointRequest = (args: { method: string; params?: unknown }) => Promise<unknown>
+
+interface EndpointState extends RpcEndpointHealth {
+  request: EndpointRequest
+  minIntervalMs: number // 1000 / maxRequestsPerSecond, 0 when unlimited
+  nextSlotAt: number
+  unhealthyUntil: number
+}
+
+// Weight of the newest sample in the latency moving average
+const LATENCY_SMOOTHING = 0.2
+
+// JSON-RPC codes that mean "this node can't serve you right now" rather than
+// "this request is invalid", so another endpoint may succeed. -32603 (internal
+// error) is left out: several nodes return it for reverts in eth_call and
+// estimateGas, which every other endpoint would repeat.
+const RETRYABLE_RPC_CODES = new Set([-32005, 429])
+
+// A send that timed out may still have been broadcast, so it is never repeated on another endpoint
+const WRITE_METHODS = new Set(["eth_sendRawTransaction", "eth_sendTransaction"])
+
+/**
+ * Whether a viem client error was caused by the transport (HTTP failure,
+ * timeout) or by one of the RETRYABLE_RPC_CODES, so a later attempt may
+ * succeed. False for contract reverts and anything that is not a viem error.
+ * viem reports network failures (DNS, connection resets, ...) as
+ * HttpRequestError, and wraps JSON-RPC errors (e.g. in InternalRpcError)
+ * around the RpcRequestError that carries the code.
+ */
+export function isTransientRpcError(error: unknown): boolean {
+  if (!(error instanceof BaseError)) {
+    return false
+  }
+  const cause = error.walk(e =>
+    e instanceof HttpRequestError || e instanceof TimeoutError || e instanceof RpcRequestError
+  )
+  if (!cause) {
+    return false
+  }
+  return cause instanceof RpcRequestError ? RETRYABLE_RPC_CODES.has(cause.code) : true
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Set of RPC endpoints with health tracking, latency measurement and
+ * per-endpoint rate limits. Requests go to the preferred healthy endpoint
+ * and move on to the next one on transport errors or timeouts. Transaction
+ * sends are tried on one endpoint only.
+ */
+export class RpcEndpointPool {
+  private endpoints: EndpointState[]
+  private readonly strategy: RpcEndpointStrategy
+  private readonly maxConsecutiveFailures: number
+  private readonly cooldownMs: number
+  private nextIndex = 0
+
+  constructor(endpoints: Array<string | RpcEndpointConfig>, options: FailoverTransportOptions = {}) {
+    if (endpoints.length === 0) {
+      throw new Error("RpcEndpointPool needs at least one endpoint")
+    }
+
+    this.strategy = options.strategy ?? "failover"
+    this.maxConsecutiveFailures = options.maxConsecutiveFailures ?? 3
+    this.cooldownMs = options.cooldownMs ?? 30_000
+
+    this.endpoints = endpoints.map((endpoint) => {
+      const config = typeof endpoint === "string" ? { url: endpoint } : endpoint
+      const transport = http(config.url, {
+        timeout: config.timeoutMs ?? options.timeoutMs ?? 10_000,
+        retryCount: 0, // the pool does its own retrying across endpoints
+      })({ chain: undefined })
+
+      return {
+        url: config.url,
+        request: transport.request as EndpointRequest,
+        minIntervalMs: config.maxRequestsPerSecond ? 1000 / config.maxRequestsPerSecond : 0,
+        nextSlotAt: 0,
+        unhealthyUntil: 0,
+        healthy: true,
+        consecutiveFailures: 0,
+        totalRequests: 0,
+        totalFailures: 0,
+        averageLatencyMs: null,
+      }
+    })
+  }
+
+  /**
+   * Send a JSON-RPC request, failing over between endpoints. Write methods
+   * are not failed over: their error is thrown from the first endpoint.
+   */
+  async request(args: { method: string; params?: unknown }): Promise<unknown> {
+    const failover = !WRITE_METHODS.has(args.method)
+    let lastError: unknown
+
+    for (const endpoint of this.orderedEndpoints()) {
+      await this.waitForSlot(endpoint)
+
+      const startedAt = Date.now()
+      endpoint.totalRequests++
+      try {
+        const result = await endpoint.request(args)
+        this.recordSuccess(endpoint, Date.now() - startedAt)
+        return result
+      } catch (error) {
+        if (!isTransientRpcError(error)) {
+          // The endpoint answered; the request itself is bad (e.g. a revert)
+          this.recordSuccess(endpoint, Date.now() - startedAt)
+          throw error
+        }
+        this.recordFailure(endpoint, error)
+        if (!failover) {
+          throw error
+        }
+        lastError = error
+        logger.debug(`RPC ${args.method} failed on ${endpoint.url}, trying next endpoint`, {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+
+    throw lastError
+  }
+
+  /**
+   * Current health and latency of every endpoint
+   */
+  health(): RpcEndpointHealth[] {
+    const now = Date.now()
+    return this.endpoints.map(({ request: _request, minIntervalMs: _min, nextSlotAt: _next, unhealthyUntil, ...health }) => ({
+      ...health,
+      healthy: unhealthyUntil <= now,
+    }))
+  }
+
+  /**
+   * Endpoints in the order they should be tried: healthy ones by strategy,
+   * then unhealthy ones (soonest to recover first) as a last resort
+   */
+  private orderedEndpoints(): EndpointState[] {
+    const now = Date.now()
+    const healthy = this.endpoints.filter(endpoint => endpoint.unhealthyUntil <= now)
+    const unhealthy = this.endpoints
+      .filter(endpoint => endpoint.unhealthyUntil > now)
+      .sort((a, b) => a.unhealthyUntil - b.unhealthyUntil)
+
+    let preferred = healthy
+    if (this.strategy === "round-robin" && healthy.length > 0) {
+      const start = this.nextIndex++ % healthy.length
+      preferred = [...healthy.slice(start), ...healthy.slice(0, start)]
+    } else if (this.strategy === "lowest-latency") {
+      // Unmeasured endpoints go first so they get a latency sample
+      preferred = [...healthy].sort((a, b) => (a.averageLatencyMs ?? -1) - (b.averageLatencyMs ?? -1))
+    }
+
+    // Within the preference order, skip endpoints that are at their rate limit
+    const ready = preferred.filter(endpoint => endpoint.nextSlotAt <= now)
+    const throttled = preferred
+      .filter(endpoint => endpoint.nextSlotAt > now)
+      .sort((a, b) => a.nextSlotAt - b.nextSlotAt)
+
+    return [...ready, ...throttled, ...unhealthy]
+  }
+
+  private async waitForSlot(endpoint: EndpointState): Promise<void> {
+    if (endpoint.minIntervalMs === 0) {
+      return
+    }
+
+    const now = Date.now()
+    const slot = Math.max(now, endpoint.nextSlotAt)
+    endpoint.nextSlotAt = slot + endpoint.minIntervalMs
+    if (slot > now) {
+      await sleep(slot - now)
+    }
+  }
+
+  private recordSuccess(endpoint: EndpointState, latencyMs: number): void {
+    endpoint.consecutiveFailures = 0
+    endpoint.unhealthyUntil = 0
+    endpoint.averageLatencyMs = endpoint.averageLatencyMs === null
+      ? latencyMs
+      : endpoint.averageLatencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING
+  }
+
+  private recordFailure(endpoint: EndpointState, error: unknown): void {
+    endpoint.consecutiveFailures++
+    endpoint.totalFailures++
+    endpoint.lastError = error instanceof Error ? error.message : String(error)
+    endpoint.lastFailureAt = Date.now()
+
+    if (endpoint.consecutiveFailures >= this.maxConsecutiveFailures) {
+      endpoint.unhealthyUntil = Date.now() + this.cooldownMs
+      logger.warn(`RPC endpoint ${endpoint.url} marked unhealthy for ${this.cooldownMs}ms`, {
+        consecutiveFailures: endpoint.consecutiveFailures,
+        lastError: endpoint.lastError,
+      })
+    }
+  }
+}
+
+/**
+ * viem transport that sends every request through an RpcEndpointPool
+ */
+export function createFailoverTransport(pool: RpcEndpointPool): Transport {
+  return custom(
+    { request: (args => pool.request(args)) as EIP1193RequestFn },
+    { retryCount: 0 } // failover already retries on other endpoints
+  )
+}
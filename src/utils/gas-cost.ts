@@ -0,0 +1,53 @@
+import { SmartRouter, PoolType, type Pool, type Route } from "@summitx/smart-router/evm"
+import { Fraction, type Token } from "@summitx/swap-sdk-core"
+
+function poolTokens(pool: Pool): Token[] {
+  switch (pool.type) {
+    case PoolType.V2:
+      return [pool.reserve0.currency.wrapped, pool.reserve1.currency.wrapped]
+    case PoolType.V3:
+      return [pool.token0.wrapped, pool.token1.wrapped]
+    default:
+      return pool.balances.map(balance => balance.currency.wrapped)
+  }
+}
+
+function midPriceThrough(pools: Pool[], path: Token[]): Fraction {
+  // getMidPrice only reads `path` and `pools`
+  return SmartRouter.getMidPrice({ path, pools } as unknown as Route).asFraction
+}
+
+/**
+ * Spot price of the wrapped native token in `token`, in raw units per raw
+ * unit, taken from the candidate pools. Uses a direct pool when there is one,
+ * otherwise a single intermediate token. Returns null if neither exists.
+ */
+export function getNativePriceInToken(pools: Pool[], wrappedNative: Token, token: Token): Fraction | null {
+  if (token.equals(wrappedNative)) {
+    return new Fraction(1)
+  }
+
+  const withNative = pools.filter(pool => SmartRouter.involvesCurrency(pool, wrappedNative))
+
+  const direct = withNative.find(pool => SmartRouter.involvesCurrency(pool, token))
+  if (direct) {
+    return midPriceThrough([direct], [wrappedNative, token])
+  }
+
+  for (const first of withNative) {
+    for (const intermediate of poolTokens(first)) {
+      if (intermediate.equals(wrappedNative)) continue
+
+      const second = pools.find(pool =>
+        pool !== first &&
+        SmartRouter.involvesCurrency(pool, intermediate) &&
+        SmartRouter.involvesCurrency(pool, token)
+      )
+      if (second) {
+        return midPriceThrough([first, second], [wrappedNative, intermediate, token])
+      }
+    }
+  }
+
+  return null
+}
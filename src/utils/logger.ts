@@ -1,91 +1,330 @@
+import { appendFileSync, mkdirSync } from "fs"
+import { dirname } from "path"
 import chalk from "chalk"
 
 export type LogLevel = "info" | "success" | "warn" | "error" | "debug"
 
-class Logger {
-  private timestamp(): string {
-    return new Date().toISOString()
-  }
-
-  private formatMessage(level: LogLevel, message: string, data?: any): string {
-    const timestamp = chalk.gray(`[${this.timestamp()}]`)
-    const levelTag = this.getLevelTag(level)
-    
-    let output = `${timestamp} ${levelTag} ${message}`
-    
-    if (data) {
-      if (typeof data === "object") {
-        // Handle BigInt serialization
-        const replacer = (key: string, value: any) => {
-          if (typeof value === 'bigint') {
-            return value.toString()
-          }
-          return value
-        }
-        output += "\n" + JSON.stringify(data, replacer, 2)
-      } else {
-        output += ` ${data}`
-      }
-    }
-    
-    return output
-  }
-
-  private getLevelTag(level: LogLevel): string {
-    switch (level) {
-      case "info":
-        return chalk.blue("[INFO]")
-      case "success":
-        return chalk.green("[SUCCESS]")
-      case "warn":
-        return chalk.yellow("[WARN]")
-      case "error":
-        return chalk.red("[ERROR]")
-      case "debug":
-        return chalk.gray("[DEBUG]")
-      default:
-        return "[LOG]"
+// "success" is an info message rendered differently
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  success: 20,
+  warn: 30,
+  error: 40,
+}
+
+export type MinLogLevel = Exclude<LogLevel, "success"> | "silent"
+
+export type LogFormat = "pretty" | "json" // coloured multi-line text, or one JSON object per line
+
+export type LogContext = Record<string, unknown>
+
+export interface LogRecord {
+  time: string // ISO timestamp
+  level: LogLevel
+  message: string
+  context: LogContext // bound with Logger.child
+  data?: unknown
+  decoration?: "header" | "divider" // from Logger.header/divider, only drawn in pretty format
+}
+
+export interface LogTransport {
+  write(record: LogRecord): void
+}
+
+export interface LoggerOptions {
+  level?: MinLogLevel // default: LOG_LEVEL, or "debug" when DEBUG is set, else "info"
+  format?: LogFormat // format of the default console transport (default: LOG_FORMAT or "pretty")
+  transports?: LogTransport[] // default: a ConsoleTransport
+  context?: LogContext
+}
+
+export interface ConsoleTransportOptions {
+  format?: LogFormat // default: LOG_FORMAT or "pretty"
+  stderr?: boolean // write every level to stderr, e.g. when stdout carries command output
+}
+
+export interface FileTransportOptions {
+  format?: LogFormat // default "json"
+}
+
+function bigintReplacer(_key: string, value: unknown): unknown {
+  return typeof value === "bigint" ? value.toString() : value
+}
+
+function serializeError(error: Error): Record<string, unknown> {
+  return {
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+    ...(error.cause !== undefined && {
+      cause: error.cause instanceof Error ? serializeError(error.cause) : error.cause,
+    }),
+  }
+}
+
+function levelTag(level: LogLevel): string {
+  switch (level) {
+    case "info":
+      return chalk.blue("[INFO]")
+    case "success":
+      return chalk.green("[SUCCESS]")
+    case "warn":
+      return chalk.yellow("[WARN]")
+    case "error":
+      return chalk.red("[ERROR]")
+    case "debug":
+      return chalk.gray("[DEBUG]")
+    default:
+      return "[LOG]"
+  }
+}
+
+const DIVIDER = "─".repeat(60)
+
+/**
+ * Timestamp, level, message and bound context on one line, object data
+ * pretty-printed as JSON on the lines after it. Headers and dividers are
+ * drawn as rules around the title instead.
+ */
+export function formatPretty(record: LogRecord): string {
+  if (record.decoration === "divider") {
+    return chalk.gray(DIVIDER)
+  }
+  if (record.decoration === "header") {
+    return [chalk.gray(DIVIDER), chalk.bold.white(record.message), chalk.gray(DIVIDER)].join("\n")
+  }
+
+  const timestamp = chalk.gray(`[${record.time}]`)
+  const context = Object.entries(record.context)
+    .map(([key, value]) => `${key}=${typeof value === "string" ? value : JSON.stringify(value, bigintReplacer)}`)
+    .join(" ")
+
+  let output = `${timestamp} ${levelTag(record.level)} ${record.message}`
+  if (context) {
+    output += ` ${chalk.gray(`(${context})`)}`
+  }
+
+  const { data } = record
+  if (data) {
+    if (typeof data === "object") {
+      output += "\n" + JSON.stringify(data, bigintReplacer, 2)
+    } else {
+      output += ` ${data}`
     }
   }
 
-  info(message: string, data?: any): void {
-    console.log(this.formatMessage("info", message, data))
+  return output
+}
+
+/**
+ * One JSON object per record, without newlines, for log aggregation. Context
+ * fields are top-level keys; they cannot override time, level or message.
+ * A header is a plain record with its title as the message.
+ */
+export function formatJson(record: LogRecord): string {
+  return JSON.stringify(
+    {
+      ...record.context,
+      time: record.time,
+      level: record.level,
+      message: record.message,
+      ...(record.data !== undefined && { data: record.data }),
+    },
+    bigintReplacer
+  )
+}
+
+function defaultLevel(): MinLogLevel {
+  const level = process.env.LOG_LEVEL
+  if (level === "debug" || level === "info" || level === "warn" || level === "error" || level === "silent") {
+    return level
+  }
+  return process.env.DEBUG ? "debug" : "info"
+}
+
+function defaultFormat(): LogFormat {
+  return process.env.LOG_FORMAT === "json" ? "json" : "pretty"
+}
+
+// Undefined for dividers in json format, which carry nothing to aggregate
+function formatRecord(record: LogRecord, format: LogFormat): string | undefined {
+  if (format === "json") {
+    return record.decoration === "divider" ? undefined : formatJson(record)
   }
+  return formatPretty(record)
+}
 
-  success(message: string, data?: any): void {
-    console.log(this.formatMessage("success", message, data))
+/**
+ * Writes to the console: errors to console.error, warnings to console.warn,
+ * everything else to console.log
+ */
+export class ConsoleTransport implements LogTransport {
+  private readonly formatOverride?: LogFormat
+  private readonly stderr: boolean
+
+  constructor(options: ConsoleTransportOptions = {}) {
+    this.formatOverride = options.format
+    this.stderr = options.stderr ?? false
   }
 
-  warn(message: string, data?: any): void {
-    console.warn(this.formatMessage("warn", message, data))
+  // Resolved per record when unset, so LOG_FORMAT loaded from .env after import still applies
+  get format(): LogFormat {
+    return this.formatOverride ?? defaultFormat()
   }
 
-  error(message: string, error?: any): void {
-    if (error instanceof Error) {
-      console.error(this.formatMessage("error", message, {
-        message: error.message,
-        stack: error.stack,
-      }))
+  write(record: LogRecord): void {
+    const line = formatRecord(record, this.format)
+    if (line === undefined) {
+      return
+    }
+    if (record.level === "error" || this.stderr) {
+      console.error(line)
+    } else if (record.level === "warn") {
+      console.warn(line)
     } else {
-      console.error(this.formatMessage("error", message, error))
+      console.log(line)
     }
   }
+}
+
+/**
+ * Appends every record to a file, creating its directory if needed
+ */
+export class FileTransport implements LogTransport {
+  readonly format: LogFormat
+
+  constructor(
+    readonly filePath: string,
+    options: FileTransportOptions = {}
+  ) {
+    this.format = options.format ?? "json"
+    mkdirSync(dirname(filePath), { recursive: true })
+  }
+
+  write(record: LogRecord): void {
+    const line = formatRecord(record, this.format)
+    if (line !== undefined) {
+      appendFileSync(this.filePath, line + "\n")
+    }
+  }
+}
+
+/**
+ * Keeps records in memory, e.g. to assert on logs in tests
+ */
+export class MemoryTransport implements LogTransport {
+  readonly records: LogRecord[] = []
+
+  write(record: LogRecord): void {
+    this.records.push(record)
+  }
 
-  debug(message: string, data?: any): void {
-    if (process.env.DEBUG) {
-      console.log(this.formatMessage("debug", message, data))
+  clear(): void {
+    this.records.length = 0
+  }
+}
+
+// Shared by a logger and its children, so configure() applies to all of them
+interface LoggerState {
+  level?: MinLogLevel
+  format?: LogFormat
+  transports: LogTransport[]
+}
+
+export class Logger {
+  private state: LoggerState = { transports: [] }
+  readonly context: LogContext
+
+  constructor(options: LoggerOptions = {}) {
+    this.context = options.context ?? {}
+    this.configure(options)
+  }
+
+  /**
+   * Change the level, format or transports of this logger and every child
+   * created from it. Unset options keep their current value; a format
+   * without transports switches to a console transport in that format.
+   */
+  configure(options: Omit<LoggerOptions, "context">): void {
+    if (options.level !== undefined) {
+      this.state.level = options.level
+    }
+    if (options.transports) {
+      this.state.transports = options.transports
+      this.state.format = options.format ?? this.state.format
+    } else if (options.format || this.state.transports.length === 0) {
+      this.state.format = options.format
+      this.state.transports = [new ConsoleTransport({ format: options.format })]
     }
   }
 
+  /**
+   * A logger that adds `context` to every record, sharing this logger's
+   * level and transports
+   */
+  child(context: LogContext): Logger {
+    const child = new Logger({ context: { ...this.context, ...context }, transports: [] })
+    child.state = this.state
+    return child
+  }
+
+  // Resolved per call when unset, like the console transport's format
+  get level(): MinLogLevel {
+    return this.state.level ?? defaultLevel()
+  }
+
+  get format(): LogFormat {
+    return this.state.format ?? defaultFormat()
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    const minimum = this.level
+    return minimum !== "silent" && LEVEL_PRIORITY[level] >= LEVEL_PRIORITY[minimum]
+  }
+
+  info(message: string, data?: unknown): void {
+    this.log("info", message, data)
+  }
+
+  success(message: string, data?: unknown): void {
+    this.log("success", message, data)
+  }
+
+  warn(message: string, data?: unknown): void {
+    this.log("warn", message, data)
+  }
+
+  error(message: string, error?: unknown): void {
+    this.log("error", message, error instanceof Error ? serializeError(error) : error)
+  }
+
+  debug(message: string, data?: unknown): void {
+    this.log("debug", message, data)
+  }
+
+  // Info records that pretty transports draw as rules; json transports keep only the header title
   divider(): void {
-    console.log(chalk.gray("─".repeat(60)))
+    this.log("info", "", undefined, "divider")
   }
 
   header(title: string): void {
-    this.divider()
-    console.log(chalk.bold.white(title))
-    this.divider()
+    this.log("info", title, undefined, "header")
+  }
+
+  private log(level: LogLevel, message: string, data: unknown, decoration?: LogRecord["decoration"]): void {
+    if (!this.isLevelEnabled(level)) {
+      return
+    }
+
+    const record: LogRecord = { time: new Date().toISOString(), level, message, context: this.context, data }
+    if (decoration) {
+      record.decoration = decoration
+    }
+    for (const transport of this.state.transports) {
+      transport.write(record)
+    }
   }
 }
 
-export const logger = new Logger()
\ No newline at end of file
+export const logger = new Logger()
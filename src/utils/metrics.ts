@@ -0,0 +1,246 @@
+/**
+ * Counters and histograms kept in process and rendered in the Prometheus
+ * text exposition format. The quoter and swap executor record into the
+ * shared `metrics` registry unless given their own.
+ */
+
+export type MetricLabels = Record<string, string>
+
+export type MetricType = "counter" | "histogram"
+
+export interface MetricOptions {
+  name: string // Prometheus metric name, e.g. summitx_quotes_total
+  help: string
+  labelNames?: string[]
+}
+
+export interface HistogramOptions extends MetricOptions {
+  buckets?: number[] // upper bounds, ascending (default LATENCY_BUCKETS_SECONDS)
+}
+
+export interface HistogramValue {
+  count: number
+  sum: number
+  buckets: Array<{ le: number; count: number }> // cumulative, like Prometheus
+}
+
+export interface MetricSnapshot {
+  name: string
+  help: string
+  type: MetricType
+  values: Array<{ labels: MetricLabels; value: number | HistogramValue }>
+}
+
+// Request latencies from tens of milliseconds to a stalled RPC
+export const LATENCY_BUCKETS_SECONDS = [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+
+abstract class Metric<V> {
+  abstract readonly type: MetricType
+  readonly name: string
+  readonly help: string
+  readonly labelNames: string[]
+  protected series = new Map<string, { labels: MetricLabels; value: V }>()
+
+  constructor(options: MetricOptions) {
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(options.name)) {
+      throw new Error(`Invalid metric name ${options.name}`)
+    }
+    this.name = options.name
+    this.help = options.help
+    this.labelNames = options.labelNames ?? []
+  }
+
+  reset(): void {
+    this.series.clear()
+  }
+
+  snapshot(): MetricSnapshot {
+    return {
+      name: this.name,
+      help: this.help,
+      type: this.type,
+      values: [...this.series.values()].map(({ labels, value }) => ({ labels, value: this.exportValue(value) })),
+    }
+  }
+
+  protected abstract exportValue(value: V): number | HistogramValue
+
+  // Series are keyed by their label values in labelNames order
+  protected seriesFor(labels: MetricLabels, create: () => V): { labels: MetricLabels; value: V } {
+    for (const name of Object.keys(labels)) {
+      if (!this.labelNames.includes(name)) {
+        throw new Error(`Unknown label "${name}" for metric ${this.name}`)
+      }
+    }
+    const key = this.labelNames.map(name => labels[name] ?? "").join("\u0000")
+    let entry = this.series.get(key)
+    if (!entry) {
+      entry = { labels: Object.fromEntries(this.labelNames.map(name => [name, labels[name] ?? ""])), value: create() }
+      this.series.set(key, entry)
+    }
+    return entry
+  }
+
+  protected findSeries(labels: MetricLabels): V | undefined {
+    return this.series.get(this.labelNames.map(name => labels[name] ?? "").join("\u0000"))?.value
+  }
+}
+
+export class Counter extends Metric<{ total: number }> {
+  readonly type = "counter"
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} can only increase, got ${value}`)
+    }
+    this.seriesFor(labels, () => ({ total: 0 })).value.total += value
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.findSeries(labels)?.total ?? 0
+  }
+
+  protected exportValue(value: { total: number }): number {
+    return value.total
+  }
+}
+
+interface HistogramSeries {
+  count: number
+  sum: number
+  bucketCounts: number[] // per bucket, not cumulative
+}
+
+export class Histogram extends Metric<HistogramSeries> {
+  readonly type = "histogram"
+  readonly buckets: number[]
+
+  constructor(options: HistogramOptions) {
+    super(options)
+    this.buckets = [...(options.buckets ?? LATENCY_BUCKETS_SECONDS)].sort((a, b) => a - b)
+  }
+
+  observe(value: number, labels: MetricLabels = {}): void {
+    if (!Number.isFinite(value)) {
+      return
+    }
+    const series = this.seriesFor(labels, () => ({ count: 0, sum: 0, bucketCounts: this.buckets.map(() => 0) }))
+    series.value.count++
+    series.value.sum += value
+    const bucket = this.buckets.findIndex(le => value <= le)
+    if (bucket !== -1) {
+      series.value.bucketCounts[bucket]++
+    }
+  }
+
+  get(labels: MetricLabels = {}): HistogramValue | undefined {
+    const series = this.findSeries(labels)
+    return series && this.exportValue(series)
+  }
+
+  protected exportValue(series: HistogramSeries): HistogramValue {
+    let cumulative = 0
+    return {
+      count: series.count,
+      sum: series.sum,
+      buckets: this.buckets.map((le, i) => ({ le, count: (cumulative += series.bucketCounts[i]) })),
+    }
+  }
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"')
+}
+
+function formatLabels(labels: MetricLabels, extra?: MetricLabels): string {
+  const entries = Object.entries({ ...labels, ...extra })
+  if (entries.length === 0) {
+    return ""
+  }
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(",")}}`
+}
+
+function formatNumber(value: number): string {
+  if (value === Infinity) return "+Inf"
+  if (value === -Infinity) return "-Inf"
+  return String(value)
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Counter | Histogram>()
+
+  /**
+   * Register a counter, or return the one already registered under the name
+   */
+  counter(options: MetricOptions): Counter {
+    return this.register(options.name, "counter", () => new Counter(options)) as Counter
+  }
+
+  /**
+   * Register a histogram, or return the one already registered under the name
+   */
+  histogram(options: HistogramOptions): Histogram {
+    return this.register(options.name, "histogram", () => new Histogram(options)) as Histogram
+  }
+
+  get(name: string): Counter | Histogram | undefined {
+    return this.metrics.get(name)
+  }
+
+  /**
+   * Current values of every metric, for in-process use (e.g. health checks)
+   */
+  snapshot(): MetricSnapshot[] {
+    return [...this.metrics.values()].map(metric => metric.snapshot())
+  }
+
+  /**
+   * Clear every recorded value, keeping the registered metrics
+   */
+  reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.reset()
+    }
+  }
+
+  /**
+   * Render every metric in the Prometheus text exposition format (version 0.0.4)
+   */
+  toPrometheus(): string {
+    const lines: string[] = []
+    for (const metric of this.metrics.values()) {
+      const { name, help, type, values } = metric.snapshot()
+      lines.push(`# HELP ${name} ${help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`)
+      lines.push(`# TYPE ${name} ${type}`)
+
+      for (const { labels, value } of values) {
+        if (typeof value === "number") {
+          lines.push(`${name}${formatLabels(labels)} ${formatNumber(value)}`)
+          continue
+        }
+        for (const bucket of value.buckets) {
+          lines.push(`${name}_bucket${formatLabels(labels, { le: formatNumber(bucket.le) })} ${bucket.count}`)
+        }
+        lines.push(`${name}_bucket${formatLabels(labels, { le: "+Inf" })} ${value.count}`)
+        lines.push(`${name}_sum${formatLabels(labels)} ${formatNumber(value.sum)}`)
+        lines.push(`${name}_count${formatLabels(labels)} ${value.count}`)
+      }
+    }
+    return lines.length > 0 ? lines.join("\n") + "\n" : ""
+  }
+
+  private register(name: string, type: MetricType, create: () => Counter | Histogram): Counter | Histogram {
+    const existing = this.metrics.get(name)
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`)
+      }
+      return existing
+    }
+    const metric = create()
+    this.metrics.set(name, metric)
+    return metric
+  }
+}
+
+export const metrics = new MetricsRegistry()
@@ -0,0 +1,36 @@
+import { SmartRouter, type SmartRouterTrade } from "@summitx/smart-router/evm"
+import { Fraction, Percent, TradeType } from "@summitx/swap-sdk-core"
+
+/**
+ * Calculate the price impact of a trade
+ *
+ * Each route is compared against its mid-price (the spot price through its
+ * V2, V3 and stable pools before the swap). The per-route shortfall of the
+ * realised output versus the spot output is then weighted by the route's
+ * share of the trade (`percent`).
+ */
+export function computePriceImpact(trade: SmartRouterTrade<TradeType>): Percent {
+  let weightedImpact = new Fraction(0)
+
+  for (const route of trade.routes) {
+    // Raw-unit arithmetic, so native CAMP and WCAMP legs compare the same way
+    const midPrice = SmartRouter.getMidPrice(route)
+    const spotOutput = midPrice.asFraction.multiply(route.inputAmount.quotient)
+    if (spotOutput.equalTo(0)) {
+      continue
+    }
+
+    const routeImpact = spotOutput.subtract(route.outputAmount.quotient).divide(spotOutput)
+    weightedImpact = weightedImpact.add(routeImpact.multiply(route.percent))
+  }
+
+  const impact = weightedImpact.divide(100)
+  return new Percent(impact.numerator, impact.denominator)
+}
+
+/**
+ * Format a price impact for display, e.g. "0.23%"
+ */
+export function formatPriceImpact(priceImpact: Percent): string {
+  return `${priceImpact.toFixed(2)}%`
+}
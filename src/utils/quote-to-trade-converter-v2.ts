@@ -4,8 +4,6 @@ import {
   Token as CoreToken,
   TradeType as CoreTradeType,
   Percent,
-  Price,
-  Fraction
 } from "@summitx/swap-sdk-core"
 import { 
   SmartRouterTrade,
@@ -18,6 +16,9 @@ import {
 } from "@summitx/smart-router/evm"
 import { parseUnits } from "viem"
 import type { QuoteResult } from "../quoter/token-quoter"
+import type { QuoteRoute, QuoteRouteHop } from "../quoter/quote-route"
+import { deserializeQuoteResult, type SerializedQuoteResult } from "./serialize"
+import { logger } from "./logger"
 
 /**
  * Enhanced converter that follows the interface project's patterns
@@ -34,7 +35,8 @@ export class QuoteToTradeConverterV2 {
       return quote.rawTrade
     }
 
-    // Otherwise, build from quote data (fallback for backward compatibility)
+    // Otherwise, build from quote data with placeholder pools (fallback for
+    // quotes serialized without their trade)
     // Parse input/output amounts
     const inputAmount = CurrencyAmount.fromRawAmount(
       quote.inputToken,
@@ -46,12 +48,12 @@ export class QuoteToTradeConverterV2 {
       parseUnits(quote.outputAmount, quote.outputToken.decimals)
     )
 
-    // Parse routes from the quote
-    const routes = this.parseRoutes(quote, inputAmount, outputAmount)
+    // Rebuild routes from the quote's route description
+    const routes = this.parseRoutes(quote)
 
     // Create the SmartRouterTrade object
     const trade: SmartRouterTrade<CoreTradeType> = {
-      tradeType: CoreTradeType.EXACT_INPUT,
+      tradeType: quote.tradeType,
       inputAmount,
       outputAmount,
       routes,
@@ -64,171 +66,86 @@ export class QuoteToTradeConverterV2 {
   }
 
   /**
-   * Parse routes from quote format to SmartRouterTrade route format
-   * Note: This is a fallback method when rawTrade is not available
+   * Rehydrate the exact trade of a quote serialized with serializeQuoteResult
+   * (e.g. received from the quote API), without placeholder pools when the
+   * serialized quote includes its trade
    */
-  private static parseRoutes(
-    quote: QuoteResult,
-    totalInputAmount: CurrencyAmount<Currency>,
-    totalOutputAmount: CurrencyAmount<Currency>
-  ): BaseRoute[] {
-    // Convert route string array to structured routes
-    const routeStrings = Array.isArray(quote.route) ? quote.route : [quote.route]
-    
-    return routeStrings.map((routeStr, index) => {
-      // Parse route string like "(50% [USDC-T12ETH V3 0.3% 0x...])"
-      const routeInfo = this.parseRouteString(routeStr)
-      
-      // Calculate amounts for this route based on percentage
-      const routeInputAmount = CurrencyAmount.fromRawAmount(
-        totalInputAmount.currency,
-        (totalInputAmount.quotient * BigInt(routeInfo.percent)) / BigInt(100)
-      )
-      
-      const routeOutputAmount = CurrencyAmount.fromRawAmount(
-        totalOutputAmount.currency,
-        (totalOutputAmount.quotient * BigInt(routeInfo.percent)) / BigInt(100)
-      )
-
-      // Build pools and path for this route
-      const { pools, path } = this.buildPoolsAndPath(
-        routeInfo,
-        quote.inputToken,
-        quote.outputToken,
-        quote.pools[index] || quote.pools[0]
-      )
+  static convertSerializedQuoteToTrade(quote: SerializedQuoteResult | string): SmartRouterTrade<CoreTradeType> {
+    return this.convertQuoteToTrade(deserializeQuoteResult(quote))
+  }
 
-      // Determine route type based on pools
-      const routeType = this.determineRouteType(pools)
+  /**
+   * Build SmartRouterTrade routes from the quote's structured routes
+   * Note: This is a fallback method when rawTrade is not available
+   */
+  private static parseRoutes(quote: QuoteResult): BaseRoute[] {
+    return quote.routes.map(route => {
+      const { pools, path } = this.buildPoolsAndPath(route, quote.inputToken, quote.outputToken)
 
       return {
-        type: routeType,
+        type: this.determineRouteType(pools),
         pools,
         path,
         input: quote.inputToken,
         output: quote.outputToken,
-        inputAmount: routeInputAmount,
-        outputAmount: routeOutputAmount,
-        percent: routeInfo.percent,
+        inputAmount: CurrencyAmount.fromRawAmount(
+          quote.inputToken,
+          parseUnits(route.inputAmount, quote.inputToken.decimals)
+        ),
+        outputAmount: CurrencyAmount.fromRawAmount(
+          quote.outputToken,
+          parseUnits(route.outputAmount, quote.outputToken.decimals)
+        ),
+        percent: route.percent,
       }
     })
   }
 
   /**
-   * Parse route string to extract percentage and hops
-   */
-  private static parseRouteString(routeStr: string): {
-    percent: number
-    hops: Array<{
-      tokenIn: string
-      tokenOut: string
-      poolType: string
-      fee?: number
-      address?: string
-    }>
-  } {
-    // Extract percentage
-    const percentMatch = routeStr.match(/\((\d+)%/)
-    const percent = percentMatch ? parseInt(percentMatch[1]) : 100
-
-    // Extract hops between brackets
-    const hopsMatch = routeStr.match(/\[(.*?)\]/)
-    if (!hopsMatch) {
-      // Simple format without brackets
-      return { percent: 100, hops: [] }
-    }
-
-    const hopsString = hopsMatch[1]
-    const hopParts = hopsString.split(", ")
-    
-    const hops = hopParts.map(hop => {
-      const parts = hop.split(" ")
-      const [tokenIn, tokenOut] = parts[0].split("-")
-      const poolType = parts[1] || "V2"
-      
-      let fee: number | undefined
-      let address: string | undefined
-      
-      if (poolType === "V3" && parts[2]) {
-        fee = parseFloat(parts[2].replace("%", "")) * 10000 // Convert to basis points
-      }
-      
-      if (parts[poolType === "V3" ? 3 : 2]) {
-        address = parts[poolType === "V3" ? 3 : 2]
-      }
-      
-      return { tokenIn, tokenOut, poolType, fee, address }
-    })
-
-    return { percent, hops }
-  }
-
-  /**
-   * Build pools and path from route info
+   * Build pools and path from a structured route
    * WARNING: This method creates placeholder pools and should only be used
    * when the raw trade object is not available
    */
   private static buildPoolsAndPath(
-    routeInfo: any,
+    route: QuoteRoute,
     inputToken: Currency,
-    outputToken: Currency,
-    poolInfoStr: string
+    outputToken: Currency
   ): { pools: Array<V2Pool | V3Pool | StablePool>; path: Currency[] } {
-    console.warn("Building pools from string representation - this may not have accurate pool data")
-    
-    const pools: Array<V2Pool | V3Pool | StablePool> = []
-    const path: Currency[] = [inputToken]
-
-    if (routeInfo.hops.length === 0) {
-      // Direct swap - parse pool info from the pools array
-      const poolType = poolInfoStr.includes("V3") ? PoolType.V3 : 
-                      poolInfoStr.includes("Stable") ? PoolType.STABLE : 
-                      PoolType.V2
+    logger.warn("Building pools from the route description - this may not have accurate pool data")
 
-      const pool = this.createPool(
-        inputToken,
-        outputToken,
-        poolType,
-        poolInfoStr
-      )
-      pools.push(pool)
-      path.push(outputToken)
-    } else {
-      // Multi-hop swap - this is problematic without actual token data
-      throw new Error("Multi-hop swaps cannot be accurately converted without raw trade data. Please ensure rawTrade is included in the quote.")
-    }
+    // The ends keep the quote's currencies (which may be native CAMP), hops in between are pool tokens
+    const chainId = inputToken.chainId
+    const path: Currency[] = [
+      inputToken,
+      ...route.hops.slice(0, -1).map(hop => new CoreToken(chainId, hop.tokenOut.address, hop.tokenOut.decimals, hop.tokenOut.symbol ?? "")),
+      outputToken,
+    ]
+    const pools = route.hops.map((hop, i) => this.createPool(path[i], path[i + 1], hop))
 
     return { pools, path }
   }
 
   /**
-   * Create a pool object based on type
-   * WARNING: This creates placeholder pools with dummy data
+   * Create a pool object for a hop
+   * WARNING: This creates placeholder pools with dummy reserves and prices
    */
   private static createPool(
     tokenA: Currency,
     tokenB: Currency,
-    poolType: PoolType,
-    poolInfoStr: string
+    hop: QuoteRouteHop
   ): V2Pool | V3Pool | StablePool {
-    // Extract address from pool info string
-    const addressMatch = poolInfoStr.match(/0x[a-fA-F0-9]{40}/)
-    const address = addressMatch ? addressMatch[0] : "0x0000000000000000000000000000000000000000"
+    const address = hop.poolAddress ?? "0x0000000000000000000000000000000000000000"
 
     // Create token objects
     const token0 = tokenA.wrapped
     const token1 = tokenB.wrapped
 
-    if (poolType === PoolType.V3) {
-      // Extract fee from pool info
-      const feeMatch = poolInfoStr.match(/(\d+\.?\d*)%/)
-      const fee = feeMatch ? Math.round(parseFloat(feeMatch[1]) * 10000) : 3000
-
+    if (hop.poolType === "V3") {
       return {
         type: PoolType.V3,
         token0,
         token1,
-        fee,
+        fee: hop.fee ?? 3000,
         liquidity: BigInt("1000000000000000000"), // Placeholder
         sqrtRatioX96: BigInt("79228162514264337593543950336"), // 1:1 ratio placeholder
         tick: 0,
@@ -237,7 +154,7 @@ export class QuoteToTradeConverterV2 {
         token0ProtocolFee: new Percent(0, 100),
         token1ProtocolFee: new Percent(0, 100),
       } as V3Pool
-    } else if (poolType === PoolType.STABLE) {
+    } else if (hop.poolType === "STABLE") {
       return {
         type: PoolType.STABLE,
         balances: [
@@ -245,7 +162,7 @@ export class QuoteToTradeConverterV2 {
           CurrencyAmount.fromRawAmount(token1, BigInt("1000000000000000000"))
         ],
         amplifier: BigInt(100),
-        fee: new Percent(4, 10000), // 0.04% default
+        fee: new Percent(hop.fee ?? 400, 1_000_000), // 0.04% default
         address,
       } as StablePool
     } else {
@@ -254,7 +171,6 @@ export class QuoteToTradeConverterV2 {
         type: PoolType.V2,
         reserve0: CurrencyAmount.fromRawAmount(token0, BigInt("1000000000000000000")),
         reserve1: CurrencyAmount.fromRawAmount(token1, BigInt("1000000000000000000")),
-        address,
       } as V2Pool
     }
   }
@@ -282,7 +198,7 @@ export class QuoteToTradeConverterV2 {
     const outputMatches = trade.outputAmount.quotient === parseUnits(quote.outputAmount, quote.outputToken.decimals)
 
     // Check route count
-    const quoteRouteCount = Array.isArray(quote.route) ? quote.route.length : 1
+    const quoteRouteCount = quote.routes.length
     const tradeRouteCount = trade.routes.length
 
     // Check currencies match
@@ -0,0 +1,120 @@
+import { Percent, Token, TradeType, type Currency } from "@summitx/swap-sdk-core"
+import { Native } from "@summitx/sdk"
+import type { QuoteResult } from "../quoter/token-quoter"
+import { decodeTrade, encodeTrade, type EncodedTrade } from "../quoter/trade-codec"
+
+export interface SerializedCurrency {
+  chainId: number
+  address: string | null // null for the native currency
+  symbol: string | undefined
+  name: string | undefined
+  decimals: number
+  isNative: boolean
+}
+
+export type SerializedQuoteResult = Omit<
+  QuoteResult,
+  "inputToken" | "outputToken" | "priceImpactPercent" | "rawTrade" | "tradeType"
+> & {
+  tradeType: "EXACT_INPUT" | "EXACT_OUTPUT"
+  inputToken: SerializedCurrency
+  outputToken: SerializedCurrency
+  priceImpactPercent: string
+  trade?: EncodedTrade // the raw trade, for building calldata in another process (see deserializeQuoteResult)
+}
+
+/**
+ * Convert a currency to a plain JSON object
+ */
+export function serializeCurrency(currency: Currency): SerializedCurrency {
+  return {
+    chainId: currency.chainId,
+    address: currency.isNative ? null : currency.address,
+    symbol: currency.symbol,
+    name: currency.name,
+    decimals: currency.decimals,
+    isNative: currency.isNative,
+  }
+}
+
+/**
+ * Rebuild a currency from its JSON form
+ */
+export function deserializeCurrency(serialized: SerializedCurrency): Currency {
+  if (serialized.isNative || serialized.address === null) {
+    return Native.onChain(serialized.chainId)
+  }
+  return new Token(
+    serialized.chainId,
+    serialized.address as `0x${string}`,
+    serialized.decimals,
+    serialized.symbol ?? "",
+    serialized.name
+  )
+}
+
+/**
+ * Convert a Percent to its exact fraction string, e.g. "23/10000"
+ */
+export function serializePercent(percent: Percent): string {
+  return `${percent.numerator.toString()}/${percent.denominator.toString()}`
+}
+
+// The numerator may be negative: a trade that beats the mid price has a negative price impact
+export function deserializePercent(serialized: string): Percent {
+  const [numerator, denominator] = serialized.split("/")
+  if (!/^-?\d+$/.test(numerator ?? "") || !/^\d+$/.test(denominator ?? "")) {
+    throw new Error(`Invalid percent ${serialized}: expected "numerator/denominator"`)
+  }
+  return new Percent(BigInt(numerator), BigInt(denominator))
+}
+
+/**
+ * Convert a QuoteResult to a JSON-safe object. The raw trade is encoded with
+ * encodeTrade, so deserializeQuoteResult restores it without loss.
+ */
+export function serializeQuoteResult(quote: QuoteResult): SerializedQuoteResult {
+  const { rawTrade, inputToken, outputToken, priceImpactPercent, tradeType, ...rest } = quote
+
+  return {
+    ...rest,
+    tradeType: tradeType === TradeType.EXACT_INPUT ? "EXACT_INPUT" : "EXACT_OUTPUT",
+    inputToken: serializeCurrency(inputToken),
+    outputToken: serializeCurrency(outputToken),
+    priceImpactPercent: serializePercent(priceImpactPercent),
+    trade: rawTrade && encodeTrade(rawTrade),
+  }
+}
+
+/**
+ * Rebuild a QuoteResult from serializeQuoteResult output, accepting either
+ * the parsed object or its JSON text. The raw trade is restored when the
+ * serialized quote includes it, so it can be passed to
+ * SwapRouter.swapCallParameters or a SwapExecutor directly.
+ */
+export function deserializeQuoteResult(input: SerializedQuoteResult | string): QuoteResult {
+  const serialized: SerializedQuoteResult = typeof input === "string" ? JSON.parse(input) : input
+  if (!serialized || typeof serialized !== "object" || !serialized.inputToken || !serialized.outputToken) {
+    throw new Error("Invalid serialized quote: expected an object with inputToken and outputToken")
+  }
+
+  const { trade, inputToken, outputToken, priceImpactPercent, tradeType, ...rest } = serialized
+  const rawTrade = trade && decodeTrade(trade)
+
+  return {
+    ...rest,
+    tradeType: tradeType === "EXACT_INPUT" ? TradeType.EXACT_INPUT : TradeType.EXACT_OUTPUT,
+    // Take the currencies from the trade when there is one, so they are the trade's own instances
+    inputToken: rawTrade?.inputAmount.currency ?? deserializeCurrency(inputToken),
+    outputToken: rawTrade?.outputAmount.currency ?? deserializeCurrency(outputToken),
+    priceImpactPercent: deserializePercent(priceImpactPercent),
+    rawTrade,
+  }
+}
+
+/**
+ * JSON.stringify replacer that turns bigints into decimal strings
+ */
+export function bigintReplacer(_key: string, value: unknown): unknown {
+  return typeof value === "bigint" ? value.toString() : value
+}
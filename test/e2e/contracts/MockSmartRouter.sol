@@ -0,0 +1,151 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import {MockWCAMP} from "./MockTokens.sol";
+import {MockV2Factory, MockV2Pair} from "./MockV2.sol";
+
+interface IERC20Payments {
+    function transfer(address to, uint256 amount) external returns (bool);
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
+/// The part of the SummitX SmartRouter that SwapRouter.swapCallParameters
+/// encodes single-route V2 trades with: multicall with a deadline, the two V2
+/// swaps, unwrapWETH9 and refundETH. Every function is payable because
+/// multicall delegatecalls them with the call's value.
+contract MockSmartRouter {
+    // Recipient placeholders of the router SDK
+    address private constant MSG_SENDER = address(1);
+    address private constant ADDRESS_THIS = address(2);
+
+    MockV2Factory public immutable factory;
+    MockWCAMP public immutable WETH9;
+
+    constructor(MockV2Factory factory_, MockWCAMP weth9) {
+        factory = factory_;
+        WETH9 = weth9;
+    }
+
+    receive() external payable {
+        require(msg.sender == address(WETH9), "Not WETH9");
+    }
+
+    function multicall(uint256 deadline, bytes[] calldata data) external payable returns (bytes[] memory results) {
+        require(block.timestamp <= deadline, "Transaction too old");
+        results = new bytes[](data.length);
+        for (uint256 i = 0; i < data.length; i++) {
+            (bool success, bytes memory result) = address(this).delegatecall(data[i]);
+            if (!success) {
+                assembly {
+                    revert(add(result, 32), mload(result))
+                }
+            }
+            results[i] = result;
+        }
+    }
+
+    function swapExactTokensForTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to
+    ) external payable returns (uint256 amountOut) {
+        uint256[] memory amounts = getAmountsOut(amountIn, path);
+        amountOut = amounts[amounts.length - 1];
+        require(amountOut >= amountOutMin, "Too little received");
+        pay(path[0], msg.sender, factory.getPair(path[0], path[1]), amountIn);
+        swap(amounts, path, recipient(to));
+    }
+
+    function swapTokensForExactTokens(
+        uint256 amountOut,
+        uint256 amountInMax,
+        address[] calldata path,
+        address to
+    ) external payable returns (uint256 amountIn) {
+        uint256[] memory amounts = getAmountsIn(amountOut, path);
+        amountIn = amounts[0];
+        require(amountIn <= amountInMax, "Too much requested");
+        pay(path[0], msg.sender, factory.getPair(path[0], path[1]), amountIn);
+        swap(amounts, path, recipient(to));
+    }
+
+    function unwrapWETH9(uint256 amountMinimum, address to) public payable {
+        uint256 balance = WETH9.balanceOf(address(this));
+        require(balance >= amountMinimum, "Insufficient WETH9");
+        if (balance > 0) {
+            WETH9.withdraw(balance);
+            sendValue(to, balance);
+        }
+    }
+
+    function unwrapWETH9(uint256 amountMinimum) external payable {
+        unwrapWETH9(amountMinimum, msg.sender);
+    }
+
+    function refundETH() external payable {
+        if (address(this).balance > 0) {
+            sendValue(msg.sender, address(this).balance);
+        }
+    }
+
+    function getAmountsOut(uint256 amountIn, address[] calldata path) public view returns (uint256[] memory amounts) {
+        amounts = new uint256[](path.length);
+        amounts[0] = amountIn;
+        for (uint256 i = 0; i < path.length - 1; i++) {
+            (uint256 reserveIn, uint256 reserveOut) = getReserves(path[i], path[i + 1]);
+            uint256 amountInWithFee = amounts[i] * 9975;
+            amounts[i + 1] = (amountInWithFee * reserveOut) / (reserveIn * 10000 + amountInWithFee);
+        }
+    }
+
+    function getAmountsIn(uint256 amountOut, address[] calldata path) public view returns (uint256[] memory amounts) {
+        amounts = new uint256[](path.length);
+        amounts[path.length - 1] = amountOut;
+        for (uint256 i = path.length - 1; i > 0; i--) {
+            (uint256 reserveIn, uint256 reserveOut) = getReserves(path[i - 1], path[i]);
+            amounts[i - 1] = (reserveIn * amounts[i] * 10000) / ((reserveOut - amounts[i]) * 9975) + 1;
+        }
+    }
+
+    function getReserves(address tokenIn, address tokenOut) internal view returns (uint256, uint256) {
+        MockV2Pair pair = MockV2Pair(factory.getPair(tokenIn, tokenOut));
+        require(address(pair) != address(0), "No pair");
+        (uint256 reserve0, uint256 reserve1, ) = pair.getReserves();
+        return tokenIn == pair.token0() ? (reserve0, reserve1) : (reserve1, reserve0);
+    }
+
+    // Every pair sends its output straight to the next pair, the last one to `to`
+    function swap(uint256[] memory amounts, address[] calldata path, address to) internal {
+        for (uint256 i = 0; i < path.length - 1; i++) {
+            MockV2Pair pair = MockV2Pair(factory.getPair(path[i], path[i + 1]));
+            address next = i < path.length - 2 ? factory.getPair(path[i + 1], path[i + 2]) : to;
+            if (path[i] == pair.token0()) {
+                pair.swap(0, amounts[i + 1], next);
+            } else {
+                pair.swap(amounts[i + 1], 0, next);
+            }
+        }
+    }
+
+    // Native CAMP sent with the call pays for WCAMP input, like the SmartRouter
+    function pay(address token, address payer, address to, uint256 amount) internal {
+        if (token == address(WETH9) && address(this).balance >= amount) {
+            WETH9.deposit{value: amount}();
+            WETH9.transfer(to, amount);
+        } else {
+            IERC20Payments(token).transferFrom(payer, to, amount);
+        }
+    }
+
+    function recipient(address to) internal view returns (address) {
+        if (to == MSG_SENDER) return msg.sender;
+        if (to == ADDRESS_THIS) return address(this);
+        return to;
+    }
+
+    function sendValue(address to, uint256 amount) internal {
+        (bool success, ) = to.call{value: amount}("");
+        require(success, "CAMP transfer failed");
+    }
+}
@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+interface IERC20Minimal {
+    function balanceOf(address owner) external view returns (uint256);
+    function transfer(address to, uint256 amount) external returns (bool);
+}
+
+/// Constant-product pair with the 0.25% V2 fee the router SDK quotes with.
+/// Liquidity is added by transferring tokens in and calling sync.
+contract MockV2Pair {
+    address public immutable token0;
+    address public immutable token1;
+    uint112 private reserve0;
+    uint112 private reserve1;
+
+    constructor(address tokenA, address tokenB) {
+        (token0, token1) = tokenA < tokenB ? (tokenA, tokenB) : (tokenB, tokenA);
+    }
+
+    function getReserves() external view returns (uint112, uint112, uint32) {
+        return (reserve0, reserve1, uint32(block.timestamp));
+    }
+
+    function sync() public {
+        reserve0 = uint112(IERC20Minimal(token0).balanceOf(address(this)));
+        reserve1 = uint112(IERC20Minimal(token1).balanceOf(address(this)));
+    }
+
+    /// Send the amounts out, after the input was transferred in
+    function swap(uint256 amount0Out, uint256 amount1Out, address to) external {
+        require(amount0Out > 0 || amount1Out > 0, "Insufficient output amount");
+        uint256 previous0 = reserve0;
+        uint256 previous1 = reserve1;
+        require(amount0Out < previous0 && amount1Out < previous1, "Insufficient liquidity");
+
+        if (amount0Out > 0) IERC20Minimal(token0).transfer(to, amount0Out);
+        if (amount1Out > 0) IERC20Minimal(token1).transfer(to, amount1Out);
+        uint256 balance0 = IERC20Minimal(token0).balanceOf(address(this));
+        uint256 balance1 = IERC20Minimal(token1).balanceOf(address(this));
+
+        uint256 amount0In = balance0 > previous0 - amount0Out ? balance0 - (previous0 - amount0Out) : 0;
+        uint256 amount1In = balance1 > previous1 - amount1Out ? balance1 - (previous1 - amount1Out) : 0;
+        require(amount0In > 0 || amount1In > 0, "Insufficient input amount");
+        uint256 adjusted0 = balance0 * 10000 - amount0In * 25;
+        uint256 adjusted1 = balance1 * 10000 - amount1In * 25;
+        require(adjusted0 * adjusted1 >= previous0 * previous1 * 10000 ** 2, "K");
+
+        sync();
+    }
+}
+
+contract MockV2Factory {
+    mapping(address => mapping(address => address)) public getPair;
+
+    function createPair(address tokenA, address tokenB) external returns (address pair) {
+        require(getPair[tokenA][tokenB] == address(0), "Pair exists");
+        pair = address(new MockV2Pair(tokenA, tokenB));
+        getPair[tokenA][tokenB] = pair;
+        getPair[tokenB][tokenA] = pair;
+    }
+}
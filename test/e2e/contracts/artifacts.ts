@@ -0,0 +1,37 @@
+// Generated by compile.ts with solc 0.8.26 from the .sol files in this directory, do not edit
+
+export const MockERC20 = {
+  abi: [{"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"owner","type":"address"},{"indexed":true,"internalType":"address","name":"spender","type":"address"},{"indexed":false,"internalType":"uint256","name":"value","type":"uint256"}],"name":"Approval","type":"event"},{"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"from","type":"address"},{"indexed":true,"internalType":"address","name":"to","type":"address"},{"indexed":false,"internalType":"uint256","name":"value","type":"uint256"}],"name":"Transfer","type":"event"},{"inputs":[{"internalType":"address","name":"","type":"address"},{"internalType":"address","name":"","type":"address"}],"name":"allowance","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},{"inputs":[{"internalType":"address","name":"spender","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"approve","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"nonpayable","type":"function"},{"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"balanceOf","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"decimals","outputs":[{"internalType":"uint8","name":"","type":"uint8"}],"stateMutability":"view","type":"function"},{"inputs":[{"internalType":"string","name":"name_","type":"string"},{"internalType":"string","name":"symbol_","type":"string"},{"internalType":"uint8","name":"decimals_","type":"uint8"}],"name":"initialize","outputs":[],"stateMutability":"nonpayable","type":"function"},{"inputs":[{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"mint","outputs":[],"stateMutability":"nonpayable","type":"function"},{"inputs":[],"name":"name","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"symbol","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"totalSupply","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},{"inputs":[{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"transfer","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"nonpayable","type":"function"},{"inputs":[{"internalType":"address","name":"from","type":"address"},{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"transferFrom","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"nonpayable","type":"function"}],
+  bytecode: "0x6080604052348015600e575f80fd5b5061094d8061001c5f395ff3fe608060405234801561000f575f80fd5b50600436106100a6575f3560e01c8063313ce5671161006e578063313ce5671461012a57806340c10f191461014957806370a082311461015c57806395d89b411461017b578063a9059cbb14610183578063dd62ed3e14610196575f80fd5b806306fdde03146100aa578063095ea7b3146100c85780631624f6c6146100eb57806318160ddd1461010057806323b872dd14610117575b5f80fd5b6100b26101c0565b6040516100bf91906105bb565b60405180910390f35b6100db6100d636600461060b565b61024b565b60405190151581526020016100bf565b6100fe6100f9366004610678565b6102b7565b005b61010960035481565b6040519081526020016100bf565b6100db610125366004610700565b610343565b6002546101379060ff1681565b60405160ff90911681526020016100bf565b6100fe61015736600461060b565b6103fb565b61010961016a36600461073a565b60046020525f908152604090205481565b6100b2610409565b6100db61019136600461060b565b610416565b6101096101a436600461075a565b600560209081525f928352604080842090915290825290205481565b5f80546101cc9061078b565b80601f01602080910402602001604051908101604052809291908181526020018280546101f89061078b565b80156102435780601f1061021a57610100808354040283529160200191610243565b820191905f5260205f20905b81548152906001019060200180831161022657829003601f168201915b505050505081565b335f8181526005602090815260408083206001600160a01b038716808552925280832085905551919290917f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925906102a59086815260200190565b60405180910390a35060015b92915050565b600180546102c49061078b565b15905061030e5760405162461bcd60e51b8152602060048201526013602482015272105b1c9958591e481a5b9a5d1a585b1a5e9959606a1b60448201526064015b60405180910390fd5b5f61031a858783610823565b506001610328838583610823565b506002805460ff191660ff9290921691909117905550505050565b6001600160a01b0383165f9081526005602090815260408083203384529091528120545f1981146103e557828110156103b75760405162461bcd60e51b8152602060048201526016602482015275496e73756666696369656e7420616c6c6f77616e636560501b6044820152606401610305565b6103c183826108f1565b6001600160a01b0386165f9081526005602090815260408083203384529091529020555b6103f085858561042b565b506001949350505050565b6104058282610535565b5050565b600180546101cc9061078b565b5f61042233848461042b565b50600192915050565b6001600160a01b0383165f908152600460205260409020548111156104895760405162461bcd60e51b8152602060048201526014602482015273496e73756666696369656e742062616c616e636560601b6044820152606401610305565b6001600160a01b0383165f90815260046020526040812080548392906104b09084906108f1565b90915550506001600160a01b0382165f90815260046020526040812080548392906104dc908490610904565b92505081905550816001600160a01b0316836001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef8360405161052891815260200190565b60405180910390a3505050565b8060035f8282546105469190610904565b90915550506001600160a01b0382165f9081526004602052604081208054839290610572908490610904565b90915550506040518181526001600160a01b038316905f907fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef9060200160405180910390a35050565b602081525f82518060208401528060208501604085015e5f604082850101526040601f19601f83011684010191505092915050565b80356001600160a01b0381168114610606575f80fd5b919050565b5f806040838503121561061c575f80fd5b610625836105f0565b946020939093013593505050565b5f8083601f840112610643575f80fd5b50813567ffffffffffffffff81111561065a575f80fd5b602083019150836020828501011115610671575f80fd5b9250929050565b5f805f805f6060868803121561068c575f80fd5b853567ffffffffffffffff8111156106a2575f80fd5b6106ae88828901610633565b909650945050602086013567ffffffffffffffff8111156106cd575f80fd5b6106d988828901610633565b909450925050604086013560ff811681146106f2575f80fd5b809150509295509295909350565b5f805f60608486031215610712575f80fd5b61071b846105f0565b9250610729602085016105f0565b929592945050506040919091013590565b5f6020828403121561074a575f80fd5b610753826105f0565b9392505050565b5f806040838503121561076b575f80fd5b610774836105f0565b9150610782602084016105f0565b90509250929050565b600181811c9082168061079f57607f821691505b6020821081036107bd57634e487b7160e01b5f52602260045260245ffd5b50919050565b634e487b7160e01b5f52604160045260245ffd5b601f82111561081e57805f5260205f20601f840160051c810160208510156107fc5750805b601f840160051c820191505b8181101561081b575f8155600101610808565b50505b505050565b67ffffffffffffffff83111561083b5761083b6107c3565b61084f83610849835461078b565b836107d7565b5f601f841160018114610880575f85156108695750838201355b5f19600387901b1c1916600186901b17835561081b565b5f83815260208120601f198716915b828110156108af578685013582556020948501946001909201910161088f565b50868210156108cb575f1960f88860031b161c19848701351681555b505060018560011b0183555050505050565b634e487b7160e01b5f52601160045260245ffd5b818103818111156102b1576102b16108dd565b808201808211156102b1576102b16108dd56fea2646970667358221220f9196c2473848ee1bbbfb65054523e37617f87307742efefc186c54527c5555364736f6c634300081a0033",
+  deployedBytecode: "0x608060405234801561000f575f80fd5b50600436106100a6575f3560e01c8063313ce5671161006e578063313ce5671461012a57806340c10f191461014957806370a082311461015c57806395d89b411461017b578063a9059cbb14610183578063dd62ed3e14610196575f80fd5b806306fdde03146100aa578063095ea7b3146100c85780631624f6c6146100eb57806318160ddd1461010057806323b872dd14610117575b5f80fd5b6100b26101c0565b6040516100bf91906105bb565b60405180910390f35b6100db6100d636600461060b565b61024b565b60405190151581526020016100bf565b6100fe6100f9366004610678565b6102b7565b005b61010960035481565b6040519081526020016100bf565b6100db610125366004610700565b610343565b6002546101379060ff1681565b60405160ff90911681526020016100bf565b6100fe61015736600461060b565b6103fb565b61010961016a36600461073a565b60046020525f908152604090205481565b6100b2610409565b6100db61019136600461060b565b610416565b6101096101a436600461075a565b600560209081525f928352604080842090915290825290205481565b5f80546101cc9061078b565b80601f01602080910402602001604051908101604052809291908181526020018280546101f89061078b565b80156102435780601f1061021a57610100808354040283529160200191610243565b820191905f5260205f20905b81548152906001019060200180831161022657829003601f168201915b505050505081565b335f8181526005602090815260408083206001600160a01b038716808552925280832085905551919290917f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925906102a59086815260200190565b60405180910390a35060015b92915050565b600180546102c49061078b565b15905061030e5760405162461bcd60e51b8152602060048201526013602482015272105b1c9958591e481a5b9a5d1a585b1a5e9959606a1b60448201526064015b60405180910390fd5b5f61031a858783610823565b506001610328838583610823565b506002805460ff191660ff9290921691909117905550505050565b6001600160a01b0383165f9081526005602090815260408083203384529091528120545f1981146103e557828110156103b75760405162461bcd60e51b8152602060048201526016602482015275496e73756666696369656e7420616c6c6f77616e636560501b6044820152606401610305565b6103c183826108f1565b6001600160a01b0386165f9081526005602090815260408083203384529091529020555b6103f085858561042b565b506001949350505050565b6104058282610535565b5050565b600180546101cc9061078b565b5f61042233848461042b565b50600192915050565b6001600160a01b0383165f908152600460205260409020548111156104895760405162461bcd60e51b8152602060048201526014602482015273496e73756666696369656e742062616c616e636560601b6044820152606401610305565b6001600160a01b0383165f90815260046020526040812080548392906104b09084906108f1565b90915550506001600160a01b0382165f90815260046020526040812080548392906104dc908490610904565b92505081905550816001600160a01b0316836001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef8360405161052891815260200190565b60405180910390a3505050565b8060035f8282546105469190610904565b90915550506001600160a01b0382165f9081526004602052604081208054839290610572908490610904565b90915550506040518181526001600160a01b038316905f907fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef9060200160405180910390a35050565b602081525f82518060208401528060208501604085015e5f604082850101526040601f19601f83011684010191505092915050565b80356001600160a01b0381168114610606575f80fd5b919050565b5f806040838503121561061c575f80fd5b610625836105f0565b946020939093013593505050565b5f8083601f840112610643575f80fd5b50813567ffffffffffffffff81111561065a575f80fd5b602083019150836020828501011115610671575f80fd5b9250929050565b5f805f805f6060868803121561068c575f80fd5b853567ffffffffffffffff8111156106a2575f80fd5b6106ae88828901610633565b909650945050602086013567ffffffffffffffff8111156106cd575f80fd5b6106d988828901610633565b909450925050604086013560ff811681146106f2575f80fd5b809150509295509295909350565b5f805f60608486031215610712575f80fd5b61071b846105f0565b9250610729602085016105f0565b929592945050506040919091013590565b5f6020828403121561074a575f80fd5b610753826105f0565b9392505050565b5f806040838503121561076b575f80fd5b610774836105f0565b9150610782602084016105f0565b90509250929050565b600181811c9082168061079f57607f821691505b6020821081036107bd57634e487b7160e01b5f52602260045260245ffd5b50919050565b634e487b7160e01b5f52604160045260245ffd5b601f82111561081e57805f5260205f20601f840160051c810160208510156107fc5750805b601f840160051c820191505b8181101561081b575f8155600101610808565b50505b505050565b67ffffffffffffffff83111561083b5761083b6107c3565b61084f83610849835461078b565b836107d7565b5f601f841160018114610880575f85156108695750838201355b5f19600387901b1c1916600186901b17835561081b565b5f83815260208120601f198716915b828110156108af578685013582556020948501946001909201910161088f565b50868210156108cb575f1960f88860031b161c19848701351681555b505060018560011b0183555050505050565b634e487b7160e01b5f52601160045260245ffd5b818103818111156102b1576102b16108dd565b808201808211156102b1576102b16108dd56fea2646970667358221220f9196c2473848ee1bbbfb65054523e37617f87307742efefc186c54527c5555364736f6c634300081a0033",
+} as const
+
+export const MockWCAMP = {
+  abi: [{"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"owner","type":"address"},{"indexed":true,"internalType":"address","name":"spender","type":"address"},{"indexed":false,"internalType":"uint256","name":"value","type":"uint256"}],"name":"Approval","type":"event"},{"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"from","type":"address"},{"indexed":true,"internalType":"address","name":"to","type":"address"},{"indexed":false,"internalType":"uint256","name":"value","type":"uint256"}],"name":"Transfer","type":"event"},{"inputs":[{"internalType":"address","name":"","type":"address"},{"internalType":"address","name":"","type":"address"}],"name":"allowance","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},{"inputs":[{"internalType":"address","name":"spender","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"approve","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"nonpayable","type":"function"},{"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"balanceOf","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"decimals","outputs":[{"internalType":"uint8","name":"","type":"uint8"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"deposit","outputs":[],"stateMutability":"payable","type":"function"},{"inputs":[{"internalType":"string","name":"name_","type":"string"},{"internalType":"string","name":"symbol_","type":"string"},{"internalType":"uint8","name":"decimals_","type":"uint8"}],"name":"initialize","outputs":[],"stateMutability":"nonpayable","type":"function"},{"inputs":[{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"mint","outputs":[],"stateMutability":"nonpayable","type":"function"},{"inputs":[],"name":"name","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"symbol","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"totalSupply","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},{"inputs":[{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"transfer","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"nonpayable","type":"function"},{"inputs":[{"internalType":"address","name":"from","type":"address"},{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"transferFrom","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"nonpayable","type":"function"},{"inputs":[{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"withdraw","outputs":[],"stateMutability":"nonpayable","type":"function"},{"stateMutability":"payable","type":"receive"}],
+  bytecode: "0x6080604052348015600e575f80fd5b50610bba8061001c5f395ff3fe6080604052600436106100c2575f3560e01c8063313ce5671161007c57806395d89b411161005757806395d89b4114610223578063a9059cbb14610237578063d0e30db014610256578063dd62ed3e1461025e575f80fd5b8063313ce567146101ae57806340c10f19146101d957806370a08231146101f8575f80fd5b806306fdde03146100d5578063095ea7b3146100ff5780631624f6c61461012e57806318160ddd1461014d57806323b872dd146101705780632e1a7d4d1461018f575f80fd5b366100d1576100cf610294565b005b5f80fd5b3480156100e0575f80fd5b506100e96102a0565b6040516100f69190610811565b60405180910390f35b34801561010a575f80fd5b5061011e610119366004610861565b61032b565b60405190151581526020016100f6565b348015610139575f80fd5b506100cf6101483660046108ce565b610397565b348015610158575f80fd5b5061016260035481565b6040519081526020016100f6565b34801561017b575f80fd5b5061011e61018a366004610956565b610423565b34801561019a575f80fd5b506100cf6101a9366004610990565b6104db565b3480156101b9575f80fd5b506002546101c79060ff1681565b60405160ff90911681526020016100f6565b3480156101e4575f80fd5b506100cf6101f3366004610861565b610575565b348015610203575f80fd5b506101626102123660046109a7565b60046020525f908152604090205481565b34801561022e575f80fd5b506100e961057f565b348015610242575f80fd5b5061011e610251366004610861565b61058c565b6100cf610294565b348015610269575f80fd5b506101626102783660046109c7565b600560209081525f928352604080842090915290825290205481565b61029e33346105a1565b565b5f80546102ac906109f8565b80601f01602080910402602001604051908101604052809291908181526020018280546102d8906109f8565b80156103235780601f106102fa57610100808354040283529160200191610323565b820191905f5260205f20905b81548152906001019060200180831161030657829003601f168201915b505050505081565b335f8181526005602090815260408083206001600160a01b038716808552925280832085905551919290917f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925906103859086815260200190565b60405180910390a35060015b92915050565b600180546103a4906109f8565b1590506103ee5760405162461bcd60e51b8152602060048201526013602482015272105b1c9958591e481a5b9a5d1a585b1a5e9959606a1b60448201526064015b60405180910390fd5b5f6103fa858783610a90565b506001610408838583610a90565b506002805460ff191660ff9290921691909117905550505050565b6001600160a01b0383165f9081526005602090815260408083203384529091528120545f1981146104c557828110156104975760405162461bcd60e51b8152602060048201526016602482015275496e73756666696369656e7420616c6c6f77616e636560501b60448201526064016103e5565b6104a18382610b5e565b6001600160a01b0386165f9081526005602090815260408083203384529091529020555b6104d0858585610628565b506001949350505050565b6104e53382610732565b6040515f90339083908381818185875af1925050503d805f8114610524576040519150601f19603f3d011682016040523d82523d5f602084013e610529565b606091505b50509050806105715760405162461bcd60e51b815260206004820152601460248201527310d05354081d1c985b9cd9995c8819985a5b195960621b60448201526064016103e5565b5050565b61057182826105a1565b600180546102ac906109f8565b5f610598338484610628565b50600192915050565b8060035f8282546105b29190610b71565b90915550506001600160a01b0382165f90815260046020526040812080548392906105de908490610b71565b90915550506040518181526001600160a01b038316905f907fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef906020015b60405180910390a35050565b6001600160a01b0383165f908152600460205260409020548111156106865760405162461bcd60e51b8152602060048201526014602482015273496e73756666696369656e742062616c616e636560601b60448201526064016103e5565b6001600160a01b0383165f90815260046020526040812080548392906106ad908490610b5e565b90915550506001600160a01b0382165f90815260046020526040812080548392906106d9908490610b71565b92505081905550816001600160a01b0316836001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef8360405161072591815260200190565b60405180910390a3505050565b6001600160a01b0382165f908152600460205260409020548111156107905760405162461bcd60e51b8152602060048201526014602482015273496e73756666696369656e742062616c616e636560601b60448201526064016103e5565b6001600160a01b0382165f90815260046020526040812080548392906107b7908490610b5e565b925050819055508060035f8282546107cf9190610b5e565b90915550506040518181525f906001600160a01b038416907fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef9060200161061c565b602081525f82518060208401528060208501604085015e5f604082850101526040601f19601f83011684010191505092915050565b80356001600160a01b038116811461085c575f80fd5b919050565b5f8060408385031215610872575f80fd5b61087b83610846565b946020939093013593505050565b5f8083601f840112610899575f80fd5b50813567ffffffffffffffff8111156108b0575f80fd5b6020830191508360208285010111156108c7575f80fd5b9250929050565b5f805f805f606086880312156108e2575f80fd5b853567ffffffffffffffff8111156108f8575f80fd5b61090488828901610889565b909650945050602086013567ffffffffffffffff811115610923575f80fd5b61092f88828901610889565b909450925050604086013560ff81168114610948575f80fd5b809150509295509295909350565b5f805f60608486031215610968575f80fd5b61097184610846565b925061097f60208501610846565b929592945050506040919091013590565b5f602082840312156109a0575f80fd5b5035919050565b5f602082840312156109b7575f80fd5b6109c082610846565b9392505050565b5f80604083850312156109d8575f80fd5b6109e183610846565b91506109ef60208401610846565b90509250929050565b600181811c90821680610a0c57607f821691505b602082108103610a2a57634e487b7160e01b5f52602260045260245ffd5b50919050565b634e487b7160e01b5f52604160045260245ffd5b601f821115610a8b57805f5260205f20601f840160051c81016020851015610a695750805b601f840160051c820191505b81811015610a88575f8155600101610a75565b50505b505050565b67ffffffffffffffff831115610aa857610aa8610a30565b610abc83610ab683546109f8565b83610a44565b5f601f841160018114610aed575f8515610ad65750838201355b5f19600387901b1c1916600186901b178355610a88565b5f83815260208120601f198716915b82811015610b1c5786850135825560209485019460019092019101610afc565b5086821015610b38575f1960f88860031b161c19848701351681555b505060018560011b0183555050505050565b634e487b7160e01b5f52601160045260245ffd5b8181038181111561039157610391610b4a565b8082018082111561039157610391610b4a56fea2646970667358221220d7731b28e6bf8043c28eb91564c72ac237e0c9623138a11e77c004ce995406db64736f6c634300081a0033",
+  deployedBytecode: "0x6080604052600436106100c2575f3560e01c8063313ce5671161007c57806395d89b411161005757806395d89b4114610223578063a9059cbb14610237578063d0e30db014610256578063dd62ed3e1461025e575f80fd5b8063313ce567146101ae57806340c10f19146101d957806370a08231146101f8575f80fd5b806306fdde03146100d5578063095ea7b3146100ff5780631624f6c61461012e57806318160ddd1461014d57806323b872dd146101705780632e1a7d4d1461018f575f80fd5b366100d1576100cf610294565b005b5f80fd5b3480156100e0575f80fd5b506100e96102a0565b6040516100f69190610811565b60405180910390f35b34801561010a575f80fd5b5061011e610119366004610861565b61032b565b60405190151581526020016100f6565b348015610139575f80fd5b506100cf6101483660046108ce565b610397565b348015610158575f80fd5b5061016260035481565b6040519081526020016100f6565b34801561017b575f80fd5b5061011e61018a366004610956565b610423565b34801561019a575f80fd5b506100cf6101a9366004610990565b6104db565b3480156101b9575f80fd5b506002546101c79060ff1681565b60405160ff90911681526020016100f6565b3480156101e4575f80fd5b506100cf6101f3366004610861565b610575565b348015610203575f80fd5b506101626102123660046109a7565b60046020525f908152604090205481565b34801561022e575f80fd5b506100e961057f565b348015610242575f80fd5b5061011e610251366004610861565b61058c565b6100cf610294565b348015610269575f80fd5b506101626102783660046109c7565b600560209081525f928352604080842090915290825290205481565b61029e33346105a1565b565b5f80546102ac906109f8565b80601f01602080910402602001604051908101604052809291908181526020018280546102d8906109f8565b80156103235780601f106102fa57610100808354040283529160200191610323565b820191905f5260205f20905b81548152906001019060200180831161030657829003601f168201915b505050505081565b335f8181526005602090815260408083206001600160a01b038716808552925280832085905551919290917f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925906103859086815260200190565b60405180910390a35060015b92915050565b600180546103a4906109f8565b1590506103ee5760405162461bcd60e51b8152602060048201526013602482015272105b1c9958591e481a5b9a5d1a585b1a5e9959606a1b60448201526064015b60405180910390fd5b5f6103fa858783610a90565b506001610408838583610a90565b506002805460ff191660ff9290921691909117905550505050565b6001600160a01b0383165f9081526005602090815260408083203384529091528120545f1981146104c557828110156104975760405162461bcd60e51b8152602060048201526016602482015275496e73756666696369656e7420616c6c6f77616e636560501b60448201526064016103e5565b6104a18382610b5e565b6001600160a01b0386165f9081526005602090815260408083203384529091529020555b6104d0858585610628565b506001949350505050565b6104e53382610732565b6040515f90339083908381818185875af1925050503d805f8114610524576040519150601f19603f3d011682016040523d82523d5f602084013e610529565b606091505b50509050806105715760405162461bcd60e51b815260206004820152601460248201527310d05354081d1c985b9cd9995c8819985a5b195960621b60448201526064016103e5565b5050565b61057182826105a1565b600180546102ac906109f8565b5f610598338484610628565b50600192915050565b8060035f8282546105b29190610b71565b90915550506001600160a01b0382165f90815260046020526040812080548392906105de908490610b71565b90915550506040518181526001600160a01b038316905f907fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef906020015b60405180910390a35050565b6001600160a01b0383165f908152600460205260409020548111156106865760405162461bcd60e51b8152602060048201526014602482015273496e73756666696369656e742062616c616e636560601b60448201526064016103e5565b6001600160a01b0383165f90815260046020526040812080548392906106ad908490610b5e565b90915550506001600160a01b0382165f90815260046020526040812080548392906106d9908490610b71565b92505081905550816001600160a01b0316836001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef8360405161072591815260200190565b60405180910390a3505050565b6001600160a01b0382165f908152600460205260409020548111156107905760405162461bcd60e51b8152602060048201526014602482015273496e73756666696369656e742062616c616e636560601b60448201526064016103e5565b6001600160a01b0382165f90815260046020526040812080548392906107b7908490610b5e565b925050819055508060035f8282546107cf9190610b5e565b90915550506040518181525f906001600160a01b038416907fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef9060200161061c565b602081525f82518060208401528060208501604085015e5f604082850101526040601f19601f83011684010191505092915050565b80356001600160a01b038116811461085c575f80fd5b919050565b5f8060408385031215610872575f80fd5b61087b83610846565b946020939093013593505050565b5f8083601f840112610899575f80fd5b50813567ffffffffffffffff8111156108b0575f80fd5b6020830191508360208285010111156108c7575f80fd5b9250929050565b5f805f805f606086880312156108e2575f80fd5b853567ffffffffffffffff8111156108f8575f80fd5b61090488828901610889565b909650945050602086013567ffffffffffffffff811115610923575f80fd5b61092f88828901610889565b909450925050604086013560ff81168114610948575f80fd5b809150509295509295909350565b5f805f60608486031215610968575f80fd5b61097184610846565b925061097f60208501610846565b929592945050506040919091013590565b5f602082840312156109a0575f80fd5b5035919050565b5f602082840312156109b7575f80fd5b6109c082610846565b9392505050565b5f80604083850312156109d8575f80fd5b6109e183610846565b91506109ef60208401610846565b90509250929050565b600181811c90821680610a0c57607f821691505b602082108103610a2a57634e487b7160e01b5f52602260045260245ffd5b50919050565b634e487b7160e01b5f52604160045260245ffd5b601f821115610a8b57805f5260205f20601f840160051c81016020851015610a695750805b601f840160051c820191505b81811015610a88575f8155600101610a75565b50505b505050565b67ffffffffffffffff831115610aa857610aa8610a30565b610abc83610ab683546109f8565b83610a44565b5f601f841160018114610aed575f8515610ad65750838201355b5f19600387901b1c1916600186901b178355610a88565b5f83815260208120601f198716915b82811015610b1c5786850135825560209485019460019092019101610afc565b5086821015610b38575f1960f88860031b161c19848701351681555b505060018560011b0183555050505050565b634e487b7160e01b5f52601160045260245ffd5b8181038181111561039157610391610b4a565b8082018082111561039157610391610b4a56fea2646970667358221220d7731b28e6bf8043c28eb91564c72ac237e0c9623138a11e77c004ce995406db64736f6c634300081a0033",
+} as const
+
+export const MockV2Factory = {
+  abi: [{"inputs":[{"internalType":"address","name":"tokenA","type":"address"},{"internalType":"address","name":"tokenB","type":"address"}],"name":"createPair","outputs":[{"internalType":"address","name":"pair","type":"address"}],"stateMutability":"nonpayable","type":"function"},{"inputs":[{"internalType":"address","name":"","type":"address"},{"internalType":"address","name":"","type":"address"}],"name":"getPair","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"}],
+  bytecode: "0x6080604052348015600e575f80fd5b50610afd8061001c5f395ff3fe608060405234801561000f575f80fd5b5060043610610034575f3560e01c8063c9c6539614610038578063e6a4390514610067575b5f80fd5b61004b6100463660046101be565b610097565b6040516001600160a01b03909116815260200160405180910390f35b61004b6100753660046101be565b5f6020818152928152604080822090935290815220546001600160a01b031681565b6001600160a01b038281165f908152602081815260408083208585168452909152812054909116156100fd5760405162461bcd60e51b815260206004820152600b60248201526a506169722065786973747360a81b604482015260640160405180910390fd5b828260405161010b90610196565b6001600160a01b03928316815291166020820152604001604051809103905ff08015801561013b573d5f803e3d5ffd5b506001600160a01b039384165f81815260208181526040808320968816835295815285822080549785166001600160a01b03199889168117909155828252868320938352929052939093208054909416909217909255919050565b6108d8806101f083390190565b80356001600160a01b03811681146101b9575f80fd5b919050565b5f80604083850312156101cf575f80fd5b6101d8836101a3565b91506101e6602084016101a3565b9050925092905056fe60c060405234801561000f575f80fd5b506040516108d83803806108d883398101604081905261002e91610086565b806001600160a01b0316826001600160a01b03161061004e578082610051565b81815b6001600160a01b0390811660a05216608052506100b79050565b80516001600160a01b0381168114610081575f80fd5b919050565b5f8060408385031215610097575f80fd5b6100a08361006b565b91506100ae6020840161006b565b90509250929050565b60805160a0516107d86101005f395f818160ed015281816102a2015281816103b8015261064801525f818160990152818161020a01528181610325015261059c01526107d85ff3fe608060405234801561000f575f80fd5b5060043610610055575f3560e01c80630902f1ac146100595780630dfe1681146100945780636d9a640a146100d3578063d21220a7146100e8578063fff6cae91461010f575b5f80fd5b5f54604080516001600160701b038084168252600160701b909304909216602083015263ffffffff4216908201526060015b60405180910390f35b6100bb7f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b03909116815260200161008b565b6100e66100e13660046106e0565b610117565b005b6100bb7f000000000000000000000000000000000000000000000000000000000000000081565b6100e6610587565b5f83118061012457505f82115b6101755760405162461bcd60e51b815260206004820152601a60248201527f496e73756666696369656e74206f757470757420616d6f756e7400000000000060448201526064015b60405180910390fd5b5f546001600160701b0380821691600160701b900416818510801561019957508084105b6101de5760405162461bcd60e51b8152602060048201526016602482015275496e73756666696369656e74206c697175696469747960501b604482015260640161016c565b84156102765760405163a9059cbb60e01b81526001600160a01b038481166004830152602482018790527f0000000000000000000000000000000000000000000000000000000000000000169063a9059cbb906044016020604051808303815f875af1158015610250573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906102749190610721565b505b831561030e5760405163a9059cbb60e01b81526001600160a01b038481166004830152602482018690527f0000000000000000000000000000000000000000000000000000000000000000169063a9059cbb906044016020604051808303815f875af11580156102e8573d5f803e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061030c9190610721565b505b6040516370a0823160e01b81523060048201525f907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906370a0823190602401602060405180830381865afa158015610372573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906103969190610747565b6040516370a0823160e01b81523060048201529091505f906001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016906370a0823190602401602060405180830381865afa1580156103fd573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906104219190610747565b90505f61042e8886610772565b831161043a575f61044e565b6104448886610772565b61044e9084610772565b90505f61045b8886610772565b8311610467575f61047b565b6104718886610772565b61047b9084610772565b90505f82118061048a57505f81115b6104d65760405162461bcd60e51b815260206004820152601960248201527f496e73756666696369656e7420696e70757420616d6f756e7400000000000000604482015260640161016c565b5f6104e283601961078b565b6104ee8661271061078b565b6104f89190610772565b90505f61050683601961078b565b6105128661271061078b565b61051c9190610772565b9050610528878961078b565b610536906305f5e10061078b565b610540828461078b565b10156105725760405162461bcd60e51b81526020600482015260016024820152604b60f81b604482015260640161016c565b61057a610587565b5050505050505050505050565b6040516370a0823160e01b81523060048201527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906370a0823190602401602060405180830381865afa1580156105e9573d5f803e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061060d9190610747565b5f80546dffffffffffffffffffffffffffff19166001600160701b03929092169190911790556040516370a0823160e01b81523060048201527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906370a0823190602401602060405180830381865afa158015610695573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906106b99190610747565b5f600e6101000a8154816001600160701b0302191690836001600160701b03160217905550565b5f805f606084860312156106f2575f80fd5b833592506020840135915060408401356001600160a01b0381168114610716575f80fd5b809150509250925092565b5f60208284031215610731575f80fd5b81518015158114610740575f80fd5b9392505050565b5f60208284031215610757575f80fd5b5051919050565b634e487b7160e01b5f52601160045260245ffd5b818103818111156107855761078561075e565b92915050565b80820281158282048414176107855761078561075e56fea264697066735822122007f0d16c3e2bca8a16a0fab9c960ba80daff4623dcc11c1311bf6329e38d921064736f6c634300081a0033a26469706673582212205db9a28e31a5d7dceb29362c426de08be307ee5ac1bfb1723e8f962a6c9de75764736f6c634300081a0033",
+  deployedBytecode: "0x608060405234801561000f575f80fd5b5060043610610034575f3560e01c8063c9c6539614610038578063e6a4390514610067575b5f80fd5b61004b6100463660046101be565b610097565b6040516001600160a01b03909116815260200160405180910390f35b61004b6100753660046101be565b5f6020818152928152604080822090935290815220546001600160a01b031681565b6001600160a01b038281165f908152602081815260408083208585168452909152812054909116156100fd5760405162461bcd60e51b815260206004820152600b60248201526a506169722065786973747360a81b604482015260640160405180910390fd5b828260405161010b90610196565b6001600160a01b03928316815291166020820152604001604051809103905ff08015801561013b573d5f803e3d5ffd5b506001600160a01b039384165f81815260208181526040808320968816835295815285822080549785166001600160a01b03199889168117909155828252868320938352929052939093208054909416909217909255919050565b6108d8806101f083390190565b80356001600160a01b03811681146101b9575f80fd5b919050565b5f80604083850312156101cf575f80fd5b6101d8836101a3565b91506101e6602084016101a3565b9050925092905056fe60c060405234801561000f575f80fd5b506040516108d83803806108d883398101604081905261002e91610086565b806001600160a01b0316826001600160a01b03161061004e578082610051565b81815b6001600160a01b0390811660a05216608052506100b79050565b80516001600160a01b0381168114610081575f80fd5b919050565b5f8060408385031215610097575f80fd5b6100a08361006b565b91506100ae6020840161006b565b90509250929050565b60805160a0516107d86101005f395f818160ed015281816102a2015281816103b8015261064801525f818160990152818161020a01528181610325015261059c01526107d85ff3fe608060405234801561000f575f80fd5b5060043610610055575f3560e01c80630902f1ac146100595780630dfe1681146100945780636d9a640a146100d3578063d21220a7146100e8578063fff6cae91461010f575b5f80fd5b5f54604080516001600160701b038084168252600160701b909304909216602083015263ffffffff4216908201526060015b60405180910390f35b6100bb7f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b03909116815260200161008b565b6100e66100e13660046106e0565b610117565b005b6100bb7f000000000000000000000000000000000000000000000000000000000000000081565b6100e6610587565b5f83118061012457505f82115b6101755760405162461bcd60e51b815260206004820152601a60248201527f496e73756666696369656e74206f757470757420616d6f756e7400000000000060448201526064015b60405180910390fd5b5f546001600160701b0380821691600160701b900416818510801561019957508084105b6101de5760405162461bcd60e51b8152602060048201526016602482015275496e73756666696369656e74206c697175696469747960501b604482015260640161016c565b84156102765760405163a9059cbb60e01b81526001600160a01b038481166004830152602482018790527f0000000000000000000000000000000000000000000000000000000000000000169063a9059cbb906044016020604051808303815f875af1158015610250573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906102749190610721565b505b831561030e5760405163a9059cbb60e01b81526001600160a01b038481166004830152602482018690527f0000000000000000000000000000000000000000000000000000000000000000169063a9059cbb906044016020604051808303815f875af11580156102e8573d5f803e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061030c9190610721565b505b6040516370a0823160e01b81523060048201525f907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906370a0823190602401602060405180830381865afa158015610372573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906103969190610747565b6040516370a0823160e01b81523060048201529091505f906001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016906370a0823190602401602060405180830381865afa1580156103fd573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906104219190610747565b90505f61042e8886610772565b831161043a575f61044e565b6104448886610772565b61044e9084610772565b90505f61045b8886610772565b8311610467575f61047b565b6104718886610772565b61047b9084610772565b90505f82118061048a57505f81115b6104d65760405162461bcd60e51b815260206004820152601960248201527f496e73756666696369656e7420696e70757420616d6f756e7400000000000000604482015260640161016c565b5f6104e283601961078b565b6104ee8661271061078b565b6104f89190610772565b90505f61050683601961078b565b6105128661271061078b565b61051c9190610772565b9050610528878961078b565b610536906305f5e10061078b565b610540828461078b565b10156105725760405162461bcd60e51b81526020600482015260016024820152604b60f81b604482015260640161016c565b61057a610587565b5050505050505050505050565b6040516370a0823160e01b81523060048201527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906370a0823190602401602060405180830381865afa1580156105e9573d5f803e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061060d9190610747565b5f80546dffffffffffffffffffffffffffff19166001600160701b03929092169190911790556040516370a0823160e01b81523060048201527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906370a0823190602401602060405180830381865afa158015610695573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906106b99190610747565b5f600e6101000a8154816001600160701b0302191690836001600160701b03160217905550565b5f805f606084860312156106f2575f80fd5b833592506020840135915060408401356001600160a01b0381168114610716575f80fd5b809150509250925092565b5f60208284031215610731575f80fd5b81518015158114610740575f80fd5b9392505050565b5f60208284031215610757575f80fd5b5051919050565b634e487b7160e01b5f52601160045260245ffd5b818103818111156107855761078561075e565b92915050565b80820281158282048414176107855761078561075e56fea264697066735822122007f0d16c3e2bca8a16a0fab9c960ba80daff4623dcc11c1311bf6329e38d921064736f6c634300081a0033a26469706673582212205db9a28e31a5d7dceb29362c426de08be307ee5ac1bfb1723e8f962a6c9de75764736f6c634300081a0033",
+} as const
+
+export const MockV2Pair = {
+  abi: [{"inputs":[{"internalType":"address","name":"tokenA","type":"address"},{"internalType":"address","name":"tokenB","type":"address"}],"stateMutability":"nonpayable","type":"constructor"},{"inputs":[],"name":"getReserves","outputs":[{"internalType":"uint112","name":"","type":"uint112"},{"internalType":"uint112","name":"","type":"uint112"},{"internalType":"uint32","name":"","type":"uint32"}],"stateMutability":"view","type":"function"},{"inputs":[{"internalType":"uint256","name":"amount0Out","type":"uint256"},{"internalType":"uint256","name":"amount1Out","type":"uint256"},{"internalType":"address","name":"to","type":"address"}],"name":"swap","outputs":[],"stateMutability":"nonpayable","type":"function"},{"inputs":[],"name":"sync","outputs":[],"stateMutability":"nonpayable","type":"function"},{"inputs":[],"name":"token0","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"token1","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"}],
+  bytecode: "0x60c060405234801561000f575f80fd5b506040516108d83803806108d883398101604081905261002e91610086565b806001600160a01b0316826001600160a01b03161061004e578082610051565b81815b6001600160a01b0390811660a05216608052506100b79050565b80516001600160a01b0381168114610081575f80fd5b919050565b5f8060408385031215610097575f80fd5b6100a08361006b565b91506100ae6020840161006b565b90509250929050565b60805160a0516107d86101005f395f818160ed015281816102a2015281816103b8015261064801525f818160990152818161020a01528181610325015261059c01526107d85ff3fe608060405234801561000f575f80fd5b5060043610610055575f3560e01c80630902f1ac146100595780630dfe1681146100945780636d9a640a146100d3578063d21220a7146100e8578063fff6cae91461010f575b5f80fd5b5f54604080516001600160701b038084168252600160701b909304909216602083015263ffffffff4216908201526060015b60405180910390f35b6100bb7f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b03909116815260200161008b565b6100e66100e13660046106e0565b610117565b005b6100bb7f000000000000000000000000000000000000000000000000000000000000000081565b6100e6610587565b5f83118061012457505f82115b6101755760405162461bcd60e51b815260206004820152601a60248201527f496e73756666696369656e74206f757470757420616d6f756e7400000000000060448201526064015b60405180910390fd5b5f546001600160701b0380821691600160701b900416818510801561019957508084105b6101de5760405162461bcd60e51b8152602060048201526016602482015275496e73756666696369656e74206c697175696469747960501b604482015260640161016c565b84156102765760405163a9059cbb60e01b81526001600160a01b038481166004830152602482018790527f0000000000000000000000000000000000000000000000000000000000000000169063a9059cbb906044016020604051808303815f875af1158015610250573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906102749190610721565b505b831561030e5760405163a9059cbb60e01b81526001600160a01b038481166004830152602482018690527f0000000000000000000000000000000000000000000000000000000000000000169063a9059cbb906044016020604051808303815f875af11580156102e8573d5f803e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061030c9190610721565b505b6040516370a0823160e01b81523060048201525f907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906370a0823190602401602060405180830381865afa158015610372573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906103969190610747565b6040516370a0823160e01b81523060048201529091505f906001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016906370a0823190602401602060405180830381865afa1580156103fd573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906104219190610747565b90505f61042e8886610772565b831161043a575f61044e565b6104448886610772565b61044e9084610772565b90505f61045b8886610772565b8311610467575f61047b565b6104718886610772565b61047b9084610772565b90505f82118061048a57505f81115b6104d65760405162461bcd60e51b815260206004820152601960248201527f496e73756666696369656e7420696e70757420616d6f756e7400000000000000604482015260640161016c565b5f6104e283601961078b565b6104ee8661271061078b565b6104f89190610772565b90505f61050683601961078b565b6105128661271061078b565b61051c9190610772565b9050610528878961078b565b610536906305f5e10061078b565b610540828461078b565b10156105725760405162461bcd60e51b81526020600482015260016024820152604b60f81b604482015260640161016c565b61057a610587565b5050505050505050505050565b6040516370a0823160e01b81523060048201527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906370a0823190602401602060405180830381865afa1580156105e9573d5f803e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061060d9190610747565b5f80546dffffffffffffffffffffffffffff19166001600160701b03929092169190911790556040516370a0823160e01b81523060048201527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906370a0823190602401602060405180830381865afa158015610695573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906106b99190610747565b5f600e6101000a8154816001600160701b0302191690836001600160701b03160217905550565b5f805f606084860312156106f2575f80fd5b833592506020840135915060408401356001600160a01b0381168114610716575f80fd5b809150509250925092565b5f60208284031215610731575f80fd5b81518015158114610740575f80fd5b9392505050565b5f60208284031215610757575f80fd5b5051919050565b634e487b7160e01b5f52601160045260245ffd5b818103818111156107855761078561075e565b92915050565b80820281158282048414176107855761078561075e56fea264697066735822122007f0d16c3e2bca8a16a0fab9c960ba80daff4623dcc11c1311bf6329e38d921064736f6c634300081a0033",
+  deployedBytecode: "0x608060405234801561000f575f80fd5b5060043610610055575f3560e01c80630902f1ac146100595780630dfe1681146100945780636d9a640a146100d3578063d21220a7146100e8578063fff6cae91461010f575b5f80fd5b5f54604080516001600160701b038084168252600160701b909304909216602083015263ffffffff4216908201526060015b60405180910390f35b6100bb7f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b03909116815260200161008b565b6100e66100e13660046106e0565b610117565b005b6100bb7f000000000000000000000000000000000000000000000000000000000000000081565b6100e6610587565b5f83118061012457505f82115b6101755760405162461bcd60e51b815260206004820152601a60248201527f496e73756666696369656e74206f757470757420616d6f756e7400000000000060448201526064015b60405180910390fd5b5f546001600160701b0380821691600160701b900416818510801561019957508084105b6101de5760405162461bcd60e51b8152602060048201526016602482015275496e73756666696369656e74206c697175696469747960501b604482015260640161016c565b84156102765760405163a9059cbb60e01b81526001600160a01b038481166004830152602482018790527f0000000000000000000000000000000000000000000000000000000000000000169063a9059cbb906044016020604051808303815f875af1158015610250573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906102749190610721565b505b831561030e5760405163a9059cbb60e01b81526001600160a01b038481166004830152602482018690527f0000000000000000000000000000000000000000000000000000000000000000169063a9059cbb906044016020604051808303815f875af11580156102e8573d5f803e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061030c9190610721565b505b6040516370a0823160e01b81523060048201525f907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906370a0823190602401602060405180830381865afa158015610372573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906103969190610747565b6040516370a0823160e01b81523060048201529091505f906001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016906370a0823190602401602060405180830381865afa1580156103fd573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906104219190610747565b90505f61042e8886610772565b831161043a575f61044e565b6104448886610772565b61044e9084610772565b90505f61045b8886610772565b8311610467575f61047b565b6104718886610772565b61047b9084610772565b90505f82118061048a57505f81115b6104d65760405162461bcd60e51b815260206004820152601960248201527f496e73756666696369656e7420696e70757420616d6f756e7400000000000000604482015260640161016c565b5f6104e283601961078b565b6104ee8661271061078b565b6104f89190610772565b90505f61050683601961078b565b6105128661271061078b565b61051c9190610772565b9050610528878961078b565b610536906305f5e10061078b565b610540828461078b565b10156105725760405162461bcd60e51b81526020600482015260016024820152604b60f81b604482015260640161016c565b61057a610587565b5050505050505050505050565b6040516370a0823160e01b81523060048201527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906370a0823190602401602060405180830381865afa1580156105e9573d5f803e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061060d9190610747565b5f80546dffffffffffffffffffffffffffff19166001600160701b03929092169190911790556040516370a0823160e01b81523060048201527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906370a0823190602401602060405180830381865afa158015610695573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906106b99190610747565b5f600e6101000a8154816001600160701b0302191690836001600160701b03160217905550565b5f805f606084860312156106f2575f80fd5b833592506020840135915060408401356001600160a01b0381168114610716575f80fd5b809150509250925092565b5f60208284031215610731575f80fd5b81518015158114610740575f80fd5b9392505050565b5f60208284031215610757575f80fd5b5051919050565b634e487b7160e01b5f52601160045260245ffd5b818103818111156107855761078561075e565b92915050565b80820281158282048414176107855761078561075e56fea264697066735822122007f0d16c3e2bca8a16a0fab9c960ba80daff4623dcc11c1311bf6329e38d921064736f6c634300081a0033",
+} as const
+
+export const MockSmartRouter = {
+  abi: [{"inputs":[{"internalType":"contract MockV2Factory","name":"factory_","type":"address"},{"internalType":"contract MockWCAMP","name":"weth9","type":"address"}],"stateMutability":"nonpayable","type":"constructor"},{"inputs":[],"name":"WETH9","outputs":[{"internalType":"contract MockWCAMP","name":"","type":"address"}],"stateMutability":"view","type":"function"},{"inputs":[],"name":"factory","outputs":[{"internalType":"contract MockV2Factory","name":"","type":"address"}],"stateMutability":"view","type":"function"},{"inputs":[{"internalType":"uint256","name":"amountOut","type":"uint256"},{"internalType":"address[]","name":"path","type":"address[]"}],"name":"getAmountsIn","outputs":[{"internalType":"uint256[]","name":"amounts","type":"uint256[]"}],"stateMutability":"view","type":"function"},{"inputs":[{"internalType":"uint256","name":"amountIn","type":"uint256"},{"internalType":"address[]","name":"path","type":"address[]"}],"name":"getAmountsOut","outputs":[{"internalType":"uint256[]","name":"amounts","type":"uint256[]"}],"stateMutability":"view","type":"function"},{"inputs":[{"internalType":"uint256","name":"deadline","type":"uint256"},{"internalType":"bytes[]","name":"data","type":"bytes[]"}],"name":"multicall","outputs":[{"internalType":"bytes[]","name":"results","type":"bytes[]"}],"stateMutability":"payable","type":"function"},{"inputs":[],"name":"refundETH","outputs":[],"stateMutability":"payable","type":"function"},{"inputs":[{"internalType":"uint256","name":"amountIn","type":"uint256"},{"internalType":"uint256","name":"amountOutMin","type":"uint256"},{"internalType":"address[]","name":"path","type":"address[]"},{"internalType":"address","name":"to","type":"address"}],"name":"swapExactTokensForTokens","outputs":[{"internalType":"uint256","name":"amountOut","type":"uint256"}],"stateMutability":"payable","type":"function"},{"inputs":[{"internalType":"uint256","name":"amountOut","type":"uint256"},{"internalType":"uint256","name":"amountInMax","type":"uint256"},{"internalType":"address[]","name":"path","type":"address[]"},{"internalType":"address","name":"to","type":"address"}],"name":"swapTokensForExactTokens","outputs":[{"internalType":"uint256","name":"amountIn","type":"uint256"}],"stateMutability":"payable","type":"function"},{"inputs":[{"internalType":"uint256","name":"amountMinimum","type":"uint256"},{"internalType":"address","name":"to","type":"address"}],"name":"unwrapWETH9","outputs":[],"stateMutability":"payable","type":"function"},{"inputs":[{"internalType":"uint256","name":"amountMinimum","type":"uint256"}],"name":"unwrapWETH9","outputs":[],"stateMutability":"payable","type":"function"},{"stateMutability":"payable","type":"receive"}],
+  bytecode: "0x60c060405234801561000f575f80fd5b506040516118f63803806118f683398101604081905261002e9161005c565b6001600160a01b039182166080521660a052610094565b6001600160a01b0381168114610059575f80fd5b50565b5f806040838503121561006d575f80fd5b825161007881610045565b602084015190925061008981610045565b809150509250929050565b60805160a0516117f56101015f395f818160a2015281816101ae0152818161076d0152818161084101528181610dd201528181610e180152610ea901525f8181610219015281816104af0152818161066701528181610c1901528181610fea015261110001526117f55ff3fe608060405260043610610092575f3560e01c80634961699711610057578063496169971461018a5780634aa4a4fc1461019d5780635ae401dc146101e8578063c45a015514610208578063d06ca61f1461023b575f80fd5b806312210e8a146101065780631f00ca741461010e57806342712a6714610143578063472b43f31461016457806349404b7c14610177575f80fd5b3661010257336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146101005760405162461bcd60e51b81526020600482015260096024820152684e6f7420574554483960b81b60448201526064015b60405180910390fd5b005b5f80fd5b61010061025a565b348015610119575f80fd5b5061012d610128366004611413565b61026c565b60405161013a919061145b565b60405180910390f35b6101566101513660046114b1565b610412565b60405190815260200161013a565b6101566101723660046114b1565b6105bc565b610100610185366004611517565b610756565b610100610198366004611545565b6108af565b3480156101a8575f80fd5b506101d07f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b03909116815260200161013a565b6101fb6101f6366004611413565b6108bc565b60405161013a919061155c565b348015610213575f80fd5b506101d07f000000000000000000000000000000000000000000000000000000000000000081565b348015610246575f80fd5b5061012d610255366004611413565b610a09565b471561026a5761026a3347610b56565b565b60608167ffffffffffffffff811115610287576102876115e0565b6040519080825280602002602001820160405280156102b0578160200160208202803683370190505b50905083816102c0600185611608565b815181106102d0576102d0611621565b60209081029190910101525f6102e7600184611608565b90505b801561040a575f806103528686610302600187611608565b81811061031157610311611621565b90506020020160208101906103269190611635565b87878681811061033857610338611621565b905060200201602081019061034d9190611635565b610bec565b9150915083838151811061036857610368611621565b60200260200101518161037b9190611608565b610387906126f7611657565b84848151811061039957610399611621565b6020026020010151836103ac9190611657565b6103b890612710611657565b6103c2919061166e565b6103cd90600161168d565b846103d9600186611608565b815181106103e9576103e9611621565b60200260200101818152505050508080610402906116a0565b9150506102ea565b509392505050565b5f8061041f87868661026c565b9050805f8151811061043357610433611621565b60200260200101519150858211156104825760405162461bcd60e51b8152602060048201526012602482015271151bdbc81b5d58da081c995c5d595cdd195960721b60448201526064016100f7565b61059e85855f81811061049757610497611621565b90506020020160208101906104ac9190611635565b337f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031663e6a4390589895f8181106104ee576104ee611621565b90506020020160208101906105039190611635565b8a8a600181811061051657610516611621565b905060200201602081019061052b9190611635565b6040516001600160e01b031960e085901b1681526001600160a01b03928316600482015291166024820152604401602060405180830381865afa158015610574573d5f803e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061059891906116b5565b85610dd0565b6105b28186866105ad87610f9d565b610fd3565b5095945050505050565b5f806105c9878686610a09565b905080600182516105da9190611608565b815181106105ea576105ea611621565b602002602001015191508582101561063a5760405162461bcd60e51b8152602060048201526013602482015272151bdbc81b1a5d1d1b19481c9958d95a5d9959606a1b60448201526064016100f7565b61059e85855f81811061064f5761064f611621565b90506020020160208101906106649190611635565b337f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031663e6a4390589895f8181106106a6576106a6611621565b90506020020160208101906106bb9190611635565b8a8a60018181106106ce576106ce611621565b90506020020160208101906106e39190611635565b6040516001600160e01b031960e085901b1681526001600160a01b03928316600482015291166024820152604401602060405180830381865afa15801561072c573d5f803e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061075091906116b5565b8a610dd0565b6040516370a0823160e01b81523060048201525f907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906370a0823190602401602060405180830381865afa1580156107ba573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906107de91906116d0565b9050828110156108255760405162461bcd60e51b8152602060048201526012602482015271496e73756666696369656e7420574554483960701b60448201526064016100f7565b80156108aa57604051632e1a7d4d60e01b8152600481018290527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031690632e1a7d4d906024015f604051808303815f87803b15801561088a575f80fd5b505af115801561089c573d5f803e3d5ffd5b505050506108aa8282610b56565b505050565b6108b98133610756565b50565b6060834211156109045760405162461bcd60e51b8152602060048201526013602482015272151c985b9cd858dd1a5bdb881d1bdbc81bdb19606a1b60448201526064016100f7565b8167ffffffffffffffff81111561091d5761091d6115e0565b60405190808252806020026020018201604052801561095057816020015b606081526020019060019003908161093b5790505b5090505f5b8281101561040a575f803086868581811061097257610972611621565b905060200281019061098491906116e7565b60405161099292919061172a565b5f60405180830381855af49150503d805f81146109ca576040519150601f19603f3d011682016040523d82523d5f602084013e6109cf565b606091505b5091509150816109e157805160208201fd5b808484815181106109f4576109f4611621565b60209081029190910101525050600101610955565b60608167ffffffffffffffff811115610a2457610a246115e0565b604051908082528060200260200182016040528015610a4d578160200160208202803683370190505b50905083815f81518110610a6357610a63611621565b6020026020010181815250505f5b610a7c600184611608565b81101561040a575f80610acb868685818110610a9a57610a9a611621565b9050602002016020810190610aaf9190611635565b8787610abc87600161168d565b81811061033857610338611621565b915091505f848481518110610ae257610ae2611621565b60200260200101516126f7610af79190611657565b905080610b0684612710611657565b610b10919061168d565b610b1a8383611657565b610b24919061166e565b85610b3086600161168d565b81518110610b4057610b40611621565b6020908102919091010152505050600101610a71565b5f826001600160a01b0316826040515f6040518083038185875af1925050503d805f8114610b9f576040519150601f19603f3d011682016040523d82523d5f602084013e610ba4565b606091505b50509050806108aa5760405162461bcd60e51b815260206004820152601460248201527310d05354081d1c985b9cd9995c8819985a5b195960621b60448201526064016100f7565b60405163e6a4390560e01b81526001600160a01b03838116600483015282811660248301525f91829182917f00000000000000000000000000000000000000000000000000000000000000009091169063e6a4390590604401602060405180830381865afa158015610c60573d5f803e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610c8491906116b5565b90506001600160a01b038116610cc65760405162461bcd60e51b81526020600482015260076024820152662737903830b4b960c91b60448201526064016100f7565b5f80826001600160a01b0316630902f1ac6040518163ffffffff1660e01b8152600401606060405180830381865afa158015610d04573d5f803e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610d289190611754565b506001600160701b031691506001600160701b03169150826001600160a01b0316630dfe16816040518163ffffffff1660e01b8152600401602060405180830381865afa158015610d7b573d5f803e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610d9f91906116b5565b6001600160a01b0316876001600160a01b031614610dbe578082610dc1565b81815b945094505050505b9250929050565b7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316846001600160a01b0316148015610e115750804710155b15610f1d577f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031663d0e30db0826040518263ffffffff1660e01b81526004015f604051808303818588803b158015610e6f575f80fd5b505af1158015610e81573d5f803e3d5ffd5b505060405163a9059cbb60e01b81526001600160a01b038681166004830152602482018690527f000000000000000000000000000000000000000000000000000000000000000016935063a9059cbb925060440190506020604051808303815f875af1158015610ef3573d5f803e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610f1791906117a0565b50610f97565b6040516323b872dd60e01b81526001600160a01b0384811660048301528381166024830152604482018390528516906323b872dd906064016020604051808303815f875af1158015610f71573d5f803e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610f9591906117a0565b505b50505050565b5f5f196001600160a01b03831601610fb6575033919050565b6001196001600160a01b03831601610fcf575030919050565b5090565b5f5b610fe0600184611608565b811015610f95575f7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031663e6a4390586868581811061102957611029611621565b905060200201602081019061103e9190611635565b878761104b87600161168d565b81811061105a5761105a611621565b905060200201602081019061106f9190611635565b6040516001600160e01b031960e085901b1681526001600160a01b03928316600482015291166024820152604401602060405180830381865afa1580156110b8573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906110dc91906116b5565b90505f6110ea600286611608565b83106110f657836111f4565b6001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001663e6a43905878761113287600161168d565b81811061114157611141611621565b90506020020160208101906111569190611635565b888861116388600261168d565b81811061117257611172611621565b90506020020160208101906111879190611635565b6040516001600160e01b031960e085901b1681526001600160a01b03928316600482015291166024820152604401602060405180830381865afa1580156111d0573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906111f491906116b5565b9050816001600160a01b0316630dfe16816040518163ffffffff1660e01b8152600401602060405180830381865afa158015611232573d5f803e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061125691906116b5565b6001600160a01b031686868581811061127157611271611621565b90506020020160208101906112869190611635565b6001600160a01b031603611330576001600160a01b038216636d9a640a5f896112b087600161168d565b815181106112c0576112c0611621565b60209081029190910101516040516001600160e01b031960e085901b168152600481019290925260248201526001600160a01b03841660448201526064015f604051808303815f87803b158015611315575f80fd5b505af1158015611327573d5f803e3d5ffd5b505050506113c8565b6001600160a01b038216636d9a640a8861134b86600161168d565b8151811061135b5761135b611621565b60209081029190910101516040516001600160e01b031960e084901b16815260048101919091525f60248201526001600160a01b03841660448201526064015f604051808303815f87803b1580156113b1575f80fd5b505af11580156113c3573d5f803e3d5ffd5b505050505b5050600101610fd5565b5f8083601f8401126113e2575f80fd5b50813567ffffffffffffffff8111156113f9575f80fd5b6020830191508360208260051b8501011115610dc9575f80fd5b5f805f60408486031215611425575f80fd5b83359250602084013567ffffffffffffffff811115611442575f80fd5b61144e868287016113d2565b9497909650939450505050565b602080825282518282018190525f918401906040840190835b81811015611492578351835260209384019390920191600101611474565b509095945050505050565b6001600160a01b03811681146108b9575f80fd5b5f805f805f608086880312156114c5575f80fd5b8535945060208601359350604086013567ffffffffffffffff8111156114e9575f80fd5b6114f5888289016113d2565b90945092505060608601356115098161149d565b809150509295509295909350565b5f8060408385031215611528575f80fd5b82359150602083013561153a8161149d565b809150509250929050565b5f60208284031215611555575f80fd5b5035919050565b5f602082016020835280845180835260408501915060408160051b8601019250602086015f5b828110156115d457603f19878603018452815180518087528060208301602089015e5f602082890101526020601f19601f83011688010196505050602082019150602084019350600181019050611582565b50929695505050505050565b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f52601160045260245ffd5b8181038181111561161b5761161b6115f4565b92915050565b634e487b7160e01b5f52603260045260245ffd5b5f60208284031215611645575f80fd5b81356116508161149d565b9392505050565b808202811582820484141761161b5761161b6115f4565b5f8261168857634e487b7160e01b5f52601260045260245ffd5b500490565b8082018082111561161b5761161b6115f4565b5f816116ae576116ae6115f4565b505f190190565b5f602082840312156116c5575f80fd5b81516116508161149d565b5f602082840312156116e0575f80fd5b5051919050565b5f808335601e198436030181126116fc575f80fd5b83018035915067ffffffffffffffff821115611716575f80fd5b602001915036819003821315610dc9575f80fd5b818382375f9101908152919050565b80516001600160701b038116811461174f575f80fd5b919050565b5f805f60608486031215611766575f80fd5b61176f84611739565b925061177d60208501611739565b9150604084015163ffffffff81168114611795575f80fd5b809150509250925092565b5f602082840312156117b0575f80fd5b81518015158114611650575f80fdfea264697066735822122077e90a26c819469d961709970fe922fd64db3ad0a060dbdec62f590b92d40d3664736f6c634300081a0033",
+  deployedBytecode: "0x608060405260043610610092575f3560e01c80634961699711610057578063496169971461018a5780634aa4a4fc1461019d5780635ae401dc146101e8578063c45a015514610208578063d06ca61f1461023b575f80fd5b806312210e8a146101065780631f00ca741461010e57806342712a6714610143578063472b43f31461016457806349404b7c14610177575f80fd5b3661010257336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146101005760405162461bcd60e51b81526020600482015260096024820152684e6f7420574554483960b81b60448201526064015b60405180910390fd5b005b5f80fd5b61010061025a565b348015610119575f80fd5b5061012d610128366004611413565b61026c565b60405161013a919061145b565b60405180910390f35b6101566101513660046114b1565b610412565b60405190815260200161013a565b6101566101723660046114b1565b6105bc565b610100610185366004611517565b610756565b610100610198366004611545565b6108af565b3480156101a8575f80fd5b506101d07f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b03909116815260200161013a565b6101fb6101f6366004611413565b6108bc565b60405161013a919061155c565b348015610213575f80fd5b506101d07f000000000000000000000000000000000000000000000000000000000000000081565b348015610246575f80fd5b5061012d610255366004611413565b610a09565b471561026a5761026a3347610b56565b565b60608167ffffffffffffffff811115610287576102876115e0565b6040519080825280602002602001820160405280156102b0578160200160208202803683370190505b50905083816102c0600185611608565b815181106102d0576102d0611621565b60209081029190910101525f6102e7600184611608565b90505b801561040a575f806103528686610302600187611608565b81811061031157610311611621565b90506020020160208101906103269190611635565b87878681811061033857610338611621565b905060200201602081019061034d9190611635565b610bec565b9150915083838151811061036857610368611621565b60200260200101518161037b9190611608565b610387906126f7611657565b84848151811061039957610399611621565b6020026020010151836103ac9190611657565b6103b890612710611657565b6103c2919061166e565b6103cd90600161168d565b846103d9600186611608565b815181106103e9576103e9611621565b60200260200101818152505050508080610402906116a0565b9150506102ea565b509392505050565b5f8061041f87868661026c565b9050805f8151811061043357610433611621565b60200260200101519150858211156104825760405162461bcd60e51b8152602060048201526012602482015271151bdbc81b5d58da081c995c5d595cdd195960721b60448201526064016100f7565b61059e85855f81811061049757610497611621565b90506020020160208101906104ac9190611635565b337f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031663e6a4390589895f8181106104ee576104ee611621565b90506020020160208101906105039190611635565b8a8a600181811061051657610516611621565b905060200201602081019061052b9190611635565b6040516001600160e01b031960e085901b1681526001600160a01b03928316600482015291166024820152604401602060405180830381865afa158015610574573d5f803e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061059891906116b5565b85610dd0565b6105b28186866105ad87610f9d565b610fd3565b5095945050505050565b5f806105c9878686610a09565b905080600182516105da9190611608565b815181106105ea576105ea611621565b602002602001015191508582101561063a5760405162461bcd60e51b8152602060048201526013602482015272151bdbc81b1a5d1d1b19481c9958d95a5d9959606a1b60448201526064016100f7565b61059e85855f81811061064f5761064f611621565b90506020020160208101906106649190611635565b337f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031663e6a4390589895f8181106106a6576106a6611621565b90506020020160208101906106bb9190611635565b8a8a60018181106106ce576106ce611621565b90506020020160208101906106e39190611635565b6040516001600160e01b031960e085901b1681526001600160a01b03928316600482015291166024820152604401602060405180830381865afa15801561072c573d5f803e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061075091906116b5565b8a610dd0565b6040516370a0823160e01b81523060048201525f907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906370a0823190602401602060405180830381865afa1580156107ba573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906107de91906116d0565b9050828110156108255760405162461bcd60e51b8152602060048201526012602482015271496e73756666696369656e7420574554483960701b60448201526064016100f7565b80156108aa57604051632e1a7d4d60e01b8152600481018290527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031690632e1a7d4d906024015f604051808303815f87803b15801561088a575f80fd5b505af115801561089c573d5f803e3d5ffd5b505050506108aa8282610b56565b505050565b6108b98133610756565b50565b6060834211156109045760405162461bcd60e51b8152602060048201526013602482015272151c985b9cd858dd1a5bdb881d1bdbc81bdb19606a1b60448201526064016100f7565b8167ffffffffffffffff81111561091d5761091d6115e0565b60405190808252806020026020018201604052801561095057816020015b606081526020019060019003908161093b5790505b5090505f5b8281101561040a575f803086868581811061097257610972611621565b905060200281019061098491906116e7565b60405161099292919061172a565b5f60405180830381855af49150503d805f81146109ca576040519150601f19603f3d011682016040523d82523d5f602084013e6109cf565b606091505b5091509150816109e157805160208201fd5b808484815181106109f4576109f4611621565b60209081029190910101525050600101610955565b60608167ffffffffffffffff811115610a2457610a246115e0565b604051908082528060200260200182016040528015610a4d578160200160208202803683370190505b50905083815f81518110610a6357610a63611621565b6020026020010181815250505f5b610a7c600184611608565b81101561040a575f80610acb868685818110610a9a57610a9a611621565b9050602002016020810190610aaf9190611635565b8787610abc87600161168d565b81811061033857610338611621565b915091505f848481518110610ae257610ae2611621565b60200260200101516126f7610af79190611657565b905080610b0684612710611657565b610b10919061168d565b610b1a8383611657565b610b24919061166e565b85610b3086600161168d565b81518110610b4057610b40611621565b6020908102919091010152505050600101610a71565b5f826001600160a01b0316826040515f6040518083038185875af1925050503d805f8114610b9f576040519150601f19603f3d011682016040523d82523d5f602084013e610ba4565b606091505b50509050806108aa5760405162461bcd60e51b815260206004820152601460248201527310d05354081d1c985b9cd9995c8819985a5b195960621b60448201526064016100f7565b60405163e6a4390560e01b81526001600160a01b03838116600483015282811660248301525f91829182917f00000000000000000000000000000000000000000000000000000000000000009091169063e6a4390590604401602060405180830381865afa158015610c60573d5f803e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610c8491906116b5565b90506001600160a01b038116610cc65760405162461bcd60e51b81526020600482015260076024820152662737903830b4b960c91b60448201526064016100f7565b5f80826001600160a01b0316630902f1ac6040518163ffffffff1660e01b8152600401606060405180830381865afa158015610d04573d5f803e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610d289190611754565b506001600160701b031691506001600160701b03169150826001600160a01b0316630dfe16816040518163ffffffff1660e01b8152600401602060405180830381865afa158015610d7b573d5f803e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610d9f91906116b5565b6001600160a01b0316876001600160a01b031614610dbe578082610dc1565b81815b945094505050505b9250929050565b7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316846001600160a01b0316148015610e115750804710155b15610f1d577f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031663d0e30db0826040518263ffffffff1660e01b81526004015f604051808303818588803b158015610e6f575f80fd5b505af1158015610e81573d5f803e3d5ffd5b505060405163a9059cbb60e01b81526001600160a01b038681166004830152602482018690527f000000000000000000000000000000000000000000000000000000000000000016935063a9059cbb925060440190506020604051808303815f875af1158015610ef3573d5f803e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610f1791906117a0565b50610f97565b6040516323b872dd60e01b81526001600160a01b0384811660048301528381166024830152604482018390528516906323b872dd906064016020604051808303815f875af1158015610f71573d5f803e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610f9591906117a0565b505b50505050565b5f5f196001600160a01b03831601610fb6575033919050565b6001196001600160a01b03831601610fcf575030919050565b5090565b5f5b610fe0600184611608565b811015610f95575f7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031663e6a4390586868581811061102957611029611621565b905060200201602081019061103e9190611635565b878761104b87600161168d565b81811061105a5761105a611621565b905060200201602081019061106f9190611635565b6040516001600160e01b031960e085901b1681526001600160a01b03928316600482015291166024820152604401602060405180830381865afa1580156110b8573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906110dc91906116b5565b90505f6110ea600286611608565b83106110f657836111f4565b6001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001663e6a43905878761113287600161168d565b81811061114157611141611621565b90506020020160208101906111569190611635565b888861116388600261168d565b81811061117257611172611621565b90506020020160208101906111879190611635565b6040516001600160e01b031960e085901b1681526001600160a01b03928316600482015291166024820152604401602060405180830381865afa1580156111d0573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906111f491906116b5565b9050816001600160a01b0316630dfe16816040518163ffffffff1660e01b8152600401602060405180830381865afa158015611232573d5f803e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061125691906116b5565b6001600160a01b031686868581811061127157611271611621565b90506020020160208101906112869190611635565b6001600160a01b031603611330576001600160a01b038216636d9a640a5f896112b087600161168d565b815181106112c0576112c0611621565b60209081029190910101516040516001600160e01b031960e085901b168152600481019290925260248201526001600160a01b03841660448201526064015f604051808303815f87803b158015611315575f80fd5b505af1158015611327573d5f803e3d5ffd5b505050506113c8565b6001600160a01b038216636d9a640a8861134b86600161168d565b8151811061135b5761135b611621565b60209081029190910101516040516001600160e01b031960e084901b16815260048101919091525f60248201526001600160a01b03841660448201526064015f604051808303815f87803b1580156113b1575f80fd5b505af11580156113c3573d5f803e3d5ffd5b505050505b5050600101610fd5565b5f8083601f8401126113e2575f80fd5b50813567ffffffffffffffff8111156113f9575f80fd5b6020830191508360208260051b8501011115610dc9575f80fd5b5f805f60408486031215611425575f80fd5b83359250602084013567ffffffffffffffff811115611442575f80fd5b61144e868287016113d2565b9497909650939450505050565b602080825282518282018190525f918401906040840190835b81811015611492578351835260209384019390920191600101611474565b509095945050505050565b6001600160a01b03811681146108b9575f80fd5b5f805f805f608086880312156114c5575f80fd5b8535945060208601359350604086013567ffffffffffffffff8111156114e9575f80fd5b6114f5888289016113d2565b90945092505060608601356115098161149d565b809150509295509295909350565b5f8060408385031215611528575f80fd5b82359150602083013561153a8161149d565b809150509250929050565b5f60208284031215611555575f80fd5b5035919050565b5f602082016020835280845180835260408501915060408160051b8601019250602086015f5b828110156115d457603f19878603018452815180518087528060208301602089015e5f602082890101526020601f19601f83011688010196505050602082019150602084019350600181019050611582565b50929695505050505050565b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f52601160045260245ffd5b8181038181111561161b5761161b6115f4565b92915050565b634e487b7160e01b5f52603260045260245ffd5b5f60208284031215611645575f80fd5b81356116508161149d565b9392505050565b808202811582820484141761161b5761161b6115f4565b5f8261168857634e487b7160e01b5f52601260045260245ffd5b500490565b8082018082111561161b5761161b6115f4565b5f816116ae576116ae6115f4565b505f190190565b5f602082840312156116c5575f80fd5b81516116508161149d565b5f602082840312156116e0575f80fd5b5051919050565b5f808335601e198436030181126116fc575f80fd5b83018035915067ffffffffffffffff821115611716575f80fd5b602001915036819003821315610dc9575f80fd5b818382375f9101908152919050565b80516001600160701b038116811461174f575f80fd5b919050565b5f805f60608486031215611766575f80fd5b61176f84611739565b925061177d60208501611739565b9150604084015163ffffffff81168114611795575f80fd5b809150509250925092565b5f602082840312156117b0575f80fd5b81518015158114611650575f80fdfea264697066735822122077e90a26c819469d961709970fe922fd64db3ad0a060dbdec62f590b92d40d3664736f6c634300081a0033",
+} as const
+
+export const Multicall3 = {
+  abi: [{"inputs":[{"components":[{"internalType":"address","name":"target","type":"address"},{"internalType":"bool","name":"allowFailure","type":"bool"},{"internalType":"bytes","name":"callData","type":"bytes"}],"internalType":"struct Multicall3.Call3[]","name":"calls","type":"tuple[]"}],"name":"aggregate3","outputs":[{"components":[{"internalType":"bool","name":"success","type":"bool"},{"internalType":"bytes","name":"returnData","type":"bytes"}],"internalType":"struct Multicall3.Result[]","name":"results","type":"tuple[]"}],"stateMutability":"payable","type":"function"}],
+  bytecode: "0x6080604052348015600e575f80fd5b506104758061001c5f395ff3fe60806040526004361061001d575f3560e01c806382ad56cb14610021575b5f80fd5b61003461002f366004610248565b61004a565b60405161004191906102b9565b60405180910390f35b60608167ffffffffffffffff81111561006557610065610354565b6040519080825280602002602001820160405280156100aa57816020015b604080518082019091525f8152606060208201528152602001906001900390816100835790505b5090505f5b82811015610241575f808585848181106100cb576100cb610368565b90506020028101906100dd919061037c565b6100eb90602081019061039a565b6001600160a01b031686868581811061010657610106610368565b9050602002810190610118919061037c565b6101269060408101906103c7565b604051610134929190610411565b5f604051808303815f865af19150503d805f811461016d576040519150601f19603f3d011682016040523d82523d5f602084013e610172565b606091505b509150915081806101b3575085858481811061019057610190610368565b90506020028101906101a2919061037c565b6101b3906040810190602001610420565b6102035760405162461bcd60e51b815260206004820152601760248201527f4d756c746963616c6c333a2063616c6c206661696c6564000000000000000000604482015260640160405180910390fd5b604051806040016040528083151581526020018281525084848151811061022c5761022c610368565b602090810291909101015250506001016100af565b5092915050565b5f8060208385031215610259575f80fd5b823567ffffffffffffffff81111561026f575f80fd5b8301601f8101851361027f575f80fd5b803567ffffffffffffffff811115610295575f80fd5b8560208260051b84010111156102a9575f80fd5b6020919091019590945092505050565b5f602082016020835280845180835260408501915060408160051b8601019250602086015f5b8281101561034857603f198786030184528151805115158652602081015190506040602087015280518060408801528060208301606089015e5f606082890101526060601f19601f830116880101965050506020820191506020840193506001810190506102df565b50929695505050505050565b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f52603260045260245ffd5b5f8235605e19833603018112610390575f80fd5b9190910192915050565b5f602082840312156103aa575f80fd5b81356001600160a01b03811681146103c0575f80fd5b9392505050565b5f808335601e198436030181126103dc575f80fd5b83018035915067ffffffffffffffff8211156103f6575f80fd5b60200191503681900382131561040a575f80fd5b9250929050565b818382375f9101908152919050565b5f60208284031215610430575f80fd5b813580151581146103c0575f80fdfea26469706673582212201269d04cbec056f36252251c71d76bf3c741b8a1a0d1175f1821289486e2449164736f6c634300081a0033",
+  deployedBytecode: "0x60806040526004361061001d575f3560e01c806382ad56cb14610021575b5f80fd5b61003461002f366004610248565b61004a565b60405161004191906102b9565b60405180910390f35b60608167ffffffffffffffff81111561006557610065610354565b6040519080825280602002602001820160405280156100aa57816020015b604080518082019091525f8152606060208201528152602001906001900390816100835790505b5090505f5b82811015610241575f808585848181106100cb576100cb610368565b90506020028101906100dd919061037c565b6100eb90602081019061039a565b6001600160a01b031686868581811061010657610106610368565b9050602002810190610118919061037c565b6101269060408101906103c7565b604051610134929190610411565b5f604051808303815f865af19150503d805f811461016d576040519150601f19603f3d011682016040523d82523d5f602084013e610172565b606091505b509150915081806101b3575085858481811061019057610190610368565b90506020028101906101a2919061037c565b6101b3906040810190602001610420565b6102035760405162461bcd60e51b815260206004820152601760248201527f4d756c746963616c6c333a2063616c6c206661696c6564000000000000000000604482015260640160405180910390fd5b604051806040016040528083151581526020018281525084848151811061022c5761022c610368565b602090810291909101015250506001016100af565b5092915050565b5f8060208385031215610259575f80fd5b823567ffffffffffffffff81111561026f575f80fd5b8301601f8101851361027f575f80fd5b803567ffffffffffffffff811115610295575f80fd5b8560208260051b84010111156102a9575f80fd5b6020919091019590945092505050565b5f602082016020835280845180835260408501915060408160051b8601019250602086015f5b8281101561034857603f198786030184528151805115158652602081015190506040602087015280518060408801528060208301606089015e5f606082890101526060601f19601f830116880101965050506020820191506020840193506001810190506102df565b50929695505050505050565b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f52603260045260245ffd5b5f8235605e19833603018112610390575f80fd5b9190910192915050565b5f602082840312156103aa575f80fd5b81356001600160a01b03811681146103c0575f80fd5b9392505050565b5f808335601e198436030181126103dc575f80fd5b83018035915067ffffffffffffffff8211156103f6575f80fd5b60200191503681900382131561040a575f80fd5b9250929050565b818382375f9101908152919050565b5f60208284031215610430575f80fd5b813580151581146103c0575f80fdfea26469706673582212201269d04cbec056f36252251c71d76bf3c741b8a1a0d1175f1821289486e2449164736f6c634300081a0033",
+} as const
@@ -0,0 +1,78 @@
+import { execFileSync } from "child_process"
+import { readdirSync, readFileSync, writeFileSync } from "fs"
+import { dirname, join } from "path"
+import { fileURLToPath } from "url"
+
+/**
+ * Compile the mock contracts of the e2e suite with solcjs and write their ABIs
+ * and bytecode to artifacts.ts. Run after changing a .sol file:
+ *
+ *   npx tsx test/e2e/contracts/compile.ts
+ */
+
+const SOLC_VERSION = "0.8.26"
+const CONTRACTS = ["MockERC20", "MockWCAMP", "MockV2Factory", "MockV2Pair", "MockSmartRouter", "Multicall3"]
+
+interface CompiledContract {
+  abi: unknown[]
+  evm: { bytecode: { object: string }; deployedBytecode: { object: string } }
+}
+
+interface CompilerOutput {
+  errors?: Array<{ severity: string; formattedMessage: string }>
+  contracts: Record<string, Record<string, CompiledContract>>
+}
+
+const directory = dirname(fileURLToPath(import.meta.url))
+const sources = Object.fromEntries(
+  readdirSync(directory)
+    .filter(file => file.endsWith(".sol"))
+    .map(file => [file, { content: readFileSync(join(directory, file), "utf8") }])
+)
+
+const input = {
+  language: "Solidity",
+  sources,
+  settings: {
+    optimizer: { enabled: true, runs: 200 },
+    outputSelection: { "*": { "*": ["abi", "evm.bytecode.object", "evm.deployedBytecode.object"] } },
+  },
+}
+
+const stdout = execFileSync("npx", ["--yes", `solc@${SOLC_VERSION}`, "--standard-json"], {
+  cwd: directory,
+  input: JSON.stringify(input),
+  maxBuffer: 64 * 1024 * 1024,
+}).toString()
+// solcjs prints notices (e.g. about missing SMT solvers) before the JSON
+const output = JSON.parse(stdout.slice(stdout.indexOf("{"))) as CompilerOutput
+
+const errors = (output.errors ?? []).filter(error => error.severity === "error")
+if (errors.length > 0) {
+  throw new Error(`Compilation failed:\n${errors.map(error => error.formattedMessage).join("\n")}`)
+}
+
+const compiled = Object.assign({}, ...Object.values(output.contracts)) as Record<string, CompiledContract>
+const exports = CONTRACTS.map(name => {
+  const contract = compiled[name]
+  if (!contract) {
+    throw new Error(`${name} is missing from the compiler output`)
+  }
+  return [
+    `export const ${name} = {`,
+    `  abi: ${JSON.stringify(contract.abi)},`,
+    `  bytecode: "0x${contract.evm.bytecode.object}",`,
+    `  deployedBytecode: "0x${contract.evm.deployedBytecode.object}",`,
+    `} as const`,
+  ].join("\n")
+})
+
+writeFileSync(
+  join(directory, "artifacts.ts"),
+  [
+    `// Generated by compile.ts with solc ${SOLC_VERSION} from the .sol files in this directory, do not edit`,
+    "",
+    exports.join("\n\n"),
+    "",
+  ].join("\n")
+)
@@ -0,0 +1,162 @@
+import { spawn, type ChildProcess } from "child_process"
+import {
+  parseEther,
+  parseUnits,
+  zeroAddress,
+  type Address,
+  type PublicClient,
+  type TestClient,
+  type WalletClient,
+} from "viem"
+
+import { createForkChainConfig, getChainConfig, type ChainConfig } from "../../src/config/chains"
+import { BASECAMP_TESTNET, baseCampTestnetTokens } from "../../src/config/base-testnet"
+import { MockERC20, MockSmartRouter, MockV2Factory, MockV2Pair, MockWCAMP, Multicall3 } from "./contracts/artifacts"
+
+/**
+ * A local Anvil chain with Base Camp testnet's chain id and mock SummitX
+ * contracts (see contracts/): WCAMP, USDC and Multicall3 at their configured
+ * addresses, a V2 factory with one funded WCAMP/USDC pair, and a router that
+ * executes the calldata SwapRouter encodes for V2 trades. Nothing is forked,
+ * so no RPC or subgraph access is needed.
+ */
+
+const { wcamp, usdc } = baseCampTestnetTokens
+
+// Reserves of the WCAMP/USDC pair, at the mock pools' price of $2 per CAMP
+export const PAIR_RESERVES = { wcamp: parseEther("50000"), usdc: parseUnits("100000", usdc.decimals) }
+
+export interface MockContracts {
+  factory: Address
+  router: Address
+  pair: Address
+}
+
+/**
+ * Spawn anvil without a fork and wait until `client` gets an answer from it
+ */
+export async function startAnvil(port: number, client: PublicClient, timeoutMs = 30_000): Promise<ChildProcess> {
+  const anvil = spawn("anvil", ["--chain-id", String(BASECAMP_TESTNET), "--port", String(port), "--silent"], { stdio: "ignore" })
+  let spawnError: Error | undefined
+  anvil.once("error", error => {
+    spawnError = error
+  })
+
+  const startedAt = Date.now()
+  for (;;) {
+    if (spawnError) {
+      throw new Error(`Could not start anvil, is Foundry installed and on PATH? ${spawnError.message}`, { cause: spawnError })
+    }
+    if (anvil.exitCode !== null) {
+      throw new Error(`anvil exited with code ${anvil.exitCode}, check that port ${port} is free`)
+    }
+    try {
+      await client.getChainId()
+      return anvil
+    } catch (error) {
+      if (Date.now() - startedAt > timeoutMs) {
+        anvil.kill()
+        throw new Error(`Anvil did not answer on port ${port} within ${timeoutMs}ms`, { cause: error })
+      }
+      await new Promise(resolve => setTimeout(resolve, 250))
+    }
+  }
+}
+
+/**
+ * Deploy the mock contracts with the wallet client's account, which must hold
+ * more CAMP than the pair's WCAMP reserve
+ */
+export async function deployMockContracts(
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  testClient: TestClient
+): Promise<MockContracts> {
+  const account = walletClient.account!
+  const chain = walletClient.chain
+  const confirm = async (hash: `0x${string}`) => publicClient.waitForTransactionReceipt({ hash })
+
+  // Runtime code only: these keep their configured addresses, and the tokens are initialised after
+  const { multicall3 } = getChainConfig(BASECAMP_TESTNET).contracts
+  await testClient.setCode({ address: multicall3, bytecode: Multicall3.deployedBytecode })
+  await testClient.setCode({ address: wcamp.address as Address, bytecode: MockWCAMP.deployedBytecode })
+  await testClient.setCode({ address: usdc.address as Address, bytecode: MockERC20.deployedBytecode })
+  for (const token of [wcamp, usdc]) {
+    await confirm(await walletClient.writeContract({
+      account,
+      chain,
+      address: token.address as Address,
+      abi: MockERC20.abi,
+      functionName: "initialize",
+      args: [token.name!, token.symbol!, token.decimals],
+    }))
+  }
+
+  const { contractAddress: factory } = await confirm(
+    await walletClient.deployContract({ account, chain, abi: MockV2Factory.abi, bytecode: MockV2Factory.bytecode })
+  )
+  const { contractAddress: router } = await confirm(
+    await walletClient.deployContract({
+      account,
+      chain,
+      abi: MockSmartRouter.abi,
+      bytecode: MockSmartRouter.bytecode,
+      args: [factory!, wcamp.address as Address],
+    })
+  )
+
+  await confirm(await walletClient.writeContract({
+    account,
+    chain,
+    address: factory!,
+    abi: MockV2Factory.abi,
+    functionName: "createPair",
+    args: [wcamp.address as Address, usdc.address as Address],
+  }))
+  const pair = await publicClient.readContract({
+    address: factory!,
+    abi: MockV2Factory.abi,
+    functionName: "getPair",
+    args: [wcamp.address as Address, usdc.address as Address],
+  })
+
+  // WCAMP is backed by CAMP, so the router can unwrap what it receives from the pair
+  await confirm(await walletClient.sendTransaction({ account, chain, to: wcamp.address as Address, value: PAIR_RESERVES.wcamp }))
+  await confirm(await walletClient.writeContract({
+    account,
+    chain,
+    address: wcamp.address as Address,
+    abi: MockWCAMP.abi,
+    functionName: "transfer",
+    args: [pair, PAIR_RESERVES.wcamp],
+  }))
+  await confirm(await walletClient.writeContract({
+    account,
+    chain,
+    address: usdc.address as Address,
+    abi: MockERC20.abi,
+    functionName: "mint",
+    args: [pair, PAIR_RESERVES.usdc],
+  }))
+  await confirm(await walletClient.writeContract({ account, chain, address: pair, abi: MockV2Pair.abi, functionName: "sync" }))
+
+  return { factory: factory!, router: router!, pair }
+}
+
+/**
+ * The chain config of the local chain: the mock router and factory, no V3
+ * factory and no subgraphs, so pools are discovered on-chain from the pair
+ */
+export function createMockChainConfig(rpcUrl: string, contracts: MockContracts): ChainConfig {
+  const config = createForkChainConfig(BASECAMP_TESTNET, rpcUrl)
+  return {
+    ...config,
+    contracts: {
+      ...config.contracts,
+      smartRouter: contracts.router,
+      v2Factory: contracts.factory,
+      v3Factory: zeroAddress, // getPool calls to an address without code find no V3 pools
+    },
+    subgraphs: {},
+  }
+}
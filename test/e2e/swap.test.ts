@@ -0,0 +1,125 @@
+import type { ChildProcess } from "child_process"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { TradeType } from "@summitx/swap-sdk-core"
+import {
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  http,
+  parseEther,
+  parseUnits,
+  type Address,
+  type PublicClient,
+  type TestClient,
+  type WalletClient,
+} from "viem"
+import { privateKeyToAccount } from "viem/accounts"
+
+import { TokenQuoter } from "../../src/quoter/token-quoter"
+import { SwapExecutor } from "../../src/swap/swap-executor"
+import { createForkChainConfig } from "../../src/config/chains"
+import { BASECAMP_TESTNET, baseCampTestnetNative, baseCampTestnetTokens } from "../../src/config/base-testnet"
+import { MockSmartRouter } from "./contracts/artifacts"
+import { createMockChainConfig, deployMockContracts, startAnvil, type MockContracts } from "./mock-chain"
+
+/**
+ * Swaps on a local Anvil chain against mock SummitX contracts deployed for
+ * the run (see mock-chain.ts). The quoter discovers the pair on-chain and the
+ * executor sends the router calldata the SDK encodes, so every step from
+ * quote to verified balances runs for real. The mock pair prices swaps like
+ * the SDK, so swaps fill exactly as quoted.
+ *
+ * Needs Foundry's `anvil` on PATH. Not part of `npm test`: run it with
+ * `npm run test:e2e`.
+ */
+
+const PORT = Number(process.env.ANVIL_PORT ?? 8545)
+const RPC_URL = `http://127.0.0.1:${PORT}`
+const { wcamp, usdc } = baseCampTestnetTokens
+
+// Anvil's first default account; only ever funded on the local chain
+const account = privateKeyToAccount("0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80")
+
+describe("swap on a local Anvil chain", () => {
+  let anvil: ChildProcess | undefined
+  let publicClient: PublicClient
+  let walletClient: WalletClient
+  let testClient: TestClient
+  let contracts: MockContracts
+  let quoter: TokenQuoter
+  let executor: SwapExecutor
+
+  beforeAll(async () => {
+    const { chain } = createForkChainConfig(BASECAMP_TESTNET, RPC_URL)
+    publicClient = createPublicClient({ chain, transport: http(RPC_URL) })
+    walletClient = createWalletClient({ account, chain, transport: http(RPC_URL) })
+    testClient = createTestClient({ mode: "anvil", chain, transport: http(RPC_URL) })
+    anvil = await startAnvil(PORT, publicClient)
+
+    await testClient.setBalance({ address: account.address, value: parseEther("100000") })
+    contracts = await deployMockContracts(walletClient, publicClient, testClient)
+
+    const chainConfig = createMockChainConfig(RPC_URL, contracts)
+    quoter = new TokenQuoter({ chainConfig, slippageTolerance: 1 })
+    executor = new SwapExecutor(walletClient, publicClient, { chainConfig, quoter, slippageTolerance: 1 })
+  }, 60_000)
+
+  afterAll(() => {
+    anvil?.kill()
+  })
+
+  // What the router would pay out for `amountIn` along `path` right now
+  async function getAmountOut(amountIn: bigint, path: Address[]): Promise<bigint> {
+    const amounts = await publicClient.readContract({
+      address: contracts.router,
+      abi: MockSmartRouter.abi,
+      functionName: "getAmountsOut",
+      args: [amountIn, path],
+    })
+    return amounts[amounts.length - 1]
+  }
+
+  it("quotes through the pair discovered on-chain", async () => {
+    const quote = await quoter.getQuote(baseCampTestnetNative, usdc, "10")
+
+    expect(quote.routes).toEqual([expect.objectContaining({ type: "V2", percent: 100 })])
+    expect(parseUnits(quote.outputAmount, usdc.decimals)).toBe(
+      await getAmountOut(parseEther("10"), [wcamp.address as Address, usdc.address as Address])
+    )
+    expect(quoter.metrics.get("summitx_quote_pool_fetch_seconds")!.snapshot().values).toContainEqual(
+      expect.objectContaining({ labels: { source: "onchain" } })
+    )
+  })
+
+  it("swaps native CAMP for USDC", async () => {
+    const quote = await quoter.getQuote(baseCampTestnetNative, usdc, "10")
+    const result = await executor.execute(quote)
+
+    expect(result.receipt.status).toBe("success")
+    expect(result.approval.method).toBe("none")
+    expect(result.verification.inputSpent).toBe(parseEther("10"))
+    expect(result.verification.outputReceived).toBe(parseUnits(result.quote.outputAmount, usdc.decimals))
+    expect(result.verification.realizedSlippagePercent).toBe(0)
+  })
+
+  it("swaps the USDC back to native CAMP after approving the router", async () => {
+    const quote = await quoter.getQuote(usdc, baseCampTestnetNative, "1")
+    const result = await executor.execute(quote)
+
+    expect(result.receipt.status).toBe("success")
+    // The mock token has no EIP-2612 permit
+    expect(result.approval.method).toBe("approve")
+    expect(result.verification.inputSpent).toBe(parseUnits("1", usdc.decimals))
+    expect(result.verification.outputReceived).toBe(parseUnits(result.quote.outputAmount, baseCampTestnetNative.decimals))
+  })
+
+  it("swaps native CAMP for an exact USDC output and refunds the unspent CAMP", async () => {
+    const quote = await quoter.getQuote(baseCampTestnetNative, usdc, "5", TradeType.EXACT_OUTPUT)
+    const result = await executor.execute(quote)
+
+    expect(result.receipt.status).toBe("success")
+    expect(result.transaction.value).toBeGreaterThan(parseEther(result.quote.inputAmount))
+    expect(result.verification.inputSpent).toBe(parseEther(result.quote.inputAmount))
+    expect(result.verification.outputReceived).toBe(parseUnits("5", usdc.decimals))
+  })
+})
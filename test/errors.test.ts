@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest"
+import { ContractFunctionRevertedError, HttpRequestError, RpcRequestError, TimeoutError } from "viem"
+
+import {
+  InsufficientBalanceError,
+  NoRouteError,
+  RpcError,
+  SlippageExceededError,
+  SubgraphUnavailableError,
+  SwapExecutionError,
+  TransactionRevertedError,
+  isRetryableError,
+} from "../src/utils/errors"
+
+const rateLimited = new RpcRequestError({
+  body: { method: "eth_call" },
+  error: { code: 429, message: "Too many requests" },
+  url: "https://rpc.example",
+})
+
+describe("errors", () => {
+  it("tags errors with a code, a name and their context", () => {
+    const error = new NoRouteError("No route found from USDC to WETH", { pair: "USDC/WETH" })
+
+    expect(error).toBeInstanceOf(Error)
+    expect(error.name).toBe("NoRouteError")
+    expect(error.toJSON()).toEqual({
+      code: "NO_ROUTE",
+      message: "No route found from USDC to WETH",
+      retryable: false,
+      context: { pair: "USDC/WETH" },
+    })
+  })
+
+  it("treats outages as retryable and missing routes as permanent", () => {
+    expect(isRetryableError(new SubgraphUnavailableError("V3 subgraph request failed"))).toBe(true)
+    expect(isRetryableError(new NoRouteError("No route"))).toBe(false)
+    expect(isRetryableError(new Error("Cannot quote CAMP -> WCAMP"))).toBe(false)
+  })
+
+  it("derives RPC retryability from the viem error", () => {
+    const timeout = new TimeoutError({ body: { method: "eth_call" }, url: "https://rpc.example" })
+    const httpError = new HttpRequestError({ url: "https://rpc.example", status: 502 })
+    const invalidParams = new RpcRequestError({
+      body: { method: "eth_call" },
+      error: { code: -32602, message: "Invalid params" },
+      url: "https://rpc.example",
+    })
+
+    expect(new RpcError("RPC request failed", {}, timeout).retryable).toBe(true)
+    expect(new RpcError("RPC request failed", {}, httpError).retryable).toBe(true)
+    expect(new RpcError("RPC request failed", {}, rateLimited).retryable).toBe(true)
+    expect(new RpcError("RPC request failed", {}, invalidParams).retryable).toBe(false)
+    expect(isRetryableError(new ContractFunctionRevertedError({ abi: [], functionName: "swap" }))).toBe(false)
+  })
+
+  it("keeps the failed step on swap errors", () => {
+    const balance = new InsufficientBalanceError("Insufficient USDC balance", { token: "USDC" })
+    const slippage = new SlippageExceededError("simulate", "Simulated output is below the minimum")
+    const reverted = new TransactionRevertedError("confirm", "Swap transaction reverted", undefined, { hash: "0x01" })
+
+    expect(balance).toBeInstanceOf(SwapExecutionError)
+    expect(balance).toMatchObject({ step: "balance", code: "INSUFFICIENT_BALANCE", retryable: false })
+    expect(slippage).toMatchObject({ step: "simulate", code: "SLIPPAGE_EXCEEDED", retryable: true })
+    expect(reverted).toMatchObject({ step: "confirm", code: "TRANSACTION_REVERTED", retryable: false })
+  })
+
+  it("makes generic swap errors as retryable as their cause", () => {
+    expect(new SwapExecutionError("send", "Sending failed", rateLimited).retryable).toBe(true)
+    expect(new SwapExecutionError("send", "Quote has no raw trade data").retryable).toBe(false)
+    expect(new SwapExecutionError("requote", "Re-quoting failed", new NoRouteError("No route")).retryable).toBe(false)
+  })
+})
@@ -0,0 +1,83 @@
+import { createServer, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+
+import { RpcEndpointPool } from "../src/utils/failover-transport"
+
+// A JSON-RPC endpoint answering every request with the given HTTP status
+// and result or error, counting the requests it got
+function startEndpoint(status: number, answer: { result?: unknown; error?: unknown } = { result: "0x1" }) {
+  const endpoint = { url: "", requests: 0, server: undefined as unknown as Server }
+  endpoint.server = createServer((req, res) => {
+    let body = ""
+    req.on("data", chunk => (body += chunk))
+    req.on("end", () => {
+      endpoint.requests++
+      const { id } = JSON.parse(body) as { id: number }
+      res.writeHead(status, { "Content-Type": "application/json" })
+      res.end(JSON.stringify({ jsonrpc: "2.0", id, ...answer }))
+    })
+  })
+  return new Promise<typeof endpoint>(resolve => {
+    endpoint.server.listen(0, "127.0.0.1", () => {
+      endpoint.url = `http://127.0.0.1:${(endpoint.server.address() as AddressInfo).port}`
+      resolve(endpoint)
+    })
+  })
+}
+
+describe("RpcEndpointPool", () => {
+  let failing: Awaited<ReturnType<typeof startEndpoint>>
+  let working: Awaited<ReturnType<typeof startEndpoint>>
+  let reverting: Awaited<ReturnType<typeof startEndpoint>>
+  let limited: Awaited<ReturnType<typeof startEndpoint>>
+
+  beforeAll(async () => {
+    failing = await startEndpoint(502)
+    working = await startEndpoint(200)
+    // How several nodes report a revert in eth_call
+    reverting = await startEndpoint(200, {
+      error: { code: -32603, message: "execution reverted: Too little received", data: "0x08c379a0" },
+    })
+    limited = await startEndpoint(200, { error: { code: -32005, message: "Limit exceeded" } })
+  })
+
+  afterAll(() => {
+    failing.server.close()
+    working.server.close()
+    reverting.server.close()
+    limited.server.close()
+  })
+
+  it("fails reads over to the next endpoint", async () => {
+    const pool = new RpcEndpointPool([failing.url, working.url])
+
+    expect(await pool.request({ method: "eth_blockNumber" })).toBe("0x1")
+    expect(pool.health().map(endpoint => endpoint.totalFailures)).toEqual([1, 0])
+  })
+
+  it("fails over rate limits reported as JSON-RPC errors", async () => {
+    const pool = new RpcEndpointPool([limited.url, working.url])
+
+    expect(await pool.request({ method: "eth_blockNumber" })).toBe("0x1")
+  })
+
+  it("does not send a transaction to a second endpoint", async () => {
+    const pool = new RpcEndpointPool([failing.url, working.url])
+    const sent = working.requests
+
+    await expect(pool.request({ method: "eth_sendRawTransaction", params: ["0x02"] })).rejects.toThrow()
+    expect(working.requests).toBe(sent)
+  })
+
+  it("does not fail over a revert reported as an internal error", async () => {
+    const pool = new RpcEndpointPool([reverting.url, working.url])
+    const requests = working.requests
+
+    await expect(pool.request({ method: "eth_call", params: [{ to: "0x01", data: "0x" }, "latest"] })).rejects.toThrow(
+      "execution reverted"
+    )
+    expect(working.requests).toBe(requests)
+    expect(pool.health()[0]).toMatchObject({ healthy: true, consecutiveFailures: 0 })
+  })
+})
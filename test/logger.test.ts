@@ -0,0 +1,227 @@
+import { mkdtempSync, readFileSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import { ConsoleTransport, FileTransport, Logger, MemoryTransport, logger } from "../src/utils/logger"
+
+// Data is printed as JSON on the lines after the message
+function loggedData(output: string): unknown {
+  return JSON.parse(output.slice(output.indexOf("\n") + 1))
+}
+
+describe("logger", () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    delete process.env.DEBUG
+    delete process.env.LOG_LEVEL
+  })
+
+  it("serialises bigints in data as decimal strings", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {})
+
+    logger.info("Quote", {
+      amount: 123456789012345678901234567890n,
+      nested: { fee: 3000n },
+      list: [1n, 2n],
+    })
+
+    expect(log).toHaveBeenCalledOnce()
+    expect(loggedData(log.mock.calls[0][0])).toEqual({
+      amount: "123456789012345678901234567890",
+      nested: { fee: "3000" },
+      list: ["1", "2"],
+    })
+  })
+
+  it("appends non-object data to the message line", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {})
+
+    logger.success("Confirmed in block", 42)
+
+    expect(log.mock.calls[0][0]).toMatch(/Confirmed in block 42$/)
+  })
+
+  it("logs the message and stack of errors", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {})
+
+    logger.error("Swap failed", new Error("execution reverted"))
+
+    const data = loggedData(error.mock.calls[0][0]) as { message: string; stack: string }
+    expect(data.message).toBe("execution reverted")
+    expect(data.stack).toContain("Error: execution reverted")
+  })
+
+  it("serialises bigints in non-Error error data", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {})
+
+    logger.error("Quote failed", { gasEstimate: 150000n })
+
+    expect(loggedData(error.mock.calls[0][0])).toEqual({ gasEstimate: "150000" })
+  })
+
+  it("only prints debug output when DEBUG is set", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {})
+
+    logger.debug("hidden")
+    expect(log).not.toHaveBeenCalled()
+
+    process.env.DEBUG = "1"
+    logger.debug("shown")
+    expect(log).toHaveBeenCalledOnce()
+  })
+
+  it("only prints debug output when LOG_LEVEL allows it", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {})
+
+    process.env.LOG_LEVEL = "warn"
+    process.env.DEBUG = "1"
+    logger.debug("hidden")
+    logger.info("hidden")
+    expect(log).not.toHaveBeenCalled()
+  })
+})
+
+describe("Logger", () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("drops records below the minimum level", () => {
+    const memory = new MemoryTransport()
+    const log = new Logger({ level: "warn", transports: [memory] })
+
+    log.debug("debug")
+    log.info("info")
+    log.success("success")
+    log.warn("warn")
+    log.error("error")
+
+    expect(memory.records.map(record => record.level)).toEqual(["warn", "error"])
+  })
+
+  it("drops every record when silent", () => {
+    const memory = new MemoryTransport()
+    new Logger({ level: "silent", transports: [memory] }).error("error")
+
+    expect(memory.records).toEqual([])
+  })
+
+  it("binds context in child loggers", () => {
+    const memory = new MemoryTransport()
+    const parent = new Logger({ transports: [memory], context: { service: "quoter" } })
+    const child = parent.child({ pair: "USDC/T12ETH" }).child({ quoteId: "q1" })
+
+    child.info("Quote completed", { outputAmount: "1.5" })
+
+    expect(memory.records[0]).toMatchObject({
+      level: "info",
+      message: "Quote completed",
+      context: { service: "quoter", pair: "USDC/T12ETH", quoteId: "q1" },
+      data: { outputAmount: "1.5" },
+    })
+    expect(parent.context).toEqual({ service: "quoter" })
+  })
+
+  it("applies configure() to children created before it", () => {
+    const memory = new MemoryTransport()
+    const parent = new Logger({ level: "info", transports: [memory] })
+    const child = parent.child({ pair: "USDC/T12ETH" })
+
+    parent.configure({ level: "error" })
+    child.warn("hidden")
+
+    expect(memory.records).toEqual([])
+  })
+
+  it("writes one JSON object per line in json format", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {})
+    const jsonLogger = new Logger({ level: "info", format: "json", context: { quoteId: "q1" } })
+
+    jsonLogger.info("Quote", { amount: 10n, route: ["a", "b"] })
+
+    const line: string = log.mock.calls[0][0]
+    expect(line).not.toContain("\n")
+    expect(JSON.parse(line)).toEqual({
+      quoteId: "q1",
+      time: expect.any(String),
+      level: "info",
+      message: "Quote",
+      data: { amount: "10", route: ["a", "b"] },
+    })
+  })
+
+  it("serialises errors with their cause in json format", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {})
+    const jsonLogger = new Logger({ format: "json" })
+
+    jsonLogger.error("Swap failed", new Error("reverted", { cause: new Error("out of gas") }))
+
+    const { data } = JSON.parse(error.mock.calls[0][0])
+    expect(data).toMatchObject({ name: "Error", message: "reverted", cause: { message: "out of gas" } })
+  })
+
+  it("writes every level to stderr when asked", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {})
+    const error = vi.spyOn(console, "error").mockImplementation(() => {})
+
+    new Logger({ level: "info", transports: [new ConsoleTransport({ stderr: true })] }).info("progress")
+
+    expect(log).not.toHaveBeenCalled()
+    expect(error).toHaveBeenCalledOnce()
+  })
+
+  it("sends headers and dividers to the transports as info records", () => {
+    const memory = new MemoryTransport()
+    const log = new Logger({ level: "info", transports: [memory] })
+
+    log.header("Step 1")
+    log.divider()
+    log.configure({ level: "warn" })
+    log.header("hidden")
+
+    expect(memory.records).toMatchObject([
+      { level: "info", message: "Step 1", decoration: "header" },
+      { level: "info", message: "", decoration: "divider" },
+    ])
+  })
+
+  it("draws headers as rules around the title in pretty format", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {})
+
+    new Logger({ level: "info", transports: [new ConsoleTransport({ format: "pretty" })] }).header("Step 1")
+
+    const lines: string[] = log.mock.calls[0][0].split("\n")
+    expect(lines).toHaveLength(3)
+    expect(lines[1]).toContain("Step 1")
+    expect(lines[0]).toContain("─".repeat(60))
+  })
+
+  it("keeps only the header title in json format", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {})
+    const jsonLogger = new Logger({ level: "info", transports: [new ConsoleTransport({ format: "json" })] })
+
+    jsonLogger.header("Step 1")
+    jsonLogger.divider()
+
+    expect(log).toHaveBeenCalledOnce()
+    expect(JSON.parse(log.mock.calls[0][0])).toEqual({ time: expect.any(String), level: "info", message: "Step 1" })
+  })
+
+  it("appends json lines to a file", () => {
+    const dir = mkdtempSync(join(tmpdir(), "summitx-logs-"))
+    try {
+      const filePath = join(dir, "nested", "quoter.log")
+      const fileLogger = new Logger({ level: "info", transports: [new FileTransport(filePath)] })
+
+      fileLogger.info("first")
+      fileLogger.warn("second", { gas: 21000n })
+
+      const lines = readFileSync(filePath, "utf8").trim().split("\n").map(line => JSON.parse(line))
+      expect(lines.map(line => line.message)).toEqual(["first", "second"])
+      expect(lines[1].data).toEqual({ gas: "21000" })
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest"
+
+import { MetricsRegistry } from "../src/utils/metrics"
+
+describe("MetricsRegistry", () => {
+  it("counts per label set", () => {
+    const registry = new MetricsRegistry()
+    const quotes = registry.counter({ name: "quotes_total", help: "Quotes", labelNames: ["outcome"] })
+
+    quotes.inc({ outcome: "success" })
+    quotes.inc({ outcome: "success" }, 2)
+    quotes.inc({ outcome: "error" })
+
+    expect(quotes.get({ outcome: "success" })).toBe(3)
+    expect(quotes.get({ outcome: "error" })).toBe(1)
+    expect(quotes.get({ outcome: "no_route" })).toBe(0)
+  })
+
+  it("returns the registered metric for a known name", () => {
+    const registry = new MetricsRegistry()
+    const first = registry.counter({ name: "quotes_total", help: "Quotes" })
+
+    expect(registry.counter({ name: "quotes_total", help: "Quotes" })).toBe(first)
+    expect(() => registry.histogram({ name: "quotes_total", help: "Quotes" })).toThrow("already registered as a counter")
+  })
+
+  it("rejects labels the metric was not registered with", () => {
+    const registry = new MetricsRegistry()
+    const quotes = registry.counter({ name: "quotes_total", help: "Quotes", labelNames: ["outcome"] })
+
+    expect(() => quotes.inc({ pair: "USDC/T12ETH" })).toThrow('Unknown label "pair"')
+    expect(() => quotes.inc({}, -1)).toThrow("can only increase")
+  })
+
+  it("keeps cumulative histogram buckets", () => {
+    const registry = new MetricsRegistry()
+    const latency = registry.histogram({ name: "router_seconds", help: "Router", buckets: [0.1, 1, 0.5] })
+
+    latency.observe(0.05)
+    latency.observe(0.3)
+    latency.observe(0.7)
+    latency.observe(5)
+
+    expect(latency.get()!.sum).toBeCloseTo(6.05)
+    expect(latency.get()).toMatchObject({
+      count: 4,
+      buckets: [
+        { le: 0.1, count: 1 },
+        { le: 0.5, count: 2 },
+        { le: 1, count: 3 },
+      ],
+    })
+  })
+
+  it("renders the Prometheus text format", () => {
+    const registry = new MetricsRegistry()
+    registry.counter({ name: "swaps_total", help: "Swaps", labelNames: ["outcome"] }).inc({ outcome: "success" })
+    registry.histogram({ name: "gas_used", help: "Gas\nused", buckets: [100_000] }).observe(150_000)
+
+    expect(registry.toPrometheus()).toBe([
+      "# HELP swaps_total Swaps",
+      "# TYPE swaps_total counter",
+      'swaps_total{outcome="success"} 1',
+      "# HELP gas_used Gas\\nused",
+      "# TYPE gas_used histogram",
+      'gas_used_bucket{le="100000"} 0',
+      'gas_used_bucket{le="+Inf"} 1',
+      "gas_used_sum 150000",
+      "gas_used_count 1",
+      "",
+    ].join("\n"))
+  })
+
+  it("escapes label values", () => {
+    const registry = new MetricsRegistry()
+    registry.counter({ name: "errors_total", help: "Errors", labelNames: ["message"] }).inc({ message: 'bad "quote"\\' })
+
+    expect(registry.toPrometheus()).toContain('errors_total{message="bad \\"quote\\"\\\\"} 1')
+  })
+
+  it("clears values on reset but keeps the metrics", () => {
+    const registry = new MetricsRegistry()
+    const quotes = registry.counter({ name: "quotes_total", help: "Quotes" })
+    quotes.inc()
+
+    registry.reset()
+
+    expect(quotes.get()).toBe(0)
+    expect(registry.snapshot()).toEqual([{ name: "quotes_total", help: "Quotes", type: "counter", values: [] }])
+  })
+})
@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from "vitest"
+import { PoolType } from "@summitx/smart-router/evm"
+import { FeeAmount } from "@summitx/v3-sdk"
+import { zeroAddress, type Address, type PublicClient } from "viem"
+
+import { OnChainPoolDiscovery, getTokenPairs } from "../src/quoter/onchain-pools"
+import { baseCampTestnetConfig } from "../src/config/chains"
+import { baseCampTestnetTokens } from "../src/config/base-testnet"
+
+const { usdc, weth, wcamp, t12eth } = baseCampTestnetTokens
+
+const V2_FACTORY = "0x00000000000000000000000000000000000000f2"
+const V3_FACTORY = "0x00000000000000000000000000000000000000f3"
+const USDC_WCAMP_PAIR = "0x00000000000000000000000000000000000000b1"
+const EMPTY_PAIR = "0x00000000000000000000000000000000000000b2"
+const USDC_T12ETH_POOL = "0x00000000000000000000000000000000000000c1"
+
+interface Call {
+  address: Address
+  functionName: string
+  args?: readonly unknown[]
+}
+
+function isPair(args: readonly unknown[] | undefined, tokenA: Address, tokenB: Address): boolean {
+  const [a, b] = args as [Address, Address]
+  return (a === tokenA && b === tokenB) || (a === tokenB && b === tokenA)
+}
+
+// Answers factory and pool calls for one V2 pair with reserves, one empty V2
+// pair and one V3 pool in the 0.25% tier
+function createFakeClient() {
+  const answer = ({ address, functionName, args }: Call): unknown => {
+    switch (functionName) {
+      case "getPair":
+        if (isPair(args, usdc.address, wcamp.address)) return USDC_WCAMP_PAIR
+        if (isPair(args, usdc.address, weth.address)) return EMPTY_PAIR
+        return zeroAddress
+      case "getReserves":
+        return address === USDC_WCAMP_PAIR ? [1_000_000n, 2_000_000n, 0] : [0n, 0n, 0]
+      case "getPool":
+        return isPair(args, usdc.address, t12eth.address) && args![2] === FeeAmount.MEDIUM ? USDC_T12ETH_POOL : zeroAddress
+      case "slot0":
+        return [2n ** 96n, 0, 0, 1, 1, 0, true]
+      case "liquidity":
+        return 10n ** 18n
+      default:
+        throw new Error(`Unexpected call ${functionName}`)
+    }
+  }
+
+  return {
+    multicall: vi.fn(async ({ contracts }: { contracts: Call[] }) =>
+      contracts.map(call => ({ status: "success", result: answer(call) }))
+    ),
+    readContract: vi.fn(async ({ address }: { address: Address }) =>
+      address === baseCampTestnetConfig.contracts.v2Router ? V2_FACTORY : V3_FACTORY
+    ),
+  }
+}
+
+describe("getTokenPairs", () => {
+  it("pairs the tokens with the base tokens once each, sorted", () => {
+    const pairs = getTokenPairs(usdc, t12eth, [usdc, weth])
+
+    expect(pairs).toHaveLength(3)
+    for (const [token0, token1] of pairs) {
+      expect(token0.sortsBefore(token1)).toBe(true)
+    }
+    expect(pairs.map(pair => pair.map(token => token.symbol).sort().join("/")).sort()).toEqual([
+      "T12ETH/USDC",
+      "T12ETH/WETH",
+      "USDC/WETH",
+    ])
+  })
+})
+
+describe("OnChainPoolDiscovery", () => {
+  it("keeps V2 pairs that exist and hold reserves", async () => {
+    const client = createFakeClient()
+    const discovery = new OnChainPoolDiscovery(client as unknown as PublicClient, baseCampTestnetConfig)
+
+    const pools = await discovery.getV2Pools(getTokenPairs(usdc, wcamp, [weth]))
+
+    expect(pools).toHaveLength(1)
+    expect(pools[0].type).toBe(PoolType.V2)
+    expect([pools[0].reserve0.currency, pools[0].reserve1.currency]).toEqual(
+      usdc.sortsBefore(wcamp) ? [usdc, wcamp] : [wcamp, usdc]
+    )
+  })
+
+  it("looks up every V3 fee tier and keeps initialized pools with liquidity", async () => {
+    const client = createFakeClient()
+    const discovery = new OnChainPoolDiscovery(client as unknown as PublicClient, baseCampTestnetConfig)
+
+    const pools = await discovery.getV3Pools(getTokenPairs(usdc, t12eth, []))
+
+    const getPoolCalls = client.multicall.mock.calls[0][0].contracts
+    expect(getPoolCalls.map(call => call.args![2])).toEqual([
+      FeeAmount.LOWEST,
+      FeeAmount.LOW,
+      FeeAmount.MEDIUM,
+      FeeAmount.HIGH,
+    ])
+    expect(getPoolCalls.every(call => call.address === V3_FACTORY)).toBe(true)
+    expect(pools).toMatchObject([
+      { type: PoolType.V3, address: USDC_T12ETH_POOL, fee: FeeAmount.MEDIUM, liquidity: 10n ** 18n, tick: 0 },
+    ])
+    expect(pools[0].ticks).toBeUndefined()
+  })
+
+  it("reads the factories once, unless the chain config sets them", async () => {
+    const client = createFakeClient()
+    const discovery = new OnChainPoolDiscovery(client as unknown as PublicClient, baseCampTestnetConfig)
+
+    await discovery.getFactories()
+    expect(await discovery.getFactories()).toEqual({ v2: V2_FACTORY, v3: V3_FACTORY })
+    expect(client.readContract).toHaveBeenCalledTimes(2)
+
+    const configured = new OnChainPoolDiscovery(client as unknown as PublicClient, {
+      ...baseCampTestnetConfig,
+      contracts: { ...baseCampTestnetConfig.contracts, v2Factory: V2_FACTORY, v3Factory: V3_FACTORY },
+    })
+    await configured.getFactories()
+    expect(client.readContract).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,51 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+
+import { FilePoolCache } from "../src/quoter/pool-cache"
+
+describe("FilePoolCache", () => {
+  let directory: string
+  let filePath: string
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "pool-cache-"))
+    filePath = join(directory, "cache", "pools.json")
+  })
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("batches changes into one write after the delay", async () => {
+    const cache = new FilePoolCache(filePath, { writeDelayMs: 10_000 })
+    await cache.set("1:0xa:0xb", { pools: [], timestamp: Date.now() })
+    await cache.set("1:0xa:0xc", { pools: [], timestamp: Date.now() })
+    await cache.delete("1:0xa:0xb")
+
+    expect(existsSync(filePath)).toBe(false)
+
+    await cache.flush()
+    expect(Object.keys(JSON.parse(readFileSync(filePath, "utf8")))).toEqual(["1:0xa:0xc"])
+  })
+
+  it("writes on its own once the delay has passed", async () => {
+    const cache = new FilePoolCache(filePath, { writeDelayMs: 5 })
+    await cache.set("1:0xa:0xb", { pools: [], timestamp: Date.now() })
+
+    await new Promise(resolve => setTimeout(resolve, 50))
+    await cache.flush()
+    expect(existsSync(filePath)).toBe(true)
+  })
+
+  it("loads the persisted entries on construction", async () => {
+    const timestamp = Date.now()
+    const cache = new FilePoolCache(filePath)
+    await cache.set("1:0xa:0xb", { pools: [], timestamp, blockNumber: 42n })
+    await cache.flush()
+
+    const reloaded = new FilePoolCache(filePath)
+    expect(await reloaded.get("1:0xa:0xb", { blockNumber: 42n })).toEqual({ pools: [], timestamp, blockNumber: 42n })
+  })
+})
@@ -0,0 +1,139 @@
+import type { Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import { SmartRouter } from "@summitx/smart-router/evm"
+import { Percent } from "@summitx/swap-sdk-core"
+import { formatUnits } from "viem"
+
+import { createQuoteServer } from "../src/server/quote-api"
+import { TokenQuoter } from "../src/quoter/token-quoter"
+import {
+  bigintReplacer,
+  deserializeQuoteResult,
+  serializeQuoteResult,
+  type SerializedQuoteResult,
+} from "../src/utils/serialize"
+import { baseCampTestnetTokens } from "../src/config/base-testnet"
+
+const { t12eth } = baseCampTestnetTokens
+const RECIPIENT = "0x000000000000000000000000000000000000dEaD"
+
+// Every field any endpoint answers with
+interface ResponseBody {
+  quote: SerializedQuoteResult
+  results: { quote?: SerializedQuoteResult; error?: { code: string } }[]
+  transaction: { to: string; calldata: string; value: string; deadline: number }
+  error: { code: string; message: string }
+}
+
+describe("quote API", () => {
+  let quoter: TokenQuoter
+  let server: Server
+  let baseUrl: string
+
+  async function call(method: "GET" | "POST", path: string, body?: unknown) {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body, bigintReplacer),
+    })
+    return { status: response.status, body: (await response.json()) as ResponseBody }
+  }
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    // Mock pools and a fixed gas price quote offline
+    quoter = new TokenQuoter({ useMockPools: true, gasPriceWei: 1_000_000_000n, slippageTolerance: 0.5 })
+    const app = createQuoteServer({ quoter, maxBatchSize: 2 })
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, "127.0.0.1", () => resolve(listening))
+    })
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(() => {
+    server.close()
+    vi.restoreAllMocks()
+  })
+
+  it("quotes a pair given by symbol", async () => {
+    const { status, body } = await call("GET", "/quote?tokenIn=USDC&tokenOut=T12ETH&amount=1000")
+
+    expect(status).toBe(200)
+    expect(body.quote).toMatchObject({ inputAmount: "1000", tradeType: "EXACT_INPUT" })
+    expect(deserializeQuoteResult(body.quote).rawTrade).toBeDefined()
+  })
+
+  it("rejects unknown tokens and invalid amounts", async () => {
+    const unknown = await call("GET", "/quote?tokenIn=NOPE&tokenOut=T12ETH&amount=1")
+    const zero = await call("GET", "/quote?tokenIn=USDC&tokenOut=T12ETH&amount=0")
+
+    expect(unknown).toMatchObject({ status: 400, body: { error: { code: "UNKNOWN_TOKEN" } } })
+    expect(zero).toMatchObject({ status: 400, body: { error: { code: "INVALID_REQUEST" } } })
+  })
+
+  it("answers a batch with one result per pair", async () => {
+    const { status, body } = await call("POST", "/quotes", {
+      quotes: [
+        { tokenIn: "USDC", tokenOut: "T12ETH", amount: "1000" },
+        { tokenIn: "USDC", tokenOut: "T12ETH", amount: "5" },
+      ],
+    })
+
+    expect(status).toBe(200)
+    expect(body.results).toHaveLength(2)
+    expect(body.results.every(result => result.quote)).toBe(true)
+  })
+
+  it("rejects batches above maxBatchSize", async () => {
+    const quotes = Array.from({ length: 3 }, () => ({ tokenIn: "USDC", tokenOut: "T12ETH", amount: "1" }))
+
+    const { status, body } = await call("POST", "/quotes", { quotes })
+
+    expect(status).toBe(400)
+    expect(body.error).toMatchObject({ code: "BATCH_TOO_LARGE" })
+  })
+
+  it("returns calldata with the quote's bounds at the requested slippage", async () => {
+    const { status, body } = await call("POST", "/swap/calldata", {
+      tokenIn: "USDC",
+      tokenOut: "T12ETH",
+      amount: "1000",
+      recipient: RECIPIENT,
+      slippage: 2,
+    })
+
+    const quote = deserializeQuoteResult(body.quote)
+    const minimum = SmartRouter.minimumAmountOut(quote.rawTrade!, new Percent(200, 10000))
+    expect(status).toBe(200)
+    expect(body.transaction).toMatchObject({ to: quoter.chainConfig.contracts.smartRouter })
+    expect(body.transaction.calldata).toMatch(/^0x[0-9a-f]+$/)
+    expect(quote.minimumReceived).toBe(formatUnits(minimum.quotient, t12eth.decimals))
+  })
+
+  it("rejects slippage finer than a basis point", async () => {
+    const { status, body } = await call("POST", "/swap/calldata", {
+      tokenIn: "USDC",
+      tokenOut: "T12ETH",
+      amount: "1000",
+      recipient: RECIPIENT,
+      slippage: 0.005,
+    })
+
+    expect(status).toBe(400)
+    expect(body.error.message).toContain("slippage")
+  })
+
+  it("rejects quotes without their trade", async () => {
+    const quote = await quoter.getQuote(baseCampTestnetTokens.usdc, t12eth, "1000")
+
+    const { status, body } = await call("POST", "/swap/calldata", {
+      quote: serializeQuoteResult({ ...quote, rawTrade: undefined }),
+      recipient: RECIPIENT,
+    })
+
+    expect(status).toBe(400)
+    expect(body.error).toMatchObject({ code: "INVALID_QUOTE" })
+  })
+})
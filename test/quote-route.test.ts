@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest"
+import { PoolType, RouteType, type Pool, type SmartRouterTrade } from "@summitx/smart-router/evm"
+import { CurrencyAmount, TradeType, type Currency } from "@summitx/swap-sdk-core"
+import { FeeAmount } from "@summitx/v3-sdk"
+import { parseUnits, type Address } from "viem"
+
+import { buildQuoteRoutes, formatQuoteRoute, type QuoteRoute } from "../src/quoter/quote-route"
+import { createMockPools } from "../src/quoter/mock-pools"
+import { baseCampTestnetNative, baseCampTestnetTokens } from "../src/config/base-testnet"
+
+const { wcamp, usdc, usdt, t12eth } = baseCampTestnetTokens
+
+function mockPool(type: PoolType, address?: Address): Pool {
+  const pool = createMockPools().find(pool => pool.type === type && (!address || ("address" in pool && pool.address === address)))
+  if (!pool) {
+    throw new Error(`No mock ${type} pool ${address ?? ""}`)
+  }
+  return pool
+}
+
+function amount(currency: Currency, value: string) {
+  return CurrencyAmount.fromRawAmount(currency, parseUnits(value, currency.decimals))
+}
+
+// Only the routes are described, so the trade around them is left out
+function tradeOf(routes: SmartRouterTrade<TradeType>["routes"]): SmartRouterTrade<TradeType> {
+  return { tradeType: TradeType.EXACT_INPUT, routes } as SmartRouterTrade<TradeType>
+}
+
+describe("buildQuoteRoutes", () => {
+  // CAMP -> USDC through the WCAMP/USDC V2 pair, then USDC -> T12ETH through a V3 pool
+  const mixed = {
+    type: RouteType.MIXED,
+    percent: 60,
+    path: [baseCampTestnetNative, usdc, t12eth],
+    pools: [mockPool(PoolType.V2), mockPool(PoolType.V3, "0x00000000000000000000000000000000000000a1")],
+    inputAmount: amount(baseCampTestnetNative, "60"),
+    outputAmount: amount(t12eth, "0.06"),
+  }
+  const stable = {
+    type: RouteType.STABLE,
+    percent: 40,
+    path: [usdc, usdt],
+    pools: [mockPool(PoolType.STABLE)],
+    inputAmount: amount(usdc, "40"),
+    outputAmount: amount(usdt, "39.98"),
+  }
+
+  it("describes every hop of a mixed route", () => {
+    const [route] = buildQuoteRoutes(tradeOf([mixed] as SmartRouterTrade<TradeType>["routes"]))
+
+    expect(route).toEqual({
+      type: "MIXED",
+      percent: 60,
+      inputAmount: "60",
+      outputAmount: "0.06",
+      hops: [
+        {
+          // Native CAMP appears as the pool token
+          tokenIn: { address: wcamp.address, symbol: "WCAMP", decimals: 18 },
+          tokenOut: { address: usdc.address, symbol: "USDC", decimals: 6 },
+          poolType: "V2",
+          amountIn: "60",
+        },
+        {
+          tokenIn: { address: usdc.address, symbol: "USDC", decimals: 6 },
+          tokenOut: { address: t12eth.address, symbol: "T12ETH", decimals: 12 },
+          poolType: "V3",
+          poolAddress: "0x00000000000000000000000000000000000000a1",
+          fee: FeeAmount.MEDIUM,
+          amountOut: "0.06",
+        },
+      ],
+    })
+  })
+
+  it("keeps the trade's route order and converts stable fees to hundredths of a bip", () => {
+    const routes = buildQuoteRoutes(tradeOf([mixed, stable] as SmartRouterTrade<TradeType>["routes"]))
+
+    expect(routes.map(route => [route.type, route.percent])).toEqual([["MIXED", 60], ["STABLE", 40]])
+    expect(routes[1].hops).toEqual([
+      expect.objectContaining({
+        poolType: "STABLE",
+        poolAddress: "0x00000000000000000000000000000000000000b1",
+        fee: 400,
+        amountIn: "40",
+        amountOut: "39.98",
+      }),
+    ])
+  })
+})
+
+describe("formatQuoteRoute", () => {
+  const token = (symbol: string | undefined, address: Address) => ({ address, symbol, decimals: 18 })
+
+  it("renders pool type, fee and address per hop", () => {
+    const route: QuoteRoute = {
+      type: "MIXED",
+      percent: 50,
+      inputAmount: "1",
+      outputAmount: "2",
+      hops: [
+        {
+          tokenIn: token("USDC", usdc.address as Address),
+          tokenOut: token("WCAMP", wcamp.address as Address),
+          poolType: "V3",
+          poolAddress: "0x00000000000000000000000000000000000000a3",
+          fee: 2500,
+        },
+        { tokenIn: token("WCAMP", wcamp.address as Address), tokenOut: token("T12ETH", t12eth.address as Address), poolType: "V2" },
+      ],
+    }
+
+    expect(formatQuoteRoute(route)).toBe(
+      "(50% [USDC-WCAMP V3 0.25% 0x00000000000000000000000000000000000000a3, WCAMP-T12ETH V2])"
+    )
+  })
+
+  it("labels stable pools and falls back to addresses without symbols", () => {
+    const unnamed = "0x00000000000000000000000000000000000000c1"
+    const route: QuoteRoute = {
+      type: "STABLE",
+      percent: 100,
+      inputAmount: "1",
+      outputAmount: "1",
+      hops: [{ tokenIn: token(undefined, unnamed), tokenOut: token("USDT", usdt.address as Address), poolType: "STABLE", fee: 400 }],
+    }
+
+    expect(formatQuoteRoute(route)).toBe(`(100% [${unnamed}-USDT Stable 0.04%])`)
+  })
+})
@@ -0,0 +1,153 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+import { PoolType, RouteType, SwapRouter, type SmartRouterTrade } from "@summitx/smart-router/evm"
+import { Percent, TradeType } from "@summitx/swap-sdk-core"
+import type { Address } from "viem"
+
+import { TokenQuoter, type QuoteResult } from "../src/quoter/token-quoter"
+import type { QuoteRouteHop } from "../src/quoter/quote-route"
+import { QuoteToTradeConverterV2 } from "../src/utils/quote-to-trade-converter-v2"
+import { serializeQuoteResult } from "../src/utils/serialize"
+import { baseCampTestnetNative, baseCampTestnetTokens } from "../src/config/base-testnet"
+
+const { usdc, usdt, wcamp, t12eth } = baseCampTestnetTokens
+const RECIPIENT: Address = "0x000000000000000000000000000000000000dEaD"
+const DEADLINE = 1_900_000_000n
+
+function calldataOf(trade: SmartRouterTrade<TradeType>) {
+  return SwapRouter.swapCallParameters(trade, {
+    slippageTolerance: new Percent(50, 10000),
+    recipient: RECIPIENT,
+    deadlineOrPreviousBlockhash: DEADLINE,
+  })
+}
+
+function hop(poolType: QuoteRouteHop["poolType"], extra: Partial<QuoteRouteHop> = {}): QuoteRouteHop {
+  return {
+    tokenIn: { address: usdc.address as Address, symbol: usdc.symbol, decimals: usdc.decimals },
+    tokenOut: { address: usdt.address as Address, symbol: usdt.symbol, decimals: usdt.decimals },
+    poolType,
+    ...extra,
+  }
+}
+
+// Private helpers are reached through index access
+const createPool = (poolType: QuoteRouteHop["poolType"], extra?: Partial<QuoteRouteHop>) =>
+  QuoteToTradeConverterV2["createPool"](usdc, usdt, hop(poolType, extra))
+
+describe("QuoteToTradeConverterV2", () => {
+  let multiHopQuote: QuoteResult
+  let stableQuote: QuoteResult
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    const quoter = new TokenQuoter({ useMockPools: true, gasPriceWei: 1_000_000_000n, slippageTolerance: 0.5 })
+    multiHopQuote = await quoter.getQuote(baseCampTestnetNative, t12eth, "250")
+    stableQuote = await quoter.getQuote(usdc, usdt, "1000", TradeType.EXACT_INPUT, false)
+    vi.restoreAllMocks()
+  })
+
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    return () => vi.restoreAllMocks()
+  })
+
+  describe("convertQuoteToTrade", () => {
+    it("returns the raw trade when the quote has one", () => {
+      expect(QuoteToTradeConverterV2.convertQuoteToTrade(multiHopQuote)).toBe(multiHopQuote.rawTrade)
+    })
+
+    it("rebuilds the routes from the structured route description", () => {
+      for (const quote of [multiHopQuote, stableQuote]) {
+        const trade = QuoteToTradeConverterV2.convertQuoteToTrade({ ...quote, rawTrade: undefined })
+        const original = quote.rawTrade!
+
+        expect(trade.routes).toHaveLength(original.routes.length)
+        trade.routes.forEach((route, i) => {
+          expect(route.type).toBe(original.routes[i].type)
+          expect(route.percent).toBe(original.routes[i].percent)
+          expect(route.path.map(currency => currency.wrapped.address)).toEqual(
+            original.routes[i].path.map(currency => currency.wrapped.address)
+          )
+          expect(route.pools.map(pool => pool.type)).toEqual(original.routes[i].pools.map(pool => pool.type))
+        })
+        expect(QuoteToTradeConverterV2.validateConversion(quote, trade)).toBe(true)
+      }
+    })
+
+    it("keeps native CAMP at the ends of a rebuilt route", () => {
+      const trade = QuoteToTradeConverterV2.convertQuoteToTrade({ ...multiHopQuote, rawTrade: undefined })
+
+      for (const route of trade.routes) {
+        expect(route.path[0].isNative).toBe(true)
+        expect(route.path[route.path.length - 1].equals(t12eth)).toBe(true)
+      }
+    })
+  })
+
+  describe("convertSerializedQuoteToTrade", () => {
+    it("produces the same calldata as the original trade", () => {
+      const json = JSON.stringify(serializeQuoteResult(multiHopQuote))
+      const trade = QuoteToTradeConverterV2.convertSerializedQuoteToTrade(json)
+
+      expect(calldataOf(trade)).toEqual(calldataOf(multiHopQuote.rawTrade!))
+    })
+  })
+
+  describe("createPool", () => {
+    it("creates a V3 pool with the hop's fee and address", () => {
+      const pool = createPool("V3", { fee: 500, poolAddress: "0x00000000000000000000000000000000000000a3" })
+
+      expect(pool.type).toBe(PoolType.V3)
+      expect(pool).toMatchObject({ fee: 500, address: "0x00000000000000000000000000000000000000a3" })
+    })
+
+    it("defaults V3 pools to the 0.3% tier", () => {
+      expect(createPool("V3")).toMatchObject({ fee: 3000 })
+    })
+
+    it("creates a stable pool with the hop's fee as a percent", () => {
+      const pool = createPool("STABLE", { fee: 100, poolAddress: "0x00000000000000000000000000000000000000b1" })
+
+      expect(pool.type).toBe(PoolType.STABLE)
+      expect(pool).toMatchObject({ address: "0x00000000000000000000000000000000000000b1" })
+      expect((pool as { fee: Percent }).fee.equalTo(new Percent(100, 1_000_000))).toBe(true)
+    })
+
+    it("creates a V2 pool from the pair", () => {
+      const pool = createPool("V2")
+
+      expect(pool.type).toBe(PoolType.V2)
+      expect(pool).not.toHaveProperty("address")
+    })
+  })
+
+  describe("determineRouteType", () => {
+    const determineRouteType = (...types: QuoteRouteHop["poolType"][]) =>
+      QuoteToTradeConverterV2["determineRouteType"](types.map(type => createPool(type)))
+
+    it("uses the pool type when all pools share it", () => {
+      expect(determineRouteType("V2", "V2")).toBe(RouteType.V2)
+      expect(determineRouteType("V3")).toBe(RouteType.V3)
+      expect(determineRouteType("STABLE")).toBe(RouteType.STABLE)
+    })
+
+    it("treats routes across pool types as mixed", () => {
+      expect(determineRouteType("V2", "V3")).toBe(RouteType.MIXED)
+      expect(determineRouteType("STABLE", "V3")).toBe(RouteType.MIXED)
+    })
+  })
+
+  describe("validateConversion", () => {
+    it("rejects trades whose amounts differ from the quote", () => {
+      const trade = QuoteToTradeConverterV2.convertQuoteToTrade(stableQuote)
+
+      expect(QuoteToTradeConverterV2.validateConversion({ ...stableQuote, outputAmount: "1" }, trade)).toBe(false)
+    })
+
+    it("rejects trades in other currencies", () => {
+      const trade = QuoteToTradeConverterV2.convertQuoteToTrade(stableQuote)
+
+      expect(QuoteToTradeConverterV2.validateConversion({ ...stableQuote, inputToken: wcamp }, trade)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,65 @@
+import { beforeAll, describe, expect, it, vi } from "vitest"
+import { Percent, TradeType } from "@summitx/swap-sdk-core"
+
+import { TokenQuoter, type QuoteResult } from "../src/quoter/token-quoter"
+import { encodeTrade } from "../src/quoter/trade-codec"
+import {
+  bigintReplacer,
+  deserializePercent,
+  deserializeQuoteResult,
+  serializePercent,
+  serializeQuoteResult,
+} from "../src/utils/serialize"
+import { baseCampTestnetNative, baseCampTestnetTokens } from "../src/config/base-testnet"
+
+const { usdc, t12eth } = baseCampTestnetTokens
+
+// Fields that are plain JSON values in both forms
+function plainFields({ rawTrade: _trade, inputToken: _in, outputToken: _out, priceImpactPercent: _impact, ...rest }: QuoteResult) {
+  return rest
+}
+
+describe("serialize", () => {
+  let quote: QuoteResult
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    const quoter = new TokenQuoter({ useMockPools: true, gasPriceWei: 1_000_000_000n })
+    quote = await quoter.getQuote(usdc, t12eth, "1000")
+    vi.restoreAllMocks()
+  })
+
+  it("round-trips a quote through JSON", () => {
+    const restored = deserializeQuoteResult(JSON.stringify(serializeQuoteResult(quote), bigintReplacer))
+
+    expect(plainFields(restored)).toEqual(plainFields(quote))
+    expect(restored.tradeType).toBe(TradeType.EXACT_INPUT)
+    expect(restored.inputToken.equals(quote.inputToken)).toBe(true)
+    expect(restored.outputToken.equals(quote.outputToken)).toBe(true)
+    expect(restored.priceImpactPercent.equalTo(quote.priceImpactPercent)).toBe(true)
+    expect(encodeTrade(restored.rawTrade!)).toEqual(encodeTrade(quote.rawTrade!))
+  })
+
+  it("round-trips a negative price impact", () => {
+    // A trade that beats the mid price, e.g. through a pool that moved since
+    const better = { ...quote, priceImpactPercent: new Percent(-23n, 10000n) }
+
+    const restored = deserializeQuoteResult(JSON.stringify(serializeQuoteResult(better), bigintReplacer))
+
+    expect(serializePercent(better.priceImpactPercent)).toBe("-23/10000")
+    expect(restored.priceImpactPercent.equalTo(better.priceImpactPercent)).toBe(true)
+  })
+
+  it("keeps native currencies native", () => {
+    const serialized = serializeQuoteResult({ ...quote, rawTrade: undefined, inputToken: baseCampTestnetNative })
+
+    expect(serialized.inputToken).toMatchObject({ address: null, isNative: true })
+    expect(deserializeQuoteResult(serialized).inputToken.isNative).toBe(true)
+  })
+
+  it("rejects malformed percents", () => {
+    expect(() => deserializePercent("1.5/100")).toThrow("Invalid percent")
+    expect(() => deserializePercent("1/-100")).toThrow("Invalid percent")
+    expect(() => deserializePercent("23")).toThrow("Invalid percent")
+  })
+})
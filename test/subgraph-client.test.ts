@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from "vitest"
+import { ClientError, GraphQLClient } from "graphql-request"
+
+import { SubgraphClient } from "../src/quoter/subgraph-client"
+import { SubgraphUnavailableError } from "../src/utils/errors"
+
+const META_RESPONSE = { _meta: { block: { number: 1_000 }, hasIndexingErrors: false } }
+
+function httpError(status: number) {
+  return new ClientError({ status, headers: {} } as ConstructorParameters<typeof ClientError>[0], { query: "" })
+}
+
+// A client whose requests answer with the given results in turn, errors thrown
+function createFakeClient(...results: unknown[]) {
+  const client = new GraphQLClient("http://localhost:8000/subgraphs/name/summitx/exchange-v3")
+  const request = vi.fn(async () => {
+    const result = results.length > 1 ? results.shift() : results[0]
+    if (result instanceof Error) {
+      throw result
+    }
+    return result
+  })
+  client.request = request as unknown as GraphQLClient["request"]
+  return { client, request }
+}
+
+describe("SubgraphClient", () => {
+  it("retries network errors and 5xx responses", async () => {
+    const { client, request } = createFakeClient(new TypeError("fetch failed"), httpError(502), META_RESPONSE)
+    const subgraph = new SubgraphClient("v3", client, { retryDelayMs: 0 })
+
+    expect(await subgraph.getIndexedBlock()).toEqual({ number: 1_000, hasIndexingErrors: false })
+    expect(request).toHaveBeenCalledTimes(3)
+  })
+
+  it("throws SubgraphUnavailableError once the retries are used up", async () => {
+    const { client, request } = createFakeClient(httpError(503))
+    const subgraph = new SubgraphClient("v3", client, { retries: 1, retryDelayMs: 0 })
+
+    const result = subgraph.client.request("{ pools { id } }")
+
+    await expect(result).rejects.toBeInstanceOf(SubgraphUnavailableError)
+    await expect(result).rejects.toMatchObject({ context: { subgraph: "v3", attempts: 2 } })
+    expect(request).toHaveBeenCalledTimes(2)
+  })
+
+  it("does not retry other client errors", async () => {
+    const { client, request } = createFakeClient(httpError(400))
+    const subgraph = new SubgraphClient("v2", client, { retryDelayMs: 0 })
+
+    await expect(subgraph.getIndexedBlock()).rejects.toBeInstanceOf(SubgraphUnavailableError)
+    expect(request).toHaveBeenCalledTimes(1)
+  })
+
+  it("sends the API key and headers with every request", () => {
+    const subgraph = new SubgraphClient(
+      "v3",
+      { url: "https://gateway.example/v3", headers: { "x-api-key": "endpoint" } },
+      { apiKey: "secret", headers: { "x-api-key": "shared", "x-team": "quotes" } }
+    )
+
+    expect(subgraph.url).toBe("https://gateway.example/v3")
+    expect(subgraph.client.requestConfig.headers).toEqual({
+      Authorization: "Bearer secret",
+      "x-api-key": "endpoint",
+      "x-team": "quotes",
+    })
+  })
+
+  it("reports how far the subgraph is behind the chain head", async () => {
+    const { client } = createFakeClient(META_RESPONSE)
+    const subgraph = new SubgraphClient("v3", client)
+
+    expect(await subgraph.health(1_020, 50)).toMatchObject({
+      name: "v3",
+      healthy: true,
+      chainHeadBlock: 1_020,
+      indexedBlock: 1_000,
+      blocksBehind: 20,
+    })
+    expect(await subgraph.health(1_100, 50)).toMatchObject({ healthy: false, blocksBehind: 100 })
+  })
+
+  it("reports subgraphs with indexing errors or no answer as unhealthy", async () => {
+    const failing = new SubgraphClient("v2", createFakeClient(httpError(500)).client, { retries: 0 })
+    const erroring = new SubgraphClient(
+      "v3",
+      createFakeClient({ _meta: { block: { number: 1_000 }, hasIndexingErrors: true } }).client
+    )
+
+    expect(await failing.health(1_000, 50)).toMatchObject({ healthy: false, error: expect.stringContaining("V2 subgraph") })
+    expect(await erroring.health(1_000, 50)).toMatchObject({ healthy: false, hasIndexingErrors: true, blocksBehind: 0 })
+  })
+})
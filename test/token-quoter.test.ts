@@ -0,0 +1,232 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { SmartRouter } from "@summitx/smart-router/evm"
+import { Percent, TradeType } from "@summitx/swap-sdk-core"
+import { formatUnits, parseUnits } from "viem"
+
+import { TokenQuoter } from "../src/quoter/token-quoter"
+import { Logger, MemoryTransport } from "../src/utils/logger"
+import { MetricsRegistry } from "../src/utils/metrics"
+import { NoRouteError } from "../src/utils/errors"
+import { createMockPools } from "../src/quoter/mock-pools"
+import { formatQuoteRoute } from "../src/quoter/quote-route"
+import { baseCampTestnetNative, baseCampTestnetTokens } from "../src/config/base-testnet"
+
+const { usdc, usdt, t12eth } = baseCampTestnetTokens
+const GAS_PRICE_WEI = 1_000_000_000n
+
+// Mock pools and a fixed gas price make every quote deterministic and offline
+function createQuoter(slippageTolerance = 1): TokenQuoter {
+  return new TokenQuoter({ useMockPools: true, gasPriceWei: GAS_PRICE_WEI, slippageTolerance })
+}
+
+describe("TokenQuoter", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    return () => vi.restoreAllMocks()
+  })
+
+  it("returns the same quote for the same pools", async () => {
+    const quoter = createQuoter()
+    const first = await quoter.getQuote(usdc, t12eth, "1000")
+    const second = await quoter.getQuote(usdc, t12eth, "1000")
+
+    expect(first).not.toBeNull()
+    expect(second!.outputAmount).toBe(first!.outputAmount)
+    expect(second!.route).toEqual(first!.route)
+  })
+
+  it("applies slippage to the output of EXACT_INPUT quotes only", async () => {
+    const quote = await createQuoter(1).getQuote(usdc, t12eth, "1000")
+    const minimum = SmartRouter.minimumAmountOut(quote.rawTrade!, new Percent(100, 10000))
+
+    expect(quote.tradeType).toBe(TradeType.EXACT_INPUT)
+    expect(quote.inputAmount).toBe("1000")
+    expect(quote.maximumAmountIn).toBe(quote.inputAmount)
+    expect(quote.minimumReceived).toBe(formatUnits(minimum.quotient, t12eth.decimals))
+    expect(quote.outputAmountWithSlippage).toBe(quote.minimumReceived)
+    expect(parseUnits(quote.minimumReceived, t12eth.decimals)).toBeLessThan(parseUnits(quote.outputAmount, t12eth.decimals))
+  })
+
+  it("applies slippage to the input of EXACT_OUTPUT quotes only", async () => {
+    const quote = await createQuoter(1).getQuote(usdc, t12eth, "0.5", TradeType.EXACT_OUTPUT)
+
+    expect(quote.outputAmount).toBe("0.5")
+    expect(quote.minimumReceived).toBe("0.5")
+    expect(parseUnits(quote.maximumAmountIn, usdc.decimals)).toBeGreaterThan(parseUnits(quote.inputAmount, usdc.decimals))
+  })
+
+  it("describes every route and hop", async () => {
+    const quote = await createQuoter().getQuote(baseCampTestnetNative, t12eth, "100")
+
+    expect(quote.routes.reduce((total, route) => total + route.percent, 0)).toBe(100)
+    expect(quote.route).toEqual(quote.routes.map(formatQuoteRoute))
+    for (const route of quote.routes) {
+      // Native CAMP is routed through its wrapped token
+      expect(route.hops[0].tokenIn.address).toBe(baseCampTestnetTokens.wcamp.address)
+      expect(route.hops[route.hops.length - 1].tokenOut.address).toBe(t12eth.address)
+      expect(route.hops[0].amountIn).toBe(route.inputAmount)
+      expect(route.hops[route.hops.length - 1].amountOut).toBe(route.outputAmount)
+      route.hops.slice(1).forEach((hop, i) => {
+        expect(hop.tokenIn.address).toBe(route.hops[i].tokenOut.address)
+      })
+    }
+  })
+
+  it("reports stable pools with their fee and address", async () => {
+    const quote = await createQuoter().getQuote(usdc, usdt, "1000", TradeType.EXACT_INPUT, false)
+    const hops = quote.routes.flatMap(route => route.hops)
+
+    expect(hops).toContainEqual(expect.objectContaining({
+      poolType: "STABLE",
+      poolAddress: "0x00000000000000000000000000000000000000b1",
+      fee: 400,
+    }))
+    expect(quote.route.join(" ")).toContain("Stable 0.04%")
+  })
+
+  it("prices gas with the configured gas price", async () => {
+    const quote = await createQuoter().getQuote(usdc, t12eth, "1000")
+
+    expect(quote.gasPriceWei).toBe(GAS_PRICE_WEI.toString())
+    expect(quote.gasCostNative).toBe(formatUnits(BigInt(quote.gasEstimate!) * GAS_PRICE_WEI, 18))
+  })
+
+  it("stamps quotes with their creation time but no block when offline", async () => {
+    const before = Date.now()
+    const quote = await createQuoter().getQuote(usdc, t12eth, "1000")
+
+    expect(Date.parse(quote.createdAt)).toBeGreaterThanOrEqual(before)
+    expect(quote.blockNumber).toBeUndefined()
+    expect(quote.adjustedForGas).toBe(true)
+  })
+
+  it("requotes the amount fixed by the trade type", async () => {
+    const quoter = createQuoter()
+    const quote = await quoter.getQuote(usdc, t12eth, "0.5", TradeType.EXACT_OUTPUT, false)
+    const requote = await quoter.requote(quote)
+
+    expect(requote.tradeType).toBe(TradeType.EXACT_OUTPUT)
+    expect(requote.outputAmount).toBe("0.5")
+    expect(requote.inputAmount).toBe(quote.inputAmount)
+    expect(requote.adjustedForGas).toBe(false)
+  })
+
+  it("logs through the injected logger with the quote's id and pair", async () => {
+    const memory = new MemoryTransport()
+    const quoter = new TokenQuoter({
+      useMockPools: true,
+      gasPriceWei: GAS_PRICE_WEI,
+      logger: new Logger({ level: "debug", transports: [memory] }),
+    })
+
+    await quoter.getQuote(usdc, t12eth, "1000")
+    await quoter.getQuote(usdc, t12eth, "1000")
+
+    const quoteIds = new Set(memory.records.map(record => record.context.quoteId))
+    expect(quoteIds.size).toBe(2)
+    expect(memory.records.every(record => record.context.pair === "USDC/T12ETH")).toBe(true)
+    expect(memory.records.map(record => record.message)).toContain("Candidate pools")
+  })
+
+  it("records quote outcomes and latencies", async () => {
+    const registry = new MetricsRegistry()
+    const quoter = new TokenQuoter({ useMockPools: true, gasPriceWei: GAS_PRICE_WEI, metrics: registry })
+
+    await quoter.getQuote(usdc, t12eth, "1000")
+    await expect(quoter.getQuote(baseCampTestnetNative, baseCampTestnetTokens.wcamp, "1")).rejects.toThrow()
+    await expect(quoter.getQuote(usdc, baseCampTestnetTokens.weth, "1")).rejects.toThrow(NoRouteError)
+
+    expect(registry.get("summitx_quotes_total")!.snapshot().values).toEqual([
+      { labels: { outcome: "success" }, value: 1 },
+      { labels: { outcome: "error" }, value: 1 },
+      { labels: { outcome: "no_route" }, value: 1 },
+    ])
+    expect(registry.get("summitx_quote_router_seconds")!.snapshot().values).toHaveLength(1)
+    expect(registry.get("summitx_quote_pool_fetch_seconds")!.snapshot().values[0].labels).toEqual({ source: "mock" })
+    expect(registry.toPrometheus()).toContain('summitx_quote_candidate_pools_count{type="stable"} 1')
+  })
+
+  it("throws NoRouteError when no pool connects the tokens", async () => {
+    const error = await createQuoter().getQuote(usdc, baseCampTestnetTokens.weth, "1000").catch(error => error)
+
+    expect(error).toBeInstanceOf(NoRouteError)
+    expect(error).toMatchObject({ code: "NO_ROUTE", retryable: false, context: { pair: "USDC/WETH", amount: "1000" } })
+  })
+
+  it("throws InsufficientLiquidityError above the maximum price impact", async () => {
+    const quoter = new TokenQuoter({ useMockPools: true, gasPriceWei: GAS_PRICE_WEI, maxPriceImpact: 0.01 })
+
+    await expect(quoter.getQuote(usdc, t12eth, "100000")).rejects.toMatchObject({
+      code: "INSUFFICIENT_LIQUIDITY",
+      retryable: false,
+      context: { maxPriceImpact: 0.01 },
+    })
+  })
+
+  it("returns a result per pair from getMultipleQuotes", async () => {
+    const results = await createQuoter().getMultipleQuotes([
+      { inputToken: usdc, outputToken: t12eth, amount: "1000" },
+      { inputToken: usdc, outputToken: baseCampTestnetTokens.weth, amount: "1000" },
+    ])
+
+    expect(results[0]).toMatchObject({ success: true, quote: { inputAmount: "1000" } })
+    expect(results[1]).toMatchObject({ success: false, error: { code: "NO_ROUTE" } })
+  })
+
+  it("rejects wrapping native CAMP as a swap", async () => {
+    await expect(createQuoter().getQuote(baseCampTestnetNative, baseCampTestnetTokens.wcamp, "1")).rejects.toThrow(
+      "use wrap/unwrap instead"
+    )
+  })
+
+  describe("formatQuoteResult", () => {
+    it("formats a trade with the given slippage, gas price and block", async () => {
+      const quoter = createQuoter()
+      const { rawTrade } = await quoter.getQuote(usdc, t12eth, "1000")
+
+      const result = quoter["formatQuoteResult"](rawTrade!, new Percent(50, 10000), 12, 2n, createMockPools(), 123n)
+
+      expect(result.routerTime).toBe("12ms")
+      expect(result.blockNumber).toBe("123")
+      expect(result.gasPriceWei).toBe("2")
+      expect(result.inputAmount).toBe("1000")
+      expect(result.outputAmount).toBe(formatUnits(rawTrade!.outputAmount.quotient, t12eth.decimals))
+      expect(result.minimumReceived).toBe(
+        formatUnits(SmartRouter.minimumAmountOut(rawTrade!, new Percent(50, 10000)).quotient, t12eth.decimals)
+      )
+      expect(result.priceImpact).toMatch(/^\d+\.\d+%$/)
+      expect(result.rawTrade).toBe(rawTrade)
+    })
+
+    it("prices gas in the output token when the pools can", async () => {
+      const quoter = createQuoter()
+      const { rawTrade } = await quoter.getQuote(usdc, t12eth, "1000")
+
+      const result = quoter["formatQuoteResult"](rawTrade!, new Percent(50, 10000), 0, GAS_PRICE_WEI, createMockPools(), undefined)
+      const withoutPools = quoter["formatQuoteResult"](rawTrade!, new Percent(50, 10000), 0, GAS_PRICE_WEI, [], undefined)
+
+      expect(result.gasCostInOutputToken).toBeDefined()
+      expect(parseUnits(result.outputAmountNetOfGas!, t12eth.decimals)).toBe(
+        parseUnits(result.outputAmount, t12eth.decimals) - parseUnits(result.gasCostInOutputToken!, t12eth.decimals)
+      )
+      expect(result.gasExceedsOutput).toBe(false)
+      expect(withoutPools.gasCostInOutputToken).toBeUndefined()
+      expect(withoutPools.outputAmountNetOfGas).toBeUndefined()
+      expect(withoutPools.gasExceedsOutput).toBeUndefined()
+    })
+
+    it("floors the output net of gas at zero when gas costs more than the output", async () => {
+      const quoter = createQuoter()
+      const { rawTrade } = await quoter.getQuote(usdc, t12eth, "0.01")
+
+      const result = quoter["formatQuoteResult"](rawTrade!, new Percent(50, 10000), 0, 10n ** 24n, createMockPools(), undefined)
+
+      expect(parseUnits(result.gasCostInOutputToken!, t12eth.decimals)).toBeGreaterThan(
+        parseUnits(result.outputAmount, t12eth.decimals)
+      )
+      expect(result.outputAmountNetOfGas).toBe("0")
+      expect(result.gasExceedsOutput).toBe(true)
+    })
+  })
+})
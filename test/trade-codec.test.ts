@@ -0,0 +1,46 @@
+import { beforeAll, describe, expect, it, vi } from "vitest"
+import type { SmartRouterTrade } from "@summitx/smart-router/evm"
+import { TradeType } from "@summitx/swap-sdk-core"
+
+import { TokenQuoter } from "../src/quoter/token-quoter"
+import { ENCODED_TRADE_VERSION, decodeTrade, encodeTrade } from "../src/quoter/trade-codec"
+import { baseCampTestnetTokens } from "../src/config/base-testnet"
+
+const { usdc, summit, t12eth } = baseCampTestnetTokens
+
+describe("trade codec", () => {
+  let trade: SmartRouterTrade<TradeType>
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    const quoter = new TokenQuoter({ useMockPools: true, gasPriceWei: 1_000_000_000n })
+    trade = (await quoter.getQuote(summit, t12eth, "0.25", TradeType.EXACT_OUTPUT)).rawTrade!
+    vi.restoreAllMocks()
+  })
+
+  it("round-trips a trade through JSON", () => {
+    const decoded = decodeTrade(JSON.stringify(encodeTrade(trade)))
+
+    expect(decoded.tradeType).toBe(TradeType.EXACT_OUTPUT)
+    expect(decoded.inputAmount.equalTo(trade.inputAmount)).toBe(true)
+    expect(decoded.outputAmount.equalTo(trade.outputAmount)).toBe(true)
+    expect(decoded.gasEstimate).toBe(trade.gasEstimate)
+    expect(decoded.routes.map(route => [route.type, route.percent, route.pools.length])).toEqual(
+      trade.routes.map(route => [route.type, route.percent, route.pools.length])
+    )
+    // Encoding is stable, so a decoded trade encodes to the same JSON
+    expect(encodeTrade(decoded)).toEqual(encodeTrade(trade))
+  })
+
+  it("rejects other encoding versions", () => {
+    const encoded = { ...encodeTrade(trade), version: ENCODED_TRADE_VERSION + 1 }
+
+    expect(() => decodeTrade(encoded as never)).toThrow(`Unsupported encoded trade version ${ENCODED_TRADE_VERSION + 1}`)
+  })
+
+  it("rejects input without routes", () => {
+    expect(() => decodeTrade(JSON.stringify({ version: ENCODED_TRADE_VERSION, chainId: usdc.chainId }))).toThrow(
+      "expected an object with a routes array"
+    )
+  })
+})
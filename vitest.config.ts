@@ -0,0 +1,9 @@
+import { configDefaults, defineConfig } from "vitest/config"
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    exclude: [...configDefaults.exclude, "test/e2e/**"], // needs anvil, run with `npm run test:e2e`
+    testTimeout: 30_000, // offline quotes run the full router
+  },
+})
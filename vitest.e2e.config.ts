@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config"
+
+// The Anvil swaps in test/e2e, which share one chain and run in file order
+export default defineConfig({
+  test: {
+    include: ["test/e2e/**/*.test.ts"],
+    testTimeout: 60_000,
+    fileParallelism: false,
+  },
+})